@@ -3,6 +3,8 @@
  * - Auto-versioning with build timestamp
  * - Network-first for app code (HTML, JS, CSS)
  * - Cache-first for media (images, videos, fonts)
+ * - Offline app shell: the built app is precached and page loads fall back
+ *   to it, so Drive chats kept in IndexedDB open without a connection
  * - Update notifications for users
  */
 
@@ -18,20 +20,42 @@ const PRECACHE_ASSETS = [
   '/manifest.json'
 ];
 
+// Built scripts and styles referenced by index.html (hashed names)
+const SHELL_ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+\.(?:js|css))"/g;
+
 // File type patterns
 const APP_CODE_PATTERN = /\.(html|js|css|json)$/;
 const MEDIA_PATTERN = /\.(png|jpg|jpeg|gif|webp|svg|mp4|webm|ogg|mp3|wav|woff2|woff|ttf|eot)$/;
 
-// Install event - precache essentials, skip waiting
+// Install event - precache essentials and the app shell, skip waiting
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing version:', VERSION);
   event.waitUntil(
     caches.open(CACHE_NAME)
-      .then((cache) => cache.addAll(PRECACHE_ASSETS))
+      .then((cache) => cache.addAll(PRECACHE_ASSETS).then(() => precacheShellAssets(cache)))
       .then(() => self.skipWaiting()) // Activate immediately
   );
 });
 
+/**
+ * Precache the scripts and styles index.html loads, so the app starts offline
+ * even if it was never reloaded after an update
+ */
+async function precacheShellAssets(cache) {
+  try {
+    const response = await cache.match('/index.html');
+    if (!response) return;
+
+    const html = await response.text();
+    const assets = Array.from(html.matchAll(SHELL_ASSET_PATTERN), (match) => match[1]);
+    await cache.addAll(assets);
+    console.log('[SW] Precached app shell:', assets.length, 'assets');
+  } catch (error) {
+    // Still installs; the assets get cached on first use instead
+    console.warn('[SW] Failed to precache app shell:', error);
+  }
+}
+
 // Activate event - clean up old caches, take control
 self.addEventListener('activate', (event) => {
   console.log('[SW] Activating version:', VERSION);
@@ -63,11 +87,22 @@ self.addEventListener('activate', (event) => {
 self.addEventListener('fetch', (event) => {
   const url = new URL(event.request.url);
 
+  // Only GET responses can be cached
+  if (event.request.method !== 'GET') {
+    return;
+  }
+
   // Skip cross-origin requests (except for media from known sources)
   if (!url.origin.includes(self.location.origin) && !url.origin.includes('googleusercontent.com')) {
     return;
   }
 
+  // Page loads: network-first, offline they get the app shell
+  if (event.request.mode === 'navigate') {
+    event.respondWith(networkFirst(event.request, '/index.html'));
+    return;
+  }
+
   // Network-first for app code (HTML, JS, CSS)
   if (APP_CODE_PATTERN.test(url.pathname) || url.pathname === '/' || url.pathname.endsWith('/')) {
     event.respondWith(networkFirst(event.request));
@@ -86,9 +121,9 @@ self.addEventListener('fetch', (event) => {
 
 /**
  * Network-first strategy
- * Try network, fallback to cache, great for app code
+ * Try network, fallback to cache (or to fallbackUrl's cached copy), great for app code
  */
-async function networkFirst(request) {
+async function networkFirst(request, fallbackUrl) {
   try {
     const networkResponse = await fetch(request);
 
@@ -101,7 +136,7 @@ async function networkFirst(request) {
     return networkResponse;
   } catch (error) {
     // Network failed, try cache
-    const cachedResponse = await caches.match(request);
+    const cachedResponse = await caches.match(request) || (fallbackUrl && await caches.match(fallbackUrl));
 
     if (cachedResponse) {
       console.log('[SW] Serving from cache (offline):', request.url);
@@ -3,10 +3,9 @@
  * WhatsApp Backup Viewer - Supports Google Drive and local file upload
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import type { Chat, Message } from './types';
-import { extractWhatsAppBackup } from './utils/zipExtractor';
-import { parseChatFile } from './utils/chatParser';
+import { cleanupMediaUrls } from './utils/zipExtractor';
 import { extractMediaMessages } from './utils/timelineBuilder';
 import { FileUpload } from './components/FileUpload';
 import { ChatList } from './components/ChatList';
@@ -16,15 +15,34 @@ import { DriveAuth } from './components/DriveAuth';
 import { PasswordPrompt } from './components/PasswordPrompt';
 import { UpdateNotification } from './components/UpdateNotification';
 import { Settings } from './components/Settings';
+import { LocalLibraryBar } from './components/LocalLibraryBar';
+import { OfflinePanel } from './components/OfflinePanel';
+import { GlobalSearchPanel } from './components/GlobalSearchPanel';
+import { SearchQueryChips } from './components/SearchQueryChips';
 import { useDarkMode } from './hooks/useDarkMode';
 import { useDriveChats } from './hooks/useDriveChats';
+import { useLocalLibrary } from './hooks/useLocalLibrary';
+import { useOfflinePrefetch } from './hooks/useOfflinePrefetch';
+import { useGlobalSearch } from './hooks/useGlobalSearch';
+import { useHashRoute } from './hooks/useHashRoute';
+import { offlinePrefetch } from './services/offlinePrefetch';
+import { loadUserIdentity } from './config/userIdentity';
+import { loadContactBook } from './config/contactBook';
+import { loadLocalMediaSetting } from './config/localMedia';
+import { getDisplayedChat } from './utils/chatMerger';
 import { Moon, Sun, Search, Menu, X, Upload, Cloud, Settings as SettingsIcon } from 'lucide-react';
 import type { ChatFolder } from './services/driveService';
+import type { ChatSearchResult, SearchHit } from './utils/searchIndexer';
+import { SEARCH_SYNTAX_HINT } from './utils/searchQuery';
+import { formatHashRoute, getRouteChatId, loadScrollPosition, saveScrollPosition, type AppRoute } from './utils/hashRoute';
 
 type DataSource = 'drive' | 'local';
 
 function App() {
   const { darkMode, toggleDarkMode } = useDarkMode();
+
+  // Open chat, message and panels, as in the URL hash
+  const { route, navigate, goBack } = useHashRoute();
   
   // Data source mode
   const [dataSource, setDataSource] = useState<DataSource>('drive');
@@ -32,10 +50,12 @@ function App() {
   // Google Drive state
   const drive = useDriveChats();
   
-  // Local file state
-  const [localChats, setLocalChats] = useState<Chat[]>([]);
-  const [localLoading, setLocalLoading] = useState(false);
-  const [localError, setLocalError] = useState<string | null>(null);
+  // Local library state (imported ZIPs, kept across reloads)
+  const library = useLocalLibrary();
+
+  // Drive chats kept offline and the job making them so
+  const offline = useOfflinePrefetch();
+  const [offlineTarget, setOfflineTarget] = useState<{ chatFolders: ChatFolder[]; title: string } | null>(null);
   
   // Shared state
   const [selectedChat, setSelectedChat] = useState<Chat | null>(null);
@@ -43,8 +63,17 @@ function App() {
   const [sidebarSearchQuery, setSidebarSearchQuery] = useState('');
   const [chatSearchQuery, setChatSearchQuery] = useState('');
   const [showSearch, setShowSearch] = useState(false);
-  const [selectedMediaIndex, setSelectedMediaIndex] = useState<number | null>(null);
   const [sidebarOpen, setSidebarOpen] = useState(true);
+
+  // Where the open chat was scrolled to before a reload
+  const [restoredScroll] = useState(loadScrollPosition);
+
+  // Search across all chats (replaces the chat list in the sidebar)
+  const [showGlobalSearch, setShowGlobalSearch] = useState(false);
+  const [globalSearchQuery, setGlobalSearchQuery] = useState('');
+
+  // Drive chat currently being loaded, so a slow load can't replace a newer selection
+  const loadingChatIdRef = useRef<string | null>(null);
   
   // Private chat state
   const [showPasswordPrompt, setShowPasswordPrompt] = useState(false);
@@ -53,42 +82,62 @@ function App() {
 
   // Settings state
   const [showSettings, setShowSettings] = useState(false);
+
+  // Bumped whenever the identity profile or contact book is loaded or edited
+  const [identityVersion, setIdentityVersion] = useState(0);
+
+  useEffect(() => {
+    loadLocalMediaSetting();
+    loadUserIdentity()
+      .then(() => loadContactBook())
+      .then(() => setIdentityVersion(v => v + 1));
+  }, []);
+
+  // Media inflated from a local ZIP belongs to the chat on screen; free it on switch
+  const selectedChatId = selectedChat?.id;
+  useEffect(() => {
+    return () => cleanupMediaUrls();
+  }, [selectedChatId]);
+
+  // Outgoing flags and sender labels depend on the identity profile and
+  // contact book, so re-apply both to the chat being shown (minus excluded backups)
+  const displayedChat = useMemo(
+    () => (selectedChat ? getDisplayedChat(selectedChat) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [selectedChat, identityVersion]
+  );
   
-  // Handle local file upload
-  const handleFileSelect = useCallback(async (file: File) => {
-    setLocalLoading(true);
-    setLocalError(null);
-    
-    try {
-      const zipContent = await extractWhatsAppBackup(file);
-      const chats: Chat[] = [];
-      
-      for (const chatFile of zipContent.chatFiles) {
-        const result = parseChatFile(chatFile.name, chatFile.content, zipContent.mediaFiles);
-        if (result.chat.messages.length > 0) {
-          chats.push(result.chat);
-        }
-      }
-      
-      if (chats.length === 0) {
-        throw new Error('No valid chats found in the backup file');
-      }
-      
-      // Use ZIP filename as chat name if unnamed
-      if (chats.length === 1 && chats[0].name === 'Unnamed Chat') {
-        let name = file.name.replace(/\.zip$/i, '').replace(/^WhatsApp Chat\s*[-–]?\s*(with\s*)?/i, '').trim();
-        if (name) chats[0] = { ...chats[0], name };
-      }
-      
-      setLocalChats(chats);
-      setSelectedChat(chats[0]);
+  // Handle local ZIP/folder import
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    const chat = await library.importFiles(files, preview => {
+      // Show the newest messages of a large single-chat backup right away
+      setSelectedChat(preview);
+      setDataSource('local');
+    });
+    if (chat) {
+      setSelectedChat(chat);
+      setSelectedChatFolder(null);
       setDataSource('local');
-    } catch (err) {
-      setLocalError(err instanceof Error ? err.message : 'Unknown error');
-    } finally {
-      setLocalLoading(false);
+      setSidebarOpen(false);
+      navigate({ name: 'chat', chatId: chat.id });
     }
-  }, []);
+  }, [library, navigate]);
+
+  // Remove the open chat from the local library
+  const handleRemoveLocalChat = useCallback(async () => {
+    if (!selectedChat) return;
+    await library.removeChat(selectedChat.id);
+    setSelectedChat(null);
+    setSidebarOpen(true);
+    navigate({ name: 'list' }, { replace: true });
+  }, [selectedChat, library, navigate]);
+
+  const handleClearLibrary = useCallback(async () => {
+    await library.clearLibrary();
+    setSelectedChat(null);
+    setSidebarOpen(true);
+    navigate({ name: 'list' }, { replace: true });
+  }, [library, navigate]);
   
   // Handle Drive chat selection
   const handleDriveChatSelect = useCallback(async (chatFolder: ChatFolder) => {
@@ -102,13 +151,30 @@ function App() {
       return;
     }
     
-    // Load chat from Drive
-    const chat = await drive.loadChat(chatFolder);
-    if (chat) {
+    // Load chat from Drive (large chats show their newest messages first)
+    loadingChatIdRef.current = chatFolder.id;
+    const chat = await drive.loadChat(chatFolder, preview => {
+      if (loadingChatIdRef.current === chatFolder.id) setSelectedChat(preview);
+    });
+    if (chat && loadingChatIdRef.current === chatFolder.id) {
       setSelectedChat(chat);
     }
   }, [drive]);
   
+  // A refresh that synced the open Drive chat shows its new messages
+  const { updatedChatIds, loadChat } = drive;
+  const handledUpdatesRef = useRef(updatedChatIds);
+  useEffect(() => {
+    if (updatedChatIds === handledUpdatesRef.current) return;
+    handledUpdatesRef.current = updatedChatIds;
+
+    const chatFolder = selectedChatFolder;
+    if (!chatFolder || !updatedChatIds.includes(chatFolder.id) || loadingChatIdRef.current !== chatFolder.id) return;
+    loadChat(chatFolder).then(chat => {
+      if (chat && loadingChatIdRef.current === chatFolder.id) setSelectedChat(chat);
+    });
+  }, [updatedChatIds, selectedChatFolder, loadChat]);
+
   // Handle password submit
   const handlePasswordSubmit = useCallback(async (password: string): Promise<{ success: boolean; error?: string }> => {
     const passwordCorrect = await drive.unlockPrivate(password);
@@ -126,8 +192,8 @@ function App() {
     
     // Load the chat - if it fails (e.g., token expired), show appropriate error
     try {
-      // Ensure token is valid before loading chat
-      const hasValidToken = await drive.ensureValidToken();
+      // Ensure token is valid before loading chat (offline, only the cache is read)
+      const hasValidToken = drive.isOffline || await drive.ensureValidToken();
       if (!hasValidToken) {
         return { success: false, error: 'Session expired. Please sign in again.' };
       }
@@ -147,8 +213,8 @@ function App() {
     }
   }, [drive, pendingPrivateChat]);
   
-  // Handle back/navigation - lock private chats
-  const handleBackToList = useCallback(() => {
+  // Close the chat (on the route back to the list) - lock private chats
+  const closeChat = useCallback(() => {
     setSidebarOpen(true);
     
     // If current chat is private, lock it
@@ -157,9 +223,60 @@ function App() {
       drive.lockPrivate();
     }
     
+    loadingChatIdRef.current = null;
     setSelectedChat(null);
     setSelectedChatFolder(null);
   }, [selectedChatFolder, drive]);
+
+  const handleBackToList = useCallback(() => {
+    goBack({ name: 'list' });
+  }, [goBack]);
+
+  // Open a chat by id, wherever it is listed (switching between Drive and local if needed).
+  // False if it isn't listed (yet).
+  const openChatById = useCallback((chatId: string): boolean => {
+    const localChat = library.chats.find(chat => chat.id === chatId);
+    if (localChat) {
+      loadingChatIdRef.current = null;
+      setDataSource('local');
+      setSelectedChatFolder(null);
+      setSelectedChat(localChat);
+      setSidebarOpen(false);
+      return true;
+    }
+
+    const chatFolder = [...drive.publicChats, ...drive.privateChats].find(folder => folder.id === chatId);
+    if (!chatFolder) return false;
+    setDataSource('drive');
+    handleDriveChatSelect(chatFolder);
+    return true;
+  }, [library.chats, drive.publicChats, drive.privateChats, handleDriveChatSelect]);
+
+  // Show what the route says: on back/forward, a link, or a reload (once
+  // the chat lists are loaded)
+  const openChatId = selectedChatFolder?.id ?? selectedChat?.id ?? null;
+  const appliedRouteRef = useRef<string | null>(null);
+  useEffect(() => {
+    const routeKey = formatHashRoute(route);
+    if (appliedRouteRef.current === routeKey) return;
+
+    const chatId = getRouteChatId(route);
+    if (chatId === null) {
+      if (openChatId) closeChat();
+      else setSidebarOpen(true);
+    } else if (chatId !== openChatId) {
+      if (!openChatById(chatId)) return;
+    } else {
+      setSidebarOpen(false);
+    }
+    appliedRouteRef.current = routeKey;
+  }, [route, openChatId, openChatById, closeChat]);
+
+  // Selecting a chat while another is open replaces its history entry, so
+  // back still leads to the list
+  const navigateToChat = useCallback((nextRoute: AppRoute) => {
+    navigate(nextRoute, { replace: route.name !== 'list' });
+  }, [navigate, route.name]);
   
   // Unified search - searches both public and private chats
   // Private results only shown when searched (not listed by default)
@@ -167,18 +284,66 @@ function App() {
     ? drive.searchPrivateChats(sidebarSearchQuery) 
     : [];
   
-  // Handle media click
-  const handleMediaClick = useCallback((message: Message) => {
+  // Global search only shows chats that can be opened (no locked private chats)
+  const searchableChatIds = useMemo(
+    () => new Set([...drive.publicChats, ...visiblePrivateChats, ...library.chats].map(chat => chat.id)),
+    [drive.publicChats, visiblePrivateChats, library.chats]
+  );
+  const globalSearch = useGlobalSearch(globalSearchQuery, {
+    enabled: showGlobalSearch,
+    chatIds: searchableChatIds,
+    libraryChats: library.chats,
+  });
+
+  // Open the chat of a search hit, scrolled to the message
+  const handleSelectSearchHit = useCallback((result: ChatSearchResult, hit: SearchHit) => {
+    if (openChatId === result.chatId) setSidebarOpen(false);
+    navigateToChat({ name: 'message', chatId: result.chatId, messageId: hit.messageId });
+  }, [openChatId, navigateToChat]);
+
+  // Keep every listed Drive chat (public and unlocked private) offline
+  const handleMakeAllOffline = useCallback(() => {
+    setOfflineTarget({ chatFolders: [...drive.publicChats, ...visiblePrivateChats], title: 'All chats' });
+  }, [drive.publicChats, visiblePrivateChats]);
+
+  const handleMakeChatOffline = useCallback(() => {
+    if (!selectedChatFolder) return;
+    setOfflineTarget({ chatFolders: [selectedChatFolder], title: selectedChatFolder.name });
+  }, [selectedChatFolder]);
+
+  const handleRemoveChatOffline = useCallback(() => {
+    if (selectedChatFolder) offlinePrefetch.removeOffline(selectedChatFolder.id);
+  }, [selectedChatFolder]);
+  
+  // Include/exclude one backup of a merged chat
+  const handleToggleBackupExcluded = useCallback(async (sourceIndex: number, excluded: boolean) => {
     if (!selectedChat) return;
-    const mediaMessages = extractMediaMessages(selectedChat.messages);
-    const index = mediaMessages.findIndex(m => m.id === message.id);
-    if (index !== -1) {
-      setSelectedMediaIndex(index);
+    const source = dataSource === 'drive' ? drive : library;
+    const backupSources = await source.setBackupExcluded(selectedChat.id, sourceIndex, excluded);
+    if (backupSources) {
+      setSelectedChat(prev => (prev && prev.id === selectedChat.id ? { ...prev, backupSources } : prev));
     }
-  }, [selectedChat]);
+  }, [selectedChat, dataSource, drive, library]);
+  
+  // Handle media click (opens the gallery on it)
+  const handleMediaClick = useCallback((message: Message) => {
+    if (!displayedChat) return;
+    navigate({ name: 'media', chatId: displayedChat.id, messageId: message.id });
+  }, [displayedChat, navigate]);
+
+  const handleScrollPositionChange = useCallback((messageId: string) => {
+    if (selectedChatId) saveScrollPosition({ chatId: selectedChatId, messageId });
+  }, [selectedChatId]);
   
   // Get media messages for gallery
-  const mediaMessages = selectedChat ? extractMediaMessages(selectedChat.messages) : [];
+  const mediaMessages = displayedChat ? extractMediaMessages(displayedChat.messages) : [];
+
+  // Panels and the message to jump to, from the route (for the chat on screen)
+  const routeForChat = displayedChat && getRouteChatId(route) === displayedChat.id ? route : null;
+  const jumpToMessageId = routeForChat?.name === 'message' ? routeForChat.messageId : null;
+  const showMediaPanel = routeForChat?.name === 'media';
+  const galleryMessageId = routeForChat?.name === 'media' ? routeForChat.messageId : undefined;
+  const selectedMediaIndex = galleryMessageId ? mediaMessages.findIndex(m => m.id === galleryMessageId) : -1;
   
   // Helper to get messages for a folder - use actual messages if loaded, otherwise placeholder
   const getMessagesForFolder = (folder: ChatFolder, placeholder: string) => {
@@ -198,8 +363,7 @@ function App() {
       messages: getMessagesForFolder(folder, 'Tap to view'),
       participants: [],
       isGroup: false,
-      _driveFolder: folder, // Store reference
-    } as Chat & { _driveFolder: ChatFolder })),
+    })),
     // Visible private chats (after password entry)
     ...visiblePrivateChats.map(folder => ({
       id: folder.id,
@@ -207,8 +371,7 @@ function App() {
       messages: getMessagesForFolder(folder, 'Tap to view'),
       participants: [],
       isGroup: false,
-      _driveFolder: folder,
-    } as Chat & { _driveFolder: ChatFolder })),
+    })),
     // Private search results (only when searching) - shown at bottom
     ...(sidebarSearchQuery.trim() ? privateSearchResults
       .filter(folder => !visiblePrivateChats.some(v => v.id === folder.id)) // Don't show already visible ones
@@ -218,13 +381,12 @@ function App() {
         messages: [{ id: 'placeholder', timestamp: new Date(), sender: '', type: 'text' as const, content: '🔒 Enter password to view', isOutgoing: false }],
         participants: [],
         isGroup: false,
-        _driveFolder: folder,
-      } as Chat & { _driveFolder: ChatFolder })) : []),
+      })) : []),
   ];
   
   // Show initial screen if no data loaded
-  const showInitialScreen = (dataSource === 'local' && localChats.length === 0) || 
-                            (dataSource === 'drive' && !drive.isSignedIn);
+  const showInitialScreen = (dataSource === 'local' && library.chats.length === 0) || 
+                            (dataSource === 'drive' && !drive.isSignedIn && !drive.isOffline);
   
   // Initial screen (auth or upload)
   if (showInitialScreen) {
@@ -269,9 +431,10 @@ function App() {
             />
           ) : (
             <FileUpload
-              onFileSelect={handleFileSelect}
-              isLoading={localLoading}
-              error={localError}
+              onFilesSelect={handleFilesSelect}
+              isLoading={library.isLoading}
+              error={library.error}
+              progress={library.parseProgress}
             />
           )}
         </div>
@@ -314,7 +477,7 @@ function App() {
         {/* Sidebar */}
         <div className={`${sidebarOpen ? 'block' : 'hidden'} lg:block w-full lg:w-96 flex-shrink-0 border-r border-whatsapp-border dark:border-whatsapp-border-dark flex flex-col`}>
           {/* Drive status bar */}
-          {dataSource === 'drive' && drive.isSignedIn && (
+          {dataSource === 'drive' && (drive.isSignedIn || drive.isOffline) && (
             <DriveAuth
               isInitialized={drive.isInitialized}
               isSignedIn={drive.isSignedIn}
@@ -323,64 +486,98 @@ function App() {
               onSignIn={drive.signIn}
               onSignOut={drive.signOut}
               onRefresh={drive.refresh}
+              onMakeOffline={drive.isOffline ? undefined : handleMakeAllOffline}
+              offlineStatus={offline.isActive ? `${offline.progress.chatsDone}/${offline.progress.chatCount}` : undefined}
+              isOffline={drive.isOffline}
+            />
+          )}
+
+          {/* Local library bar */}
+          {dataSource === 'local' && (
+            <LocalLibraryBar
+              chatCount={library.chats.length}
+              isLoading={library.isLoading}
+              error={library.error}
+              progress={library.parseProgress}
+              mediaProgress={library.mediaProgress}
+              onFilesSelect={handleFilesSelect}
+              onClear={handleClearLibrary}
             />
           )}
           
-          
-          {/* Chat list */}
+          {/* Chat list, or search across all chats */}
           <div className="flex-1 overflow-hidden">
-            <ChatList
-              chats={dataSource === 'drive' ? driveChatItems : localChats}
-              selectedChatId={selectedChat?.id || null}
-              onSelectChat={(chatId) => {
-                if (dataSource === 'drive') {
-                  const chatItem = driveChatItems.find(c => c.id === chatId) as (Chat & { _driveFolder?: ChatFolder }) | undefined;
-                  if (chatItem?._driveFolder) {
-                    handleDriveChatSelect(chatItem._driveFolder);
-                  }
-                } else {
-                  const chat = localChats.find(c => c.id === chatId);
-                  if (chat) {
-                    setSelectedChat(chat);
-                    setSidebarOpen(false);
-                  }
-                }
-              }}
-              searchQuery={sidebarSearchQuery}
-              onSearchQueryChange={setSidebarSearchQuery}
-            />
+            {showGlobalSearch ? (
+              <GlobalSearchPanel
+                query={globalSearchQuery}
+                onQueryChange={setGlobalSearchQuery}
+                results={globalSearch.results}
+                isSearching={globalSearch.isSearching}
+                indexingCount={globalSearch.indexingCount}
+                onSelectHit={handleSelectSearchHit}
+                onClose={() => setShowGlobalSearch(false)}
+              />
+            ) : (
+              <ChatList
+                chats={dataSource === 'drive' ? driveChatItems : library.chats}
+                selectedChatId={selectedChat?.id || null}
+                onSelectChat={(chatId) => {
+                  if (openChatId === chatId) setSidebarOpen(false);
+                  navigateToChat({ name: 'chat', chatId });
+                }}
+                searchQuery={sidebarSearchQuery}
+                onSearchQueryChange={setSidebarSearchQuery}
+                onOpenGlobalSearch={() => setShowGlobalSearch(true)}
+              />
+            )}
           </div>
         </div>
         
         {/* Chat view */}
         <div className="flex-1 relative overflow-hidden">
-          {selectedChat ? (
+          {displayedChat ? (
             <>
               <ChatView
-                chat={selectedChat}
+                chat={displayedChat}
                 onBack={handleBackToList}
                 onMediaClick={handleMediaClick}
                 darkMode={darkMode}
                 onOpenSearch={() => setShowSearch(true)}
                 searchQuery={showSearch ? chatSearchQuery : ''}
                 getMediaUrl={dataSource === 'drive' ? drive.getMediaUrl : undefined}
+                onToggleBackupExcluded={handleToggleBackupExcluded}
+                onRemoveChat={dataSource === 'local' ? handleRemoveLocalChat : undefined}
+                isAvailableOffline={selectedChatFolder ? offline.offlineChatIds.has(selectedChatFolder.id) : false}
+                onMakeOffline={dataSource === 'drive' && selectedChatFolder && !drive.isOffline ? handleMakeChatOffline : undefined}
+                onRemoveOffline={dataSource === 'drive' && selectedChatFolder ? handleRemoveChatOffline : undefined}
+                parseProgress={dataSource === 'drive' ? drive.parseProgress : library.parseProgress}
+                jumpToMessageId={jumpToMessageId}
+                restoreScrollMessageId={restoredScroll?.chatId === displayedChat.id ? restoredScroll.messageId : null}
+                onScrollPositionChange={handleScrollPositionChange}
+                showMediaPanel={showMediaPanel}
+                onOpenMediaPanel={() => navigate({ name: 'media', chatId: displayedChat.id })}
+                onCloseMediaPanel={() => goBack({ name: 'chat', chatId: displayedChat.id })}
               />
               
               {/* Search overlay */}
               {showSearch && (
-                <div className="absolute top-0 left-0 right-0 bg-whatsapp-header dark:bg-whatsapp-header-dark border-b border-whatsapp-border dark:border-whatsapp-border-dark p-3 flex items-center gap-3 z-10">
-                  <Search size={20} className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark" />
-                  <input
-                    type="text"
-                    placeholder="Search in conversation..."
-                    value={chatSearchQuery}
-                    onChange={(e) => setChatSearchQuery(e.target.value)}
-                    className="flex-1 bg-white dark:bg-whatsapp-panel-dark border border-whatsapp-border dark:border-whatsapp-border-dark rounded-lg px-3 py-2 text-sm text-whatsapp-text dark:text-whatsapp-text-dark placeholder:text-whatsapp-text-secondary dark:placeholder:text-whatsapp-text-secondary-dark"
-                    autoFocus
-                  />
-                  <button onClick={() => { setShowSearch(false); setChatSearchQuery(''); }}>
-                    <X size={20} className="text-whatsapp-text-secondary" />
-                  </button>
+                <div className="absolute top-0 left-0 right-0 bg-whatsapp-header dark:bg-whatsapp-header-dark border-b border-whatsapp-border dark:border-whatsapp-border-dark p-3 z-10">
+                  <div className="flex items-center gap-3">
+                    <Search size={20} className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark" />
+                    <input
+                      type="text"
+                      placeholder="Search in conversation (from:, has:, before:...)"
+                      title={SEARCH_SYNTAX_HINT}
+                      value={chatSearchQuery}
+                      onChange={(e) => setChatSearchQuery(e.target.value)}
+                      className="flex-1 bg-white dark:bg-whatsapp-panel-dark border border-whatsapp-border dark:border-whatsapp-border-dark rounded-lg px-3 py-2 text-sm text-whatsapp-text dark:text-whatsapp-text-dark placeholder:text-whatsapp-text-secondary dark:placeholder:text-whatsapp-text-secondary-dark"
+                      autoFocus
+                    />
+                    <button onClick={() => { setShowSearch(false); setChatSearchQuery(''); }}>
+                      <X size={20} className="text-whatsapp-text-secondary" />
+                    </button>
+                  </div>
+                  <SearchQueryChips query={chatSearchQuery} onQueryChange={setChatSearchQuery} className="mt-2 ml-8" />
                 </div>
               )}
             </>
@@ -395,7 +592,9 @@ function App() {
               </p>
               {dataSource === 'drive' && drive.publicChats.length === 0 && !drive.isLoading && !drive.error && (
                 <p className="text-sm text-orange-500">
-                  No chats found. Please check your backup folder setup.
+                  {drive.isOffline
+                    ? 'No chats are available offline. Open or keep chats offline while connected.'
+                    : 'No chats found. Please check your backup folder setup.'}
                 </p>
               )}
             </div>
@@ -404,11 +603,11 @@ function App() {
       </div>
       
       {/* Media Gallery */}
-      {selectedMediaIndex !== null && mediaMessages.length > 0 && (
+      {displayedChat && selectedMediaIndex !== -1 && (
         <MediaGallery
           media={mediaMessages}
           initialIndex={selectedMediaIndex}
-          onClose={() => setSelectedMediaIndex(null)}
+          onClose={() => goBack({ name: 'chat', chatId: displayedChat.id })}
           getMediaUrl={drive.getMediaUrl}
         />
       )}
@@ -417,14 +616,27 @@ function App() {
       <PasswordPrompt
         isOpen={showPasswordPrompt}
         onClose={() => { setShowPasswordPrompt(false); setPendingPrivateChat(null); }}
+        onCancel={() => goBack({ name: 'list' })}
         onSubmit={handlePasswordSubmit}
         chatName={pendingPrivateChat?.name}
       />
 
+      {/* Make available offline */}
+      {offlineTarget && (
+        <OfflinePanel
+          chatFolders={offlineTarget.chatFolders}
+          title={offlineTarget.title}
+          ensureToken={drive.ensureValidToken}
+          onClose={() => setOfflineTarget(null)}
+        />
+      )}
+
       {/* Settings Modal */}
       <Settings
         isOpen={showSettings}
         onClose={() => setShowSettings(false)}
+        localChats={library.chats}
+        onIdentityChange={() => setIdentityVersion(v => v + 1)}
       />
     </div>
   );
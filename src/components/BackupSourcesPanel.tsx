@@ -0,0 +1,114 @@
+/**
+ * BackupSourcesPanel Component
+ * Shows the backups merged into a multi-backup chat: each source file, its
+ * date range, what it contributed, gaps between backups, and lets the user
+ * exclude a backup from the timeline
+ */
+
+import React, { useMemo } from 'react';
+import type { BackupSource } from '../types';
+import { ArrowLeft, FileText, Eye, EyeOff, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { findBackupGaps } from '../utils/chatMerger';
+
+interface BackupSourcesPanelProps {
+  chatName: string;
+  sources: BackupSource[];
+  visibleMessageCount: number;
+  onToggleExcluded?: (sourceIndex: number, excluded: boolean) => void;
+  onBack: () => void;
+}
+
+function formatRange(source: BackupSource): string {
+  if (!source.firstMessageAt || !source.lastMessageAt) return 'No messages';
+  return `${format(source.firstMessageAt, 'MMM d, yyyy')} – ${format(source.lastMessageAt, 'MMM d, yyyy')}`;
+}
+
+export const BackupSourcesPanel: React.FC<BackupSourcesPanelProps> = ({
+  chatName,
+  sources,
+  visibleMessageCount,
+  onToggleExcluded,
+  onBack,
+}) => {
+  // Sources in chronological order, with any uncovered period after each one
+  const rows = useMemo(() => {
+    const gaps = findBackupGaps(sources);
+    return sources
+      .map((source, index) => ({ source, index }))
+      .sort((a, b) => (a.source.firstMessageAt?.getTime() ?? 0) - (b.source.firstMessageAt?.getTime() ?? 0))
+      .map(row => ({ ...row, gapAfter: gaps.find(g => g.afterSource === row.index) }));
+  }, [sources]);
+
+  const includedCount = sources.filter(s => !s.excluded).length;
+
+  return (
+    <div className="h-full flex flex-col bg-gray-100 dark:bg-[#111b21]">
+      {/* Header */}
+      <div className="bg-[#f0f2f5] dark:bg-[#202c33] px-4 py-3 flex items-center gap-4 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onBack}
+          className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <div>
+          <h2 className="text-lg font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
+            Backup sources
+          </h2>
+          <p className="text-sm text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+            {chatName} · {includedCount} of {sources.length} backups · {visibleMessageCount.toLocaleString()} messages
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {rows.map(({ source, index, gapAfter }) => (
+          <React.Fragment key={source.id}>
+            <div
+              className={`bg-white dark:bg-whatsapp-panel-dark rounded-lg p-3 flex items-start gap-3 ${
+                source.excluded ? 'opacity-50' : ''
+              }`}
+            >
+              <div className="w-10 h-10 bg-blue-100 dark:bg-blue-900/30 rounded-lg flex items-center justify-center flex-shrink-0">
+                <FileText className="w-5 h-5 text-blue-500" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-whatsapp-text dark:text-whatsapp-text-dark truncate">
+                  {source.backupName}
+                </p>
+                <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark truncate">
+                  {source.fileName}
+                </p>
+                <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
+                  {formatRange(source)}
+                </p>
+                <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  {source.messageCount.toLocaleString()} messages · {source.uniqueCount.toLocaleString()} only in this backup
+                  {source.conflictCount > 0 && ` · ${source.conflictCount} conflicts`}
+                </p>
+              </div>
+              {onToggleExcluded && (
+                <button
+                  onClick={() => onToggleExcluded(index, !source.excluded)}
+                  disabled={!source.excluded && includedCount === 1}
+                  className="p-2 text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark disabled:opacity-30"
+                  title={source.excluded ? 'Include in timeline' : 'Exclude from timeline'}
+                >
+                  {source.excluded ? <EyeOff size={18} /> : <Eye size={18} />}
+                </button>
+              )}
+            </div>
+
+            {gapAfter && (
+              <div className="flex items-center gap-2 px-3 py-2 rounded-lg bg-orange-50 dark:bg-orange-900/20 text-xs text-orange-700 dark:text-orange-300">
+                <AlertTriangle size={14} className="flex-shrink-0" />
+                No backup covers {format(gapAfter.from, 'MMM d, yyyy')} – {format(gapAfter.to, 'MMM d, yyyy')} ({gapAfter.days} days)
+              </div>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
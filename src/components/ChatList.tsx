@@ -7,7 +7,7 @@
 import React, { useMemo } from 'react';
 import type { Chat } from '../types';
 import { getInitials } from '../utils/timelineBuilder';
-import { Search, Users } from 'lucide-react';
+import { Search, TextSearch, Users } from 'lucide-react';
 
 interface ChatListProps {
   chats: Chat[];
@@ -15,6 +15,7 @@ interface ChatListProps {
   onSelectChat: (chatId: string) => void;
   searchQuery: string;
   onSearchQueryChange: (q: string) => void;
+  onOpenGlobalSearch?: () => void; // Search message text across all chats
 }
 
 export const ChatList: React.FC<ChatListProps> = ({
@@ -23,6 +24,7 @@ export const ChatList: React.FC<ChatListProps> = ({
   onSelectChat,
   searchQuery,
   onSearchQueryChange,
+  onOpenGlobalSearch,
 }) => {
   const filteredChats = useMemo(() => {
     const q = searchQuery.trim().toLowerCase();
@@ -40,9 +42,21 @@ export const ChatList: React.FC<ChatListProps> = ({
     <div className="h-full flex flex-col bg-whatsapp-panel dark:bg-whatsapp-panel-dark border-r border-whatsapp-border dark:border-whatsapp-border-dark">
       {/* Header */}
       <div className="bg-whatsapp-header dark:bg-whatsapp-header-dark p-4 border-b border-whatsapp-border dark:border-whatsapp-border-dark">
-        <h1 className="text-xl font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
-          Chats
-        </h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-xl font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
+            Chats
+          </h1>
+          {onOpenGlobalSearch && (
+            <button
+              onClick={onOpenGlobalSearch}
+              className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark"
+              aria-label="Search messages in all chats"
+              title="Search messages in all chats"
+            >
+              <TextSearch size={20} />
+            </button>
+          )}
+        </div>
         <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-0.5">
           {filteredChats.length} conversation{filteredChats.length !== 1 ? 's' : ''}
         </p>
@@ -0,0 +1,148 @@
+/**
+ * ChatSearchResults Component
+ * Every match of the in-chat search, grouped by date, with the sender, time
+ * and a snippet with the matched words highlighted. Virtualized, since a
+ * filter like has:media can match tens of thousands of messages.
+ */
+
+import React, { useMemo, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { format } from 'date-fns';
+import { X } from 'lucide-react';
+import type { Message, MessageType } from '../types';
+import { groupMessagesByDate } from '../utils/timelineBuilder';
+import { buildSnippet, tokenize } from '../utils/searchIndexer';
+import { parseSearchQuery, getQueryTextTerms, toSearchableMessage } from '../utils/searchQuery';
+import { HighlightedSnippet } from './HighlightedSnippet';
+
+interface ChatSearchResultsProps {
+  matches: Message[]; // In chat order
+  query: string;
+  currentMessageId: string | null;
+  onSelect: (message: Message) => void;
+  onClose: () => void;
+}
+
+type ResultRow =
+  | { type: 'date'; dateString: string; count: number }
+  | { type: 'match'; message: Message };
+
+// Shown for matches without text (e.g. has:image)
+const TYPE_LABELS: Partial<Record<MessageType, string>> = {
+  image: 'Photo',
+  video: 'Video',
+  audio: 'Audio',
+  document: 'Document',
+  sticker: 'Sticker',
+  call: 'Call',
+  system: 'Event',
+};
+
+export const ChatSearchResults: React.FC<ChatSearchResultsProps> = ({
+  matches,
+  query,
+  currentMessageId,
+  onSelect,
+  onClose,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => {
+    const result: ResultRow[] = [];
+    for (const group of groupMessagesByDate(matches)) {
+      result.push({ type: 'date', dateString: group.dateString, count: group.messages.length });
+      for (const message of group.messages) result.push({ type: 'match', message });
+    }
+    return result;
+  }, [matches]);
+
+  const highlightTokens = useMemo(
+    () => Array.from(new Set(getQueryTextTerms(parseSearchQuery(query)).flatMap(tokenize))),
+    [query]
+  );
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => (rows[index].type === 'date' ? 32 : 64),
+    overscan: 10,
+  });
+
+  return (
+    <div className="h-full flex flex-col bg-whatsapp-panel dark:bg-whatsapp-panel-dark border-l border-whatsapp-border dark:border-whatsapp-border-dark">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-whatsapp-border dark:border-whatsapp-border-dark">
+        <h3 className="font-semibold text-sm text-whatsapp-text dark:text-whatsapp-text-dark">
+          {matches.length.toLocaleString()} {matches.length === 1 ? 'match' : 'matches'}
+        </h3>
+        <button
+          onClick={onClose}
+          className="p-1 text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded"
+          aria-label="Close search results"
+        >
+          <X size={18} />
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto wa-scrollbar">
+        {matches.length === 0 ? (
+          <p className="text-sm text-center text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark p-8">
+            No messages found
+          </p>
+        ) : (
+          <div style={{ height: `${virtualizer.getTotalSize()}px`, position: 'relative' }}>
+            {virtualizer.getVirtualItems().map((virtualRow) => {
+              const row = rows[virtualRow.index];
+              const style: React.CSSProperties = {
+                position: 'absolute',
+                top: 0,
+                left: 0,
+                width: '100%',
+                transform: `translateY(${virtualRow.start}px)`,
+              };
+
+              if (row.type === 'date') {
+                return (
+                  <div
+                    key={virtualRow.key}
+                    data-index={virtualRow.index}
+                    ref={virtualizer.measureElement}
+                    style={style}
+                    className="flex items-center justify-between px-4 py-1.5 bg-gray-100 dark:bg-whatsapp-header-dark text-xs font-medium text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark"
+                  >
+                    <span>{row.dateString}</span>
+                    <span>{row.count}</span>
+                  </div>
+                );
+              }
+
+              const { message } = row;
+              const text = toSearchableMessage(message).text;
+              return (
+                <div key={virtualRow.key} data-index={virtualRow.index} ref={virtualizer.measureElement} style={style}>
+                  <button
+                    onClick={() => onSelect(message)}
+                    className={`w-full text-left px-4 py-2 transition-colors ${
+                      message.id === currentMessageId
+                        ? 'bg-whatsapp-primary/10'
+                        : 'hover:bg-gray-50 dark:hover:bg-whatsapp-header-dark'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between gap-2 text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mb-0.5">
+                      <span className="truncate">{message.sender || 'System'}</span>
+                      <span className="flex-shrink-0">{format(message.timestamp, 'HH:mm')}</span>
+                    </div>
+                    <p className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark break-words line-clamp-2">
+                      {text
+                        ? <HighlightedSnippet snippet={buildSnippet(text, highlightTokens)} />
+                        : <span className="italic">{TYPE_LABELS[message.type] ?? 'Message'}</span>}
+                    </p>
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -8,21 +8,35 @@
 
 import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import type { Chat, Message, TimelineGroup, MessageBubbleGroup } from '../types';
+import type { Chat, Message, TimelineGroup, MessageBubbleGroup, SystemMessageType, ParseProgress } from '../types';
 import { MessageBubble } from './MessageBubble';
 import { MediaLinksDocsView } from './MediaLinksDocsView';
+import { GroupInfoPanel } from './GroupInfoPanel';
+import { BackupSourcesPanel } from './BackupSourcesPanel';
+import { ChatSearchResults } from './ChatSearchResults';
+import { JumpToDateCalendar } from './JumpToDateCalendar';
+import { TimelineScrubber, type ScrubberData, type ScrubberMarker } from './TimelineScrubber';
 import {
   groupMessagesByDate,
   groupMessagesIntoBubbles,
-  getInitials
+  detectTimelineGaps,
+  getInitials,
+  getSystemTypesInChat,
+  SYSTEM_TYPE_LABELS,
+  formatParseProgress,
+  type TimelineGap
 } from '../utils/timelineBuilder';
-import { ArrowLeft, Search, MoreVertical, ChevronDown, ChevronUp, Image } from 'lucide-react';
+import { parseSearchQuery, isEmptyQuery, matchesSearchQuery, toSearchableMessage } from '../utils/searchQuery';
+import { format } from 'date-fns';
+import { ArrowLeft, Search, MoreVertical, ChevronDown, ChevronUp, Image, Filter, X, Users, Layers, AlertTriangle, Trash2, CloudDownload, CloudOff, List, CalendarDays } from 'lucide-react';
 
 /**
- * Flattened item for virtual list - either a date separator or a message bubble group
+ * Flattened item for virtual list - a date separator, a possible missing
+ * history marker, or a message bubble group
  */
 type VirtualItem =
   | { type: 'date'; dateString: string }
+  | { type: 'gap'; gap: TimelineGap }
   | { type: 'bubbleGroup'; bubbleGroup: MessageBubbleGroup; isGroup: boolean };
 
 interface ChatViewProps {
@@ -33,6 +47,18 @@ interface ChatViewProps {
   darkMode?: boolean;
   onOpenSearch?: () => void;
   getMediaUrl?: (driveFileId: string, mimeType: string) => Promise<string>;
+  onToggleBackupExcluded?: (sourceIndex: number, excluded: boolean) => void;
+  onRemoveChat?: () => void; // Local library chats only
+  isAvailableOffline?: boolean;
+  onMakeOffline?: () => void; // Drive chats only
+  onRemoveOffline?: () => void;
+  parseProgress?: ParseProgress | null; // Shown while chat.isPartial
+  jumpToMessageId?: string | null; // Scroll to (and mark) this message, e.g. a global search hit
+  restoreScrollMessageId?: string | null; // Open scrolled to this message instead of the end
+  onScrollPositionChange?: (messageId: string) => void; // First message in view, once scrolling stops
+  showMediaPanel?: boolean; // Media, links and docs
+  onOpenMediaPanel?: () => void;
+  onCloseMediaPanel?: () => void;
 }
 
 // Background style memoized to avoid recalculation
@@ -50,11 +76,15 @@ const useBackgroundStyle = (darkMode: boolean) => {
 
 /**
  * Flattens date groups into a single array for virtualization
- * Each item is either a date separator or a bubble group
+ * Each item is a date separator, a gap marker or a bubble group
  */
-function flattenForVirtualization(dateGroups: TimelineGroup[], isGroup: boolean): VirtualItem[] {
+function flattenForVirtualization(dateGroups: TimelineGroup[], isGroup: boolean, gaps: TimelineGap[] = []): VirtualItem[] {
   const items: VirtualItem[] = [];
-  for (const dateGroup of dateGroups) {
+  const gapsByIndex = new Map(gaps.map(gap => [gap.groupIndex, gap]));
+  dateGroups.forEach((dateGroup, groupIndex) => {
+    // Add missing history marker before the date it leads into
+    const gap = gapsByIndex.get(groupIndex);
+    if (gap) items.push({ type: 'gap', gap });
     // Add date separator
     items.push({ type: 'date', dateString: dateGroup.dateString });
     // Add all bubble groups for this date
@@ -62,10 +92,69 @@ function flattenForVirtualization(dateGroups: TimelineGroup[], isGroup: boolean)
     for (const bubbleGroup of bubbleGroups) {
       items.push({ type: 'bubbleGroup', bubbleGroup, isGroup });
     }
-  }
+  });
+  // History missing after the last message
+  const trailingGap = gapsByIndex.get(dateGroups.length);
+  if (trailingGap) items.push({ type: 'gap', gap: trailingGap });
   return items;
 }
 
+// Density slices along the timeline scrubber
+const SCRUBBER_SLICES = 120;
+
+/**
+ * Month markers and message density along the virtual list, for the timeline
+ * scrubber. Walks the flattened items once; dateGroups are the groups the
+ * items were flattened from, in the same order.
+ */
+function buildScrubberData(items: VirtualItem[], dateGroups: TimelineGroup[]): ScrubberData {
+  const markers: ScrubberMarker[] = [];
+  const sliceCount = Math.min(SCRUBBER_SLICES, items.length);
+  const messageCounts = new Array<number>(sliceCount).fill(0);
+  const dayCounts = new Array<number>(sliceCount).fill(0);
+
+  let groupIndex = 0;
+  let previousDate: Date | null = null;
+  items.forEach((item, index) => {
+    const slice = Math.floor((index * sliceCount) / items.length);
+    if (item.type === 'date') {
+      const date = dateGroups[groupIndex++].date;
+      dayCounts[slice]++;
+      const isYearStart = !previousDate || date.getFullYear() !== previousDate.getFullYear();
+      if (isYearStart || date.getMonth() !== previousDate!.getMonth()) {
+        markers.push({ itemIndex: index, label: format(date, isYearStart ? 'yyyy' : 'MMM'), isYearStart });
+      }
+      previousDate = date;
+    } else if (item.type === 'bubbleGroup') {
+      messageCounts[slice] += item.bubbleGroup.messages.length;
+    }
+  });
+
+  // Messages per day, so busy stretches stand out; square root keeps quiet ones visible
+  const perDay = messageCounts.map((count, slice) => count / Math.max(1, dayCounts[slice]));
+  const max = Math.max(0, ...perDay);
+  return {
+    itemCount: items.length,
+    markers,
+    density: perDay.map(value => (max > 0 ? Math.sqrt(value / max) : 0)),
+  };
+}
+
+/**
+ * Explains why a gap is flagged, for the missing history marker
+ */
+function describeGap(gap: TimelineGap): string {
+  const reasons: string[] = [];
+  if (gap.reasons.includes('backup_gap')) {
+    reasons.push('no backup covers this period');
+  }
+  if (gap.reasons.includes('unreferenced_media')) {
+    const count = gap.mediaFileNames.length;
+    reasons.push(`${count} media ${count === 1 ? 'file' : 'files'} from these days have no message`);
+  }
+  return reasons.join(' · ');
+}
+
 /**
  * Estimates row height based on item type
  * Date separators are small, bubble groups vary based on message count and content
@@ -74,6 +163,9 @@ function estimateRowHeight(item: VirtualItem): number {
   if (item.type === 'date') {
     return 40; // Date separator height
   }
+  if (item.type === 'gap') {
+    return 64; // Missing history marker height
+  }
   const msgs = item.bubbleGroup.messages;
   // Rough estimate: 60px base + 30px per message + extra for media
   let height = 60;
@@ -99,35 +191,93 @@ export const ChatView: React.FC<ChatViewProps> = ({
   darkMode = false,
   onOpenSearch,
   getMediaUrl,
+  onToggleBackupExcluded,
+  onRemoveChat,
+  isAvailableOffline = false,
+  onMakeOffline,
+  onRemoveOffline,
+  parseProgress,
+  jumpToMessageId = null,
+  restoreScrollMessageId = null,
+  onScrollPositionChange,
+  showMediaPanel = false,
+  onOpenMediaPanel,
+  onCloseMediaPanel,
 }) => {
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
   // Search state
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
   const [matchingMessageIds, setMatchingMessageIds] = useState<string[]>([]);
+  const [showSearchResults, setShowSearchResults] = useState(false);
+  const [flashMessageId, setFlashMessageId] = useState<string | null>(null);
 
   // Sticky date state
   const [currentVisibleDate, setCurrentVisibleDate] = useState<string>('');
   const [showStickyDate, setShowStickyDate] = useState(false);
+  const [isStickyDateHovered, setIsStickyDateHovered] = useState(false);
+
+  // Jump-to-date calendar: the date group whose month it opens on, null while closed
+  const [calendarGroupIndex, setCalendarGroupIndex] = useState<number | null>(null);
 
   // Menu state
   const [showMenu, setShowMenu] = useState(false);
-  const [showMediaLinksDocsView, setShowMediaLinksDocsView] = useState(false);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [showBackupSources, setShowBackupSources] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
+  // System event filter state
+  const [showEventFilter, setShowEventFilter] = useState(false);
+  const [hiddenSystemTypes, setHiddenSystemTypes] = useState<Set<SystemMessageType>>(new Set());
+
   // Memoize background style
   const backgroundStyle = useBackgroundStyle(darkMode);
 
+  // System event types present in this chat (for filter chips)
+  const systemTypes = useMemo(
+    () => getSystemTypesInChat(chat.messages),
+    [chat.messages]
+  );
+
+  // Messages after applying the system event filter
+  const visibleMessages = useMemo(() => {
+    if (hiddenSystemTypes.size === 0) return chat.messages;
+    return chat.messages.filter(
+      msg => msg.type !== 'system' || !hiddenSystemTypes.has(msg.systemType || 'other')
+    );
+  }, [chat.messages, hiddenSystemTypes]);
+
+  const toggleSystemType = useCallback((systemType: SystemMessageType) => {
+    setHiddenSystemTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(systemType)) {
+        next.delete(systemType);
+      } else {
+        next.add(systemType);
+      }
+      return next;
+    });
+  }, []);
+
   // Memoize date groups to avoid recalculation on every render
   const dateGroups = useMemo(
-    () => groupMessagesByDate(chat.messages),
-    [chat.messages]
+    () => groupMessagesByDate(visibleMessages),
+    [visibleMessages]
+  );
+
+  // Places where history is probably missing
+  const timelineGaps = useMemo(
+    () => detectTimelineGaps(dateGroups, {
+      backupSources: chat.backupSources,
+      unreferencedMedia: chat.unreferencedMedia,
+    }),
+    [dateGroups, chat.backupSources, chat.unreferencedMedia]
   );
 
   // Memoize flattened items for virtual list
   const virtualItems = useMemo(
-    () => flattenForVirtualization(dateGroups, chat.isGroup),
-    [dateGroups, chat.isGroup]
+    () => flattenForVirtualization(dateGroups, chat.isGroup, timelineGaps),
+    [dateGroups, chat.isGroup, timelineGaps]
   );
 
   // Build message ID to virtual index mapping for search navigation
@@ -143,6 +293,40 @@ export const ChatView: React.FC<ChatViewProps> = ({
     return map;
   }, [virtualItems]);
 
+  // Virtual index of each date group's separator, for jumping to a day
+  const dateGroupItemIndexes = useMemo(() => {
+    const indexes: number[] = [];
+    virtualItems.forEach((item, index) => {
+      if (item.type === 'date') indexes.push(index);
+    });
+    return indexes;
+  }, [virtualItems]);
+
+  // Date group shown at a virtual index (the last one starting at or before it)
+  const findDateGroupAt = useCallback((itemIndex: number) => {
+    let low = 0;
+    let high = dateGroupItemIndexes.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1;
+      if (dateGroupItemIndexes[mid] <= itemIndex) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }, [dateGroupItemIndexes]);
+
+  const scrubberData = useMemo(
+    () => buildScrubberData(virtualItems, dateGroups),
+    [virtualItems, dateGroups]
+  );
+
+  const getScrubberLabel = useCallback(
+    (itemIndex: number) => {
+      const group = dateGroups[findDateGroupAt(itemIndex)];
+      return group ? format(group.date, 'MMMM yyyy') : '';
+    },
+    [dateGroups, findDateGroupAt]
+  );
+
   // Virtualizer setup
   const virtualizer = useVirtualizer({
     count: virtualItems.length,
@@ -162,28 +346,44 @@ export const ChatView: React.FC<ChatViewProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Auto-scroll to bottom on initial load
+  // Auto-scroll to bottom on initial load, and again when a partial
+  // (newest messages only) chat is replaced by the fully parsed one
+  // (unless jumping to a message, or back to where a reload left off)
   useEffect(() => {
+    if (jumpToMessageId) return;
+    const restoreIndex = restoreScrollMessageId ? messageIdToIndex.get(restoreScrollMessageId) : undefined;
     const timer = setTimeout(() => {
-      virtualizer.scrollToIndex(virtualItems.length - 1, { align: 'end' });
+      if (restoreIndex !== undefined) {
+        virtualizer.scrollToIndex(restoreIndex, { align: 'start' });
+      } else {
+        virtualizer.scrollToIndex(virtualItems.length - 1, { align: 'end' });
+      }
     }, 100);
     return () => clearTimeout(timer);
-  }, [chat.id]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [chat.id, chat.isPartial]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Jump to a message once it is in the timeline (a partial chat may not have it yet)
+  const jumpTargetIndex = jumpToMessageId ? messageIdToIndex.get(jumpToMessageId) : undefined;
+  useEffect(() => {
+    if (jumpTargetIndex === undefined) return;
+    const timer = setTimeout(() => virtualizer.scrollToIndex(jumpTargetIndex, { align: 'center' }), 50);
+    return () => clearTimeout(timer);
+  }, [jumpToMessageId, jumpTargetIndex]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Build search index when query changes
   useEffect(() => {
-    if (!searchQuery.trim()) {
+    const query = parseSearchQuery(searchQuery);
+    if (isEmptyQuery(query)) {
       setMatchingMessageIds([]);
       setCurrentMatchIndex(0);
       return;
     }
 
-    const q = searchQuery.toLowerCase();
     const matches: string[] = [];
 
-    for (const msg of chat.messages) {
-      if (msg.content?.toLowerCase().includes(q) ||
-          msg.sender?.toLowerCase().includes(q)) {
+    // Only messages on screen: system events hidden by the filter can't be scrolled to
+    for (const msg of visibleMessages) {
+      if (matchesSearchQuery(toSearchableMessage(msg), query)) {
         matches.push(msg.id);
       }
     }
@@ -198,7 +398,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
         setTimeout(() => virtualizer.scrollToIndex(idx, { align: 'center' }), 50);
       }
     }
-  }, [searchQuery, chat.messages, messageIdToIndex]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [searchQuery, visibleMessages, messageIdToIndex]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Navigate to next match
   const goToNextMatch = useCallback(() => {
@@ -226,6 +426,50 @@ export const ChatView: React.FC<ChatViewProps> = ({
     }
   }, [currentMatchIndex, matchingMessageIds, messageIdToIndex, virtualizer]);
 
+  // Matched messages for the results panel, in chat order
+  const matchingMessages = useMemo(() => {
+    if (matchingMessageIds.length === 0) return [];
+    const ids = new Set(matchingMessageIds);
+    return visibleMessages.filter(msg => ids.has(msg.id));
+  }, [matchingMessageIds, visibleMessages]);
+
+  // Jump to a result from the panel and flash it
+  const selectSearchResult = useCallback((message: Message) => {
+    const matchIndex = matchingMessageIds.indexOf(message.id);
+    if (matchIndex !== -1) setCurrentMatchIndex(matchIndex);
+    setFlashMessageId(message.id);
+
+    const idx = messageIdToIndex.get(message.id);
+    if (idx !== undefined) {
+      virtualizer.scrollToIndex(idx, { align: 'center' });
+    }
+    // The panel covers the chat on small screens
+    if (window.matchMedia('(max-width: 767px)').matches) setShowSearchResults(false);
+  }, [matchingMessageIds, messageIdToIndex, virtualizer]);
+
+  // Stop flashing once the animation is over
+  useEffect(() => {
+    if (!flashMessageId) return;
+    const timer = setTimeout(() => setFlashMessageId(null), 1500);
+    return () => clearTimeout(timer);
+  }, [flashMessageId]);
+
+  // Open the calendar on the month being viewed
+  const openCalendar = useCallback(() => {
+    const startIndex = virtualizer.range?.startIndex ?? virtualItems.length - 1;
+    setCalendarGroupIndex(findDateGroupAt(startIndex));
+    setShowMenu(false);
+  }, [virtualizer, virtualItems.length, findDateGroupAt]);
+
+  // Scroll a day's date separator to the top and flash its first message
+  const jumpToDateGroup = useCallback((groupIndex: number) => {
+    const idx = dateGroupItemIndexes[groupIndex];
+    if (idx === undefined) return;
+    virtualizer.scrollToIndex(idx, { align: 'start' });
+    const firstMessage = dateGroups[groupIndex].messages[0];
+    if (firstMessage) setFlashMessageId(firstMessage.id);
+  }, [dateGroupItemIndexes, dateGroups, virtualizer]);
+
   // Sticky date: track which date is visible based on virtualizer range
   useEffect(() => {
     const container = scrollContainerRef.current;
@@ -249,7 +493,20 @@ export const ChatView: React.FC<ChatViewProps> = ({
       }
 
       if (hideTimeout) clearTimeout(hideTimeout);
-      hideTimeout = setTimeout(() => setShowStickyDate(false), 1000);
+      hideTimeout = setTimeout(() => {
+        setShowStickyDate(false);
+        if (onScrollPositionChange && range) reportScrollPosition(range.startIndex);
+      }, 1000);
+    };
+
+    const reportScrollPosition = (startIndex: number) => {
+      for (let i = startIndex; i < virtualItems.length; i++) {
+        const item = virtualItems[i];
+        if (item.type === 'bubbleGroup') {
+          onScrollPositionChange?.(item.bubbleGroup.messages[0].id);
+          break;
+        }
+      }
     };
 
     container.addEventListener('scroll', handleScroll, { passive: true });
@@ -257,7 +514,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
       container.removeEventListener('scroll', handleScroll);
       if (hideTimeout) clearTimeout(hideTimeout);
     };
-  }, [virtualizer, virtualItems]);
+  }, [virtualizer, virtualItems, onScrollPositionChange]);
 
   const totalMatches = matchingMessageIds.length;
   const hasMatches = totalMatches > 0;
@@ -310,6 +567,16 @@ export const ChatView: React.FC<ChatViewProps> = ({
           >
             <Search size={20} />
           </button>
+          {dateGroups.length > 0 && (
+            <button
+              onClick={openCalendar}
+              className="hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark"
+              aria-label="Jump to date"
+              title="Jump to date"
+            >
+              <CalendarDays size={20} />
+            </button>
+          )}
           <div className="relative" ref={menuRef}>
             <button 
               onClick={() => setShowMenu(!showMenu)}
@@ -323,7 +590,7 @@ export const ChatView: React.FC<ChatViewProps> = ({
               <div className="absolute right-0 top-full mt-1 bg-white dark:bg-whatsapp-panel-dark rounded-lg shadow-lg border border-whatsapp-border dark:border-whatsapp-border-dark py-1 min-w-[180px] z-50">
                 <button
                   onClick={() => {
-                    setShowMediaLinksDocsView(true);
+                    onOpenMediaPanel?.();
                     setShowMenu(false);
                   }}
                   className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
@@ -331,12 +598,119 @@ export const ChatView: React.FC<ChatViewProps> = ({
                   <Image size={16} />
                   Media, Links, and Docs
                 </button>
+                {chat.isGroup && (
+                  <button
+                    onClick={() => {
+                      setShowGroupInfo(true);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <Users size={16} />
+                    Group info
+                  </button>
+                )}
+                {chat.backupSources && chat.backupSources.length > 1 && (
+                  <button
+                    onClick={() => {
+                      setShowBackupSources(true);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <Layers size={16} />
+                    Backup sources
+                  </button>
+                )}
+                {systemTypes.length > 0 && (
+                  <button
+                    onClick={() => {
+                      setShowEventFilter(true);
+                      setShowMenu(false);
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <Filter size={16} />
+                    Filter events
+                  </button>
+                )}
+                {onMakeOffline && !isAvailableOffline && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      onMakeOffline();
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <CloudDownload size={16} />
+                    Make available offline
+                  </button>
+                )}
+                {onRemoveOffline && isAvailableOffline && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      onRemoveOffline();
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-whatsapp-text dark:text-whatsapp-text-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <CloudOff size={16} />
+                    Don't keep offline
+                  </button>
+                )}
+                {onRemoveChat && (
+                  <button
+                    onClick={() => {
+                      setShowMenu(false);
+                      if (confirm(`Remove "${chat.name}" from the local library?`)) onRemoveChat();
+                    }}
+                    className="w-full px-4 py-2 text-left text-sm text-red-500 hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark flex items-center gap-3"
+                  >
+                    <Trash2 size={16} />
+                    Remove from library
+                  </button>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
       
+      {/* System Event Filter Bar */}
+      {showEventFilter && systemTypes.length > 0 && (
+        <div className="bg-whatsapp-header dark:bg-whatsapp-header-dark border-b border-whatsapp-border dark:border-whatsapp-border-dark px-4 py-2 flex items-center gap-2">
+          <div className="flex-1 flex flex-wrap gap-1.5">
+            {systemTypes.map(systemType => {
+              const hidden = hiddenSystemTypes.has(systemType);
+              return (
+                <button
+                  key={systemType}
+                  onClick={() => toggleSystemType(systemType)}
+                  className={`px-2.5 py-1 rounded-full text-xs transition-colors ${
+                    hidden
+                      ? 'bg-gray-200 dark:bg-whatsapp-border-dark text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark line-through'
+                      : 'bg-whatsapp-primary/15 text-whatsapp-primary'
+                  }`}
+                  title={hidden ? 'Show these events' : 'Hide these events'}
+                >
+                  {SYSTEM_TYPE_LABELS[systemType]}
+                </button>
+              );
+            })}
+          </div>
+          <button
+            onClick={() => {
+              setShowEventFilter(false);
+              setHiddenSystemTypes(new Set());
+            }}
+            className="p-1.5 text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded"
+            title="Close filter and show all events"
+          >
+            <X size={16} />
+          </button>
+        </div>
+      )}
+
       {/* Search Results Bar */}
       {searchQuery && (
         <div className="bg-whatsapp-header dark:bg-whatsapp-header-dark border-b border-whatsapp-border dark:border-whatsapp-border-dark px-4 py-2 flex items-center justify-between">
@@ -349,6 +723,17 @@ export const ChatView: React.FC<ChatViewProps> = ({
           </div>
           {hasMatches && (
             <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowSearchResults(!showSearchResults)}
+                className={`p-1.5 rounded ${
+                  showSearchResults
+                    ? 'bg-whatsapp-primary/15 text-whatsapp-primary'
+                    : 'hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark'
+                }`}
+                title={showSearchResults ? 'Hide all matches' : 'Show all matches'}
+              >
+                <List size={18} />
+              </button>
               <button
                 onClick={goToPrevMatch}
                 className="p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded"
@@ -369,20 +754,45 @@ export const ChatView: React.FC<ChatViewProps> = ({
       )}
       
       {/* Sticky Date Pill */}
-      {showStickyDate && currentVisibleDate && (
+      {(showStickyDate || isStickyDateHovered) && currentVisibleDate && (
         <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 pointer-events-none">
-          <div className="bg-white/95 dark:bg-whatsapp-panel-dark/95 shadow-lg px-4 py-2 rounded-lg">
+          <button
+            onClick={openCalendar}
+            onMouseEnter={() => setIsStickyDateHovered(true)}
+            onMouseLeave={() => setIsStickyDateHovered(false)}
+            className="pointer-events-auto flex items-center gap-1.5 bg-white/95 dark:bg-whatsapp-panel-dark/95 shadow-lg px-4 py-2 rounded-lg hover:bg-white dark:hover:bg-whatsapp-panel-dark"
+            title="Jump to date"
+          >
             <span className="text-xs font-medium text-whatsapp-text dark:text-whatsapp-text-dark">
               {currentVisibleDate}
             </span>
-          </div>
+            <CalendarDays size={14} className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark" />
+          </button>
         </div>
       )}
       
+      {/* Older messages still parsing */}
+      {chat.isPartial && (
+        <div className="bg-whatsapp-header dark:bg-whatsapp-header-dark border-b border-whatsapp-border dark:border-whatsapp-border-dark px-4 py-2 flex items-center gap-3">
+          <div className="animate-spin rounded-full h-4 w-4 border-2 border-whatsapp-primary border-t-transparent flex-shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-xs text-whatsapp-text dark:text-whatsapp-text-dark">
+              Showing the newest messages while older ones load
+            </p>
+            {parseProgress && (
+              <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark truncate">
+                {formatParseProgress(parseProgress)}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 flex min-h-0 relative">
       {/* Messages Area - Virtualized */}
       <div
         ref={scrollContainerRef}
-        className="flex-1 overflow-y-auto overflow-x-hidden wa-scrollbar relative"
+        className="flex-1 min-w-0 overflow-y-auto overflow-x-hidden wa-scrollbar relative"
         style={backgroundStyle}
       >
         {virtualItems.length === 0 ? (
@@ -430,6 +840,37 @@ export const ChatView: React.FC<ChatViewProps> = ({
                 );
               }
 
+              if (item.type === 'gap') {
+                const { gap } = item;
+                return (
+                  <div
+                    key={virtualRow.key}
+                    data-index={virtualRow.index}
+                    ref={virtualizer.measureElement}
+                    style={{
+                      position: 'absolute',
+                      top: 0,
+                      left: 0,
+                      width: '100%',
+                      transform: `translateY(${virtualRow.start}px)`,
+                    }}
+                  >
+                    <div className="flex justify-center my-3 px-4">
+                      <div className="flex items-start gap-2 max-w-md bg-orange-50 dark:bg-orange-900/30 border border-dashed border-orange-300 dark:border-orange-700 px-3 py-1.5 rounded-lg text-xs text-orange-700 dark:text-orange-300">
+                        <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                        <div>
+                          <div className="font-medium">
+                            Possible missing history · {format(gap.from, 'MMM d, yyyy')} – {format(gap.to, 'MMM d, yyyy')}
+                            {gap.days > 0 && ` (${gap.days} ${gap.days === 1 ? 'day' : 'days'})`}
+                          </div>
+                          <div>{describeGap(gap)}</div>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                );
+              }
+
               // Bubble group
               const { bubbleGroup, isGroup: showSenderInGroup } = item;
               return (
@@ -454,7 +895,8 @@ export const ChatView: React.FC<ChatViewProps> = ({
                         isFirstInGroup={msgIdx === 0}
                         isLastInGroup={msgIdx === bubbleGroup.messages.length - 1}
                         onMediaClick={onMediaClick}
-                        isActiveMatch={currentMatchId === message.id}
+                        isActiveMatch={currentMatchId === message.id || jumpToMessageId === message.id}
+                        isFlashing={flashMessageId === message.id}
                         getMediaUrl={getMediaUrl}
                       />
                     ))}
@@ -465,19 +907,79 @@ export const ChatView: React.FC<ChatViewProps> = ({
           </div>
         )}
       </div>
+
+      {/* Timeline scrubber, for chats spanning more than a month */}
+      {scrubberData.markers.length > 1 && (
+        <TimelineScrubber
+          data={scrubberData}
+          currentIndex={virtualizer.range?.startIndex ?? 0}
+          getIndexLabel={getScrubberLabel}
+          onScrub={(itemIndex) => virtualizer.scrollToIndex(itemIndex, { align: 'start' })}
+        />
+      )}
+
+      {/* All search matches, beside the messages (over them on small screens) */}
+      {searchQuery && showSearchResults && hasMatches && (
+        <div className="absolute inset-0 z-30 md:static md:w-96 md:flex-shrink-0">
+          <ChatSearchResults
+            matches={matchingMessages}
+            query={searchQuery}
+            currentMessageId={currentMatchId}
+            onSelect={selectSearchResult}
+            onClose={() => setShowSearchResults(false)}
+          />
+        </div>
+      )}
+      </div>
       
+      {/* Jump-to-date calendar */}
+      {calendarGroupIndex !== null && (
+        <JumpToDateCalendar
+          dateGroups={dateGroups}
+          initialGroupIndex={calendarGroupIndex}
+          onSelectGroup={jumpToDateGroup}
+          onClose={() => {
+            setCalendarGroupIndex(null);
+            setIsStickyDateHovered(false);
+          }}
+        />
+      )}
+
       {/* Media, Links, and Docs View */}
-      {showMediaLinksDocsView && (
+      {showMediaPanel && (
         <div className="absolute inset-0 z-50">
           <MediaLinksDocsView
             chatName={chat.name}
             messages={chat.messages}
-            onBack={() => setShowMediaLinksDocsView(false)}
+            onBack={() => onCloseMediaPanel?.()}
             onMediaClick={onMediaClick}
             getMediaUrl={getMediaUrl}
           />
         </div>
       )}
+
+      {/* Backup Sources Panel */}
+      {showBackupSources && chat.backupSources && (
+        <div className="absolute inset-0 z-50">
+          <BackupSourcesPanel
+            chatName={chat.name}
+            sources={chat.backupSources}
+            visibleMessageCount={chat.messages.length}
+            onToggleExcluded={onToggleBackupExcluded}
+            onBack={() => setShowBackupSources(false)}
+          />
+        </div>
+      )}
+
+      {/* Group Info Panel */}
+      {showGroupInfo && chat.isGroup && (
+        <div className="absolute inset-0 z-50">
+          <GroupInfoPanel
+            chat={chat}
+            onBack={() => setShowGroupInfo(false)}
+          />
+        </div>
+      )}
     </div>
   );
 };
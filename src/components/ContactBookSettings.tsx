@@ -0,0 +1,211 @@
+/**
+ * ContactBookSettings Component
+ * Manages the contact book: import from .vcf, link extra names/numbers to a
+ * contact, remove contacts
+ */
+
+import React, { useState, useRef } from 'react';
+import { Contact as ContactIcon, Upload, Plus, X, Trash2 } from 'lucide-react';
+import {
+  getContacts,
+  saveContactBook,
+  mergeVcfIntoContacts,
+  generateContactId,
+  type Contact,
+} from '../config/contactBook';
+
+interface ContactBookSettingsProps {
+  onContactsChange?: () => void;
+}
+
+const inputClass =
+  'flex-1 min-w-0 bg-white dark:bg-whatsapp-panel-dark border border-whatsapp-border dark:border-whatsapp-border-dark rounded-lg px-2 py-1.5 text-sm text-whatsapp-text dark:text-whatsapp-text-dark placeholder:text-whatsapp-text-secondary dark:placeholder:text-whatsapp-text-secondary-dark';
+
+// Phone-like entries go to phoneNumbers, anything else is a name alias
+const looksLikePhone = (value: string) => /^[+\d][\d\s\-().]{5,}$/.test(value.trim());
+
+export const ContactBookSettings: React.FC<ContactBookSettingsProps> = ({ onContactsChange }) => {
+  const [contacts, setContacts] = useState<Contact[]>(() => getContacts());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [linkInput, setLinkInput] = useState('');
+  const [newName, setNewName] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const persist = async (next: Contact[]) => {
+    try {
+      await saveContactBook(next);
+      setContacts(getContacts());
+      onContactsChange?.();
+    } catch (err) {
+      console.error('Failed to save contacts:', err);
+      setStatus('Failed to save contacts');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const result = mergeVcfIntoContacts(contacts, text);
+    if (result.added === 0 && result.updated === 0) {
+      setStatus('No new contacts found in file');
+      return;
+    }
+    await persist(result.contacts);
+    setStatus(`Imported ${result.added} new, updated ${result.updated}`);
+  };
+
+  const handleAddContact = async () => {
+    const name = newName.trim();
+    if (!name) return;
+    await persist([...contacts, { id: generateContactId(), name, aliases: [], phoneNumbers: [] }]);
+    setNewName('');
+  };
+
+  const handleLink = async (contact: Contact) => {
+    const value = linkInput.trim();
+    if (!value) return;
+    const updated = looksLikePhone(value)
+      ? { ...contact, phoneNumbers: [...contact.phoneNumbers, value] }
+      : { ...contact, aliases: [...contact.aliases, value] };
+    await persist(contacts.map(c => (c.id === contact.id ? updated : c)));
+    setLinkInput('');
+  };
+
+  const handleUnlink = async (contact: Contact, value: string) => {
+    const updated = {
+      ...contact,
+      aliases: contact.aliases.filter(a => a !== value),
+      phoneNumbers: contact.phoneNumbers.filter(p => p !== value),
+    };
+    await persist(contacts.map(c => (c.id === contact.id ? updated : c)));
+  };
+
+  const handleRemove = async (contact: Contact) => {
+    await persist(contacts.filter(c => c.id !== contact.id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-whatsapp-text dark:text-whatsapp-text-dark flex items-center gap-2">
+        <ContactIcon className="w-4 h-4" />
+        Contacts
+      </h3>
+
+      <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-3 text-sm">
+        <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+          Names and numbers linked to a contact are shown as one person across all chats.
+        </p>
+
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddContact()}
+            placeholder="New contact name"
+            className={inputClass}
+          />
+          <button
+            onClick={handleAddContact}
+            className="p-1.5 text-whatsapp-primary hover:bg-whatsapp-primary/10 rounded-lg"
+            aria-label="Add contact"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 px-2 text-whatsapp-primary hover:bg-whatsapp-primary/10 rounded-lg text-xs"
+          >
+            <Upload className="w-4 h-4" />
+            .vcf
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".vcf,text/vcard"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+
+        {status && (
+          <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">{status}</p>
+        )}
+
+        {contacts.length > 0 && (
+          <div className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-whatsapp-border-dark">
+            {contacts.map(contact => {
+              const linked = [...contact.phoneNumbers, ...contact.aliases];
+              const isExpanded = expandedId === contact.id;
+              return (
+                <div key={contact.id} className="py-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <button
+                      onClick={() => { setExpandedId(isExpanded ? null : contact.id); setLinkInput(''); }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark truncate">{contact.name}</div>
+                      <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark truncate">
+                        {linked.length > 0 ? linked.join(', ') : 'No linked names or numbers'}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleRemove(contact)}
+                      className="p-1 text-whatsapp-text-secondary hover:text-red-500"
+                      aria-label={`Remove ${contact.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="mt-2 space-y-1">
+                      <div className="flex flex-wrap gap-1">
+                        {linked.map(value => (
+                          <span
+                            key={value}
+                            className="inline-flex items-center gap-1 bg-whatsapp-primary/10 text-whatsapp-text dark:text-whatsapp-text-dark rounded-full pl-3 pr-1 py-0.5 text-xs"
+                          >
+                            {value}
+                            <button
+                              onClick={() => handleUnlink(contact, value)}
+                              className="p-0.5 rounded-full hover:bg-black/10"
+                              aria-label={`Unlink ${value}`}
+                            >
+                              <X className="w-3 h-3" />
+                            </button>
+                          </span>
+                        ))}
+                      </div>
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={linkInput}
+                          onChange={(e) => setLinkInput(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleLink(contact)}
+                          placeholder="Link a name or phone number"
+                          className={inputClass}
+                        />
+                        <button
+                          onClick={() => handleLink(contact)}
+                          className="p-1.5 text-whatsapp-primary hover:bg-whatsapp-primary/10 rounded-lg"
+                          aria-label="Link"
+                        >
+                          <Plus className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
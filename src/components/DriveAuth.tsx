@@ -4,7 +4,7 @@
  */
 
 import React from 'react';
-import { Cloud, LogIn, LogOut, RefreshCw, AlertCircle } from 'lucide-react';
+import { Cloud, CloudDownload, LogIn, LogOut, RefreshCw, AlertCircle, WifiOff } from 'lucide-react';
 
 interface DriveAuthProps {
   isInitialized: boolean;
@@ -14,6 +14,9 @@ interface DriveAuthProps {
   onSignIn: () => void;
   onSignOut: () => void;
   onRefresh: () => void;
+  onMakeOffline?: () => void; // Opens the offline panel for all chats
+  offlineStatus?: string; // Short progress of a running offline job
+  isOffline?: boolean; // No network: chats come from the cache
 }
 
 export const DriveAuth: React.FC<DriveAuthProps> = ({
@@ -24,6 +27,9 @@ export const DriveAuth: React.FC<DriveAuthProps> = ({
   onSignIn,
   onSignOut,
   onRefresh,
+  onMakeOffline,
+  offlineStatus,
+  isOffline = false,
 }) => {
   if (!isInitialized) {
     return (
@@ -38,6 +44,23 @@ export const DriveAuth: React.FC<DriveAuthProps> = ({
     );
   }
 
+  // Offline - cached chats only, nothing to sign in to or refresh
+  if (isOffline) {
+    return (
+      <div className="px-4 py-2 border-b border-whatsapp-border dark:border-whatsapp-border-dark bg-amber-50 dark:bg-amber-900/20">
+        <div className="flex items-center gap-2">
+          <WifiOff size={18} className="text-amber-600 dark:text-amber-400" />
+          <span className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark flex-1">
+            Offline - showing cached chats
+          </span>
+        </div>
+        {error && (
+          <p className="text-xs text-red-500 mt-1">{error}</p>
+        )}
+      </div>
+    );
+  }
+
   if (error) {
     return (
       <div className="flex flex-col items-center justify-center p-8 text-center">
@@ -100,6 +123,16 @@ export const DriveAuth: React.FC<DriveAuthProps> = ({
       >
         <RefreshCw size={16} className={`text-whatsapp-text-secondary ${isLoading ? 'animate-spin' : ''}`} />
       </button>
+      {onMakeOffline && (
+        <button
+          onClick={onMakeOffline}
+          className="flex items-center gap-1 p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded transition-colors"
+          title="Make all chats available offline"
+        >
+          <CloudDownload size={16} className={offlineStatus ? 'text-whatsapp-primary animate-pulse' : 'text-whatsapp-text-secondary'} />
+          {offlineStatus && <span className="text-xs text-whatsapp-primary">{offlineStatus}</span>}
+        </button>
+      )}
       <button
         onClick={onSignOut}
         className="p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded transition-colors"
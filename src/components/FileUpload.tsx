@@ -1,31 +1,44 @@
 /**
  * FileUpload Component
  * Landing page for uploading WhatsApp backup ZIP files
- * Beautiful, drag-and-drop enabled interface
+ * Beautiful, drag-and-drop enabled interface; accepts several ZIPs, whole folders,
+ * or an unzipped chat .txt with its media files
  */
 
-import React, { useCallback, useState } from 'react';
-import { Upload, FileArchive, AlertCircle } from 'lucide-react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Upload, FileArchive, AlertCircle, FolderOpen, FileText } from 'lucide-react';
+import type { ParseProgress } from '../types';
+import { formatParseProgress } from '../utils/timelineBuilder';
+import { collectDroppedFiles } from '../utils/fileImport';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFilesSelect: (files: File[]) => void;
   isLoading: boolean;
   error: string | null;
+  progress?: ParseProgress | null;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
-  onFileSelect,
+  onFilesSelect,
   isLoading,
-  error
+  error,
+  progress
 }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory isn't in React's input props
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
   
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      onFileSelect(file);
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ''; // Allow picking the same files again
+    if (files.length > 0) {
+      onFilesSelect(files);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
   
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -37,15 +50,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     setIsDragging(false);
   }, []);
   
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     setIsDragging(false);
     
-    const file = e.dataTransfer.files[0];
-    if (file && file.name.endsWith('.zip')) {
-      onFileSelect(file);
+    const files = await collectDroppedFiles(e.dataTransfer);
+    if (files.length > 0) {
+      onFilesSelect(files);
     }
-  }, [onFileSelect]);
+  }, [onFilesSelect]);
   
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-whatsapp-primary/10 to-whatsapp-primary/5 dark:from-whatsapp-background-dark dark:to-whatsapp-panel-dark p-4">
@@ -95,21 +108,49 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             </h2>
             
             <p className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mb-6">
-              Drag and drop your .zip file here, or click to browse
+              Drag and drop .zip files, folders of exports, or an unzipped chat .txt with its media here, or click to browse
             </p>
             
-            <label className="inline-block">
+            <div className="flex flex-wrap justify-center gap-3">
+              <label className="inline-block">
+                <input
+                  type="file"
+                  accept=".zip"
+                  multiple
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={isLoading}
+                />
+                <span className="inline-flex items-center gap-2 bg-whatsapp-primary hover:bg-whatsapp-primary-dark text-white font-medium px-6 py-3 rounded-lg cursor-pointer transition-colors">
+                  <Upload size={20} />
+                  Select ZIP Files
+                </span>
+              </label>
+              <label className="inline-block">
+                <input
+                  ref={folderInputRef}
+                  type="file"
+                  onChange={handleFileChange}
+                  className="hidden"
+                  disabled={isLoading}
+                />
+                <span className="inline-flex items-center gap-2 bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600 text-whatsapp-text dark:text-whatsapp-text-dark font-medium px-6 py-3 rounded-lg cursor-pointer transition-colors">
+                  <FolderOpen size={20} />
+                  Select Folder
+                </span>
+              </label>
+            </div>
+            
+            <label className="inline-flex items-center gap-1.5 mt-4 text-sm text-whatsapp-primary hover:underline cursor-pointer">
               <input
                 type="file"
-                accept=".zip"
+                multiple
                 onChange={handleFileChange}
                 className="hidden"
                 disabled={isLoading}
               />
-              <span className="inline-flex items-center gap-2 bg-whatsapp-primary hover:bg-whatsapp-primary-dark text-white font-medium px-6 py-3 rounded-lg cursor-pointer transition-colors">
-                <Upload size={20} />
-                Select ZIP File
-              </span>
+              <FileText size={16} />
+              Already unzipped? Select the chat .txt and its media files
             </label>
           </div>
           
@@ -120,6 +161,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 <p className="text-whatsapp-text dark:text-whatsapp-text-dark font-medium">
                   Extracting and parsing your backup...
                 </p>
+                {progress && (
+                  <p className="text-sm text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
+                    {formatParseProgress(progress)}
+                  </p>
+                )}
               </div>
             </div>
           )}
@@ -152,6 +198,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             <li>4. Save the ZIP file to your device</li>
             <li>5. Upload it here to view</li>
           </ol>
+          <p className="mt-3 text-sm text-blue-800 dark:text-blue-300">
+            Exports of the same chat are merged, and imported chats stay in this browser's library.
+          </p>
           
           <div className="mt-4 pt-4 border-t border-blue-200 dark:border-blue-800">
             <p className="text-xs text-blue-700 dark:text-blue-400">
@@ -0,0 +1,124 @@
+/**
+ * GlobalSearchPanel Component
+ * Sidebar search over the messages of every chat, with hits grouped by chat
+ * (best chat first) and the matched words highlighted in each snippet
+ */
+
+import React from 'react';
+import { ArrowLeft, Search, RefreshCw, X } from 'lucide-react';
+import { format } from 'date-fns';
+import type { ChatSearchResult, SearchHit } from '../utils/searchIndexer';
+import { parseSearchQuery, isEmptyQuery, SEARCH_SYNTAX_HINT } from '../utils/searchQuery';
+import { SearchQueryChips } from './SearchQueryChips';
+import { HighlightedSnippet } from './HighlightedSnippet';
+
+interface GlobalSearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: ChatSearchResult[];
+  isSearching: boolean;
+  indexingCount: number; // Chats still being indexed
+  onSelectHit: (result: ChatSearchResult, hit: SearchHit) => void;
+  onClose: () => void;
+}
+
+export const GlobalSearchPanel: React.FC<GlobalSearchPanelProps> = ({
+  query,
+  onQueryChange,
+  results,
+  isSearching,
+  indexingCount,
+  onSelectHit,
+  onClose,
+}) => {
+  const totalHits = results.reduce((sum, result) => sum + result.totalHits, 0);
+  const hasQuery = !isEmptyQuery(parseSearchQuery(query));
+
+  return (
+    <div className="h-full flex flex-col bg-whatsapp-panel dark:bg-whatsapp-panel-dark border-r border-whatsapp-border dark:border-whatsapp-border-dark">
+      {/* Header */}
+      <div className="bg-whatsapp-header dark:bg-whatsapp-header-dark p-4 border-b border-whatsapp-border dark:border-whatsapp-border-dark">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClose}
+            className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark"
+            aria-label="Back to chats"
+          >
+            <ArrowLeft size={22} />
+          </button>
+          <h1 className="text-xl font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
+            Search messages
+          </h1>
+        </div>
+
+        <div className="mt-3 flex items-center gap-2 bg-white dark:bg-whatsapp-panel-dark border border-whatsapp-border dark:border-whatsapp-border-dark rounded-lg px-3 py-2">
+          <Search size={16} className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark" />
+          <input
+            value={query}
+            onChange={(e) => onQueryChange(e.target.value)}
+            placeholder="Search all chats (from:, has:, before:...)"
+            title={SEARCH_SYNTAX_HINT}
+            className="w-full bg-transparent outline-none text-sm text-whatsapp-text dark:text-whatsapp-text-dark placeholder:text-whatsapp-text-secondary dark:placeholder:text-whatsapp-text-secondary-dark"
+            autoFocus
+          />
+          {query && (
+            <button onClick={() => onQueryChange('')} aria-label="Clear search">
+              <X size={16} className="text-whatsapp-text-secondary" />
+            </button>
+          )}
+        </div>
+
+        <SearchQueryChips query={query} onQueryChange={onQueryChange} className="mt-2" />
+
+        <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-2 flex items-center gap-1.5">
+          {indexingCount > 0 && <RefreshCw size={12} className="animate-spin" />}
+          {indexingCount > 0
+            ? `Indexing ${indexingCount} chat${indexingCount !== 1 ? 's' : ''}...`
+            : hasQuery && !isSearching
+              ? `${totalHits.toLocaleString()} message${totalHits !== 1 ? 's' : ''} in ${results.length} chat${results.length !== 1 ? 's' : ''}`
+              : 'Cached and imported chats'}
+        </p>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto wa-scrollbar">
+        {hasQuery && !isSearching && results.length === 0 && (
+          <p className="text-sm text-center text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark p-8">
+            No messages found
+          </p>
+        )}
+
+        {results.map(result => (
+          <div key={result.chatId} className="border-b border-whatsapp-border dark:border-whatsapp-border-dark">
+            <div className="sticky top-0 flex items-center justify-between px-4 py-2 bg-gray-100 dark:bg-whatsapp-header-dark">
+              <h3 className="font-semibold text-sm text-whatsapp-text dark:text-whatsapp-text-dark truncate">
+                {result.chatName}
+              </h3>
+              <span className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark flex-shrink-0 ml-2">
+                {result.totalHits > result.hits.length
+                  ? `${result.hits.length} of ${result.totalHits.toLocaleString()}`
+                  : result.totalHits}
+              </span>
+            </div>
+
+            {result.hits.map(hit => (
+              <button
+                key={hit.messageId}
+                onClick={() => onSelectHit(result, hit)}
+                className="w-full text-left px-4 py-2 hover:bg-gray-50 dark:hover:bg-whatsapp-header-dark transition-colors"
+              >
+                <div className="flex items-center justify-between gap-2 text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mb-0.5">
+                  <span className="truncate">{hit.sender}</span>
+                  <span className="flex-shrink-0">{format(hit.timestamp, 'MMM d, yyyy')}</span>
+                </div>
+                <p className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark break-words line-clamp-2">
+                  <HighlightedSnippet snippet={hit.snippet} />
+                </p>
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,233 @@
+/**
+ * GroupInfoPanel Component
+ * Shows group membership history: current and former members, how they
+ * joined or left, and the group's subject/icon changes over time
+ */
+
+import React, { useMemo } from 'react';
+import type { Chat, GroupMember, MembershipEvent, MembershipPeriod } from '../types';
+import { ArrowLeft, Users, UserMinus, Type, ImageIcon } from 'lucide-react';
+import { format } from 'date-fns';
+import { buildMembershipHistory } from '../utils/membershipBuilder';
+import { getInitials } from '../utils/timelineBuilder';
+
+interface GroupInfoPanelProps {
+  chat: Chat;
+  onBack: () => void;
+}
+
+const DEFAULT_AVATAR_COLOR = '#00a884';
+
+function formatDate(date: Date): string {
+  return format(date, 'MMM d, yyyy');
+}
+
+/**
+ * One-line description of a membership period ("Added by Alice on Mar 3, 2023 · Left on ...")
+ */
+function describePeriod(period: MembershipPeriod): string {
+  const parts: string[] = [];
+
+  if (period.joinedAt) {
+    if (period.joinedVia === 'created') {
+      parts.push(`Created the group on ${formatDate(period.joinedAt)}`);
+    } else if (period.joinedVia === 'invite_link') {
+      parts.push(`Joined via invite link on ${formatDate(period.joinedAt)}`);
+    } else {
+      const by = period.addedBy ? ` by ${period.addedBy}` : '';
+      parts.push(`Added${by} on ${formatDate(period.joinedAt)}`);
+    }
+  } else {
+    parts.push('Member before export start');
+  }
+
+  if (period.leftAt) {
+    if (period.leftVia === 'removed') {
+      const by = period.removedBy ? ` by ${period.removedBy}` : '';
+      parts.push(`Removed${by} on ${formatDate(period.leftAt)}`);
+    } else {
+      parts.push(`Left on ${formatDate(period.leftAt)}`);
+    }
+  }
+
+  return parts.join(' · ');
+}
+
+/**
+ * Human readable text for a membership event
+ */
+function describeEvent(event: MembershipEvent): string {
+  const actor = event.actor ?? 'Someone';
+  const targets = event.targets?.join(', ') ?? '';
+
+  switch (event.systemType) {
+    case 'group_created':
+      return event.subject ? `${actor} created "${event.subject}"` : `${actor} created the group`;
+    case 'participant_added':
+      return `${actor} added ${targets}`;
+    case 'participant_removed':
+      return `${actor} removed ${targets}`;
+    case 'participant_left':
+      return `${actor} left`;
+    case 'participant_joined':
+      return `${actor} joined using an invite link`;
+    case 'subject_changed':
+      return `${actor} changed the subject to "${event.subject ?? ''}"`;
+    case 'icon_changed':
+      return `${actor} changed the group icon`;
+    default:
+      return actor;
+  }
+}
+
+export const GroupInfoPanel: React.FC<GroupInfoPanelProps> = ({ chat, onBack }) => {
+  // Chats cached before membership tracking existed are rebuilt on the fly
+  const history = useMemo(
+    () => chat.membershipHistory ?? buildMembershipHistory(chat.messages),
+    [chat.membershipHistory, chat.messages]
+  );
+
+  const colorByName = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const p of chat.participants) {
+      map.set(p.name.toLowerCase(), p.color || DEFAULT_AVATAR_COLOR);
+    }
+    return map;
+  }, [chat.participants]);
+
+  const currentMembers = history.members.filter(m => m.isCurrent);
+  const formerMembers = history.members.filter(m => !m.isCurrent);
+  const events = [...history.events].reverse(); // Newest first
+
+  const renderMember = (member: GroupMember) => {
+    const color = colorByName.get(member.name.toLowerCase()) ?? DEFAULT_AVATAR_COLOR;
+    return (
+      <div key={member.name} className="flex items-start gap-3 px-4 py-3">
+        <div
+          className="w-10 h-10 rounded-full flex items-center justify-center text-white text-sm font-medium flex-shrink-0"
+          style={{ backgroundColor: color }}
+        >
+          {getInitials(member.name)}
+        </div>
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-sm font-medium text-whatsapp-text dark:text-whatsapp-text-dark truncate">
+              {member.name}
+            </p>
+            {member.isMe && (
+              <span className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">(You)</span>
+            )}
+          </div>
+          {member.periods.map((period, idx) => (
+            <p key={idx} className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-0.5">
+              {describePeriod(period)}
+            </p>
+          ))}
+          <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-0.5">
+            {member.messageCount === 0
+              ? 'No messages'
+              : `${member.messageCount.toLocaleString()} messages · last ${formatDate(member.lastMessageAt!)}`}
+          </p>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-gray-100 dark:bg-[#111b21]">
+      {/* Header */}
+      <div className="bg-[#f0f2f5] dark:bg-[#202c33] px-4 py-3 flex items-center gap-4 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onBack}
+          className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:text-whatsapp-text dark:hover:text-whatsapp-text-dark"
+        >
+          <ArrowLeft size={24} />
+        </button>
+        <div>
+          <h2 className="text-lg font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
+            Group info
+          </h2>
+          <p className="text-sm text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+            {chat.name}
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {/* Subject history */}
+        {history.subjects.length > 0 && (
+          <section className="bg-white dark:bg-whatsapp-panel-dark rounded-lg">
+            <h3 className="px-4 pt-3 pb-2 text-sm font-medium text-whatsapp-primary flex items-center gap-2">
+              <Type size={16} />
+              Group name history
+            </h3>
+            {[...history.subjects].reverse().map((s, idx) => (
+              <div key={idx} className="px-4 py-2 border-t border-gray-100 dark:border-gray-700">
+                <p className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark">{s.subject}</p>
+                <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  {formatDate(s.timestamp)}{s.changedBy ? ` · by ${s.changedBy}` : ''}
+                </p>
+              </div>
+            ))}
+          </section>
+        )}
+
+        {/* Icon changes */}
+        {history.iconChanges.length > 0 && (
+          <section className="bg-white dark:bg-whatsapp-panel-dark rounded-lg">
+            <h3 className="px-4 pt-3 pb-2 text-sm font-medium text-whatsapp-primary flex items-center gap-2">
+              <ImageIcon size={16} />
+              Group icon changed {history.iconChanges.length} time{history.iconChanges.length === 1 ? '' : 's'}
+            </h3>
+            {[...history.iconChanges].reverse().map((c, idx) => (
+              <p key={idx} className="px-4 py-2 border-t border-gray-100 dark:border-gray-700 text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                {formatDate(c.timestamp)}{c.changedBy ? ` · by ${c.changedBy}` : ''}
+              </p>
+            ))}
+          </section>
+        )}
+
+        {/* Current members */}
+        <section className="bg-white dark:bg-whatsapp-panel-dark rounded-lg">
+          <h3 className="px-4 pt-3 pb-2 text-sm font-medium text-whatsapp-primary flex items-center gap-2">
+            <Users size={16} />
+            {currentMembers.length} member{currentMembers.length === 1 ? '' : 's'}
+          </h3>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {currentMembers.map(renderMember)}
+          </div>
+        </section>
+
+        {/* Former members */}
+        {formerMembers.length > 0 && (
+          <section className="bg-white dark:bg-whatsapp-panel-dark rounded-lg">
+            <h3 className="px-4 pt-3 pb-2 text-sm font-medium text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark flex items-center gap-2">
+              <UserMinus size={16} />
+              {formerMembers.length} former member{formerMembers.length === 1 ? '' : 's'}
+            </h3>
+            <div className="divide-y divide-gray-100 dark:divide-gray-700">
+              {formerMembers.map(renderMember)}
+            </div>
+          </section>
+        )}
+
+        {/* Event timeline */}
+        {events.length > 0 && (
+          <section className="bg-white dark:bg-whatsapp-panel-dark rounded-lg">
+            <h3 className="px-4 pt-3 pb-2 text-sm font-medium text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+              Membership activity
+            </h3>
+            {events.map(event => (
+              <div key={event.messageId} className="px-4 py-2 border-t border-gray-100 dark:border-gray-700">
+                <p className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark">{describeEvent(event)}</p>
+                <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  {format(event.timestamp, 'MMM d, yyyy HH:mm')}
+                </p>
+              </div>
+            ))}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+};
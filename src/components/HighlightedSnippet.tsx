@@ -0,0 +1,23 @@
+/**
+ * HighlightedSnippet Component
+ * Snippet text with highlighted ranges wrapped in <mark>
+ */
+
+import React from 'react';
+import type { SearchSnippet } from '../utils/searchIndexer';
+
+export const HighlightedSnippet: React.FC<{ snippet: SearchSnippet }> = ({ snippet }) => {
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  snippet.highlights.forEach(([start, end], i) => {
+    if (start > last) parts.push(snippet.text.slice(last, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    last = end;
+  });
+  if (last < snippet.text.length) parts.push(snippet.text.slice(last));
+  return <>{parts}</>;
+};
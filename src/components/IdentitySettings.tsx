@@ -0,0 +1,322 @@
+/**
+ * IdentitySettings Component
+ * Editor for the user identity profile: aliases, phone numbers and
+ * per-chat overrides, with a suggestion of which participant is you
+ */
+
+import React, { useState, useMemo } from 'react';
+import { User, Plus, X, Sparkles, Save } from 'lucide-react';
+import type { Chat } from '../types';
+import {
+  getUserIdentity,
+  saveUserIdentity,
+  suggestSelfCandidates,
+  chatOverrideKey,
+  type UserIdentityProfile,
+} from '../config/userIdentity';
+import { COUNTRY_PHONE_RULES, getLocaleCountry, toE164, FALLBACK_COUNTRY } from '../utils/phoneNumber';
+
+const COUNTRY_OPTIONS = Object.entries(COUNTRY_PHONE_RULES)
+  .map(([code, rule]) => ({ code, callingCode: rule.callingCode }))
+  .sort((a, b) => a.code.localeCompare(b.code));
+
+/**
+ * Country with this calling code, preferring the user's own ("1" is US and CA)
+ */
+function getCallingCodeCountry(callingCode: string, preferred?: string): string | null {
+  const own = preferred || getLocaleCountry();
+  if (own && COUNTRY_PHONE_RULES[own]?.callingCode === callingCode) return own;
+  return COUNTRY_OPTIONS.find(c => c.callingCode === callingCode)?.code ?? null;
+}
+
+interface IdentitySettingsProps {
+  chats: Chat[]; // Known chats, used for suggestions and per-chat overrides
+  onIdentityChange?: () => void;
+}
+
+const inputClass =
+  'flex-1 min-w-0 bg-white dark:bg-whatsapp-panel-dark border border-whatsapp-border dark:border-whatsapp-border-dark rounded-lg px-2 py-1.5 text-sm text-whatsapp-text dark:text-whatsapp-text-dark placeholder:text-whatsapp-text-secondary dark:placeholder:text-whatsapp-text-secondary-dark';
+
+const chipClass =
+  'inline-flex items-center gap-1 bg-whatsapp-primary/10 text-whatsapp-text dark:text-whatsapp-text-dark rounded-full pl-3 pr-1 py-0.5 text-xs';
+
+export const IdentitySettings: React.FC<IdentitySettingsProps> = ({ chats, onIdentityChange }) => {
+  const [profile, setProfile] = useState<UserIdentityProfile>(() => getUserIdentity());
+  const [aliasInput, setAliasInput] = useState('');
+  const [countryCode, setCountryCode] = useState('+');
+  const [phoneInput, setPhoneInput] = useState('');
+  const [overrideChat, setOverrideChat] = useState('');
+  const [overrideSender, setOverrideSender] = useState('');
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const suggestions = useMemo(() => {
+    const known = new Set(profile.aliases.map(a => a.toLowerCase()));
+    return suggestSelfCandidates(chats).filter(s => !known.has(s.name.toLowerCase()));
+  }, [chats, profile.aliases]);
+
+  // Sender names per chat, for the override picker
+  const chatSenders = useMemo(() => {
+    const map = new Map<string, string[]>();
+    for (const chat of chats) {
+      const names = new Set(chat.participants.map(p => p.name));
+      for (const msg of chat.messages) {
+        if (msg.type !== 'system' && msg.sender) names.add(msg.sender);
+      }
+      map.set(chat.name, Array.from(names).sort());
+    }
+    return map;
+  }, [chats]);
+
+  const update = (next: UserIdentityProfile) => {
+    setProfile(next);
+    setIsDirty(true);
+  };
+
+  const addAlias = (alias: string) => {
+    const trimmed = alias.trim();
+    if (!trimmed || profile.aliases.some(a => a.toLowerCase() === trimmed.toLowerCase())) return;
+    update({ ...profile, aliases: [...profile.aliases, trimmed] });
+    setAliasInput('');
+  };
+
+  const addPhone = () => {
+    const number = phoneInput.trim();
+    if (!number) return;
+    const code = countryCode.replace(/[^\d]/g, '');
+    // Read the number as national to the country code's country, which drops a
+    // trunk prefix only where it has one ("+44" + "07700 ..." but not "+39" + "06 ...")
+    const country = code ? getCallingCodeCountry(code, profile.defaultCountry) : null;
+    const full = code ? (country && toE164(number, country)) || `+${code} ${number}` : number;
+    if (profile.phoneNumbers.includes(full)) return;
+    update({ ...profile, phoneNumbers: [...profile.phoneNumbers, full] });
+    setPhoneInput('');
+  };
+
+  const addOverride = () => {
+    if (!overrideChat || !overrideSender) return;
+    update({
+      ...profile,
+      chatOverrides: { ...profile.chatOverrides, [chatOverrideKey(overrideChat)]: overrideSender },
+    });
+    setOverrideChat('');
+    setOverrideSender('');
+  };
+
+  const removeOverride = (key: string) => {
+    const chatOverrides = { ...profile.chatOverrides };
+    delete chatOverrides[key];
+    update({ ...profile, chatOverrides });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await saveUserIdentity(profile);
+      setProfile(getUserIdentity());
+      setIsDirty(false);
+      onIdentityChange?.();
+    } catch (err) {
+      console.error('Failed to save identity:', err);
+      alert('Failed to save identity. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const overrideEntries = Object.entries(profile.chatOverrides);
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-semibold text-whatsapp-text dark:text-whatsapp-text-dark flex items-center gap-2">
+        <User className="w-4 h-4" />
+        Your Identity
+      </h3>
+
+      <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-3 text-sm">
+        <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+          Messages from these names or numbers are shown as sent by you.
+        </p>
+
+        {/* Suggestions */}
+        {suggestions.length > 0 && (
+          <div className="space-y-1">
+            <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark flex items-center gap-1">
+              <Sparkles className="w-3 h-3" />
+              Is this you?
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {suggestions.map(s => (
+                <button
+                  key={s.name}
+                  onClick={() => addAlias(s.name)}
+                  className="inline-flex items-center gap-1 border border-whatsapp-primary text-whatsapp-primary rounded-full px-3 py-0.5 text-xs hover:bg-whatsapp-primary/10"
+                  title={`Appears in ${s.chatCount} chats`}
+                >
+                  <Plus className="w-3 h-3" />
+                  {s.name} ({s.chatCount} chats)
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Aliases */}
+        <div className="space-y-1">
+          <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">Names</div>
+          <div className="flex flex-wrap gap-1">
+            {profile.aliases.map(alias => (
+              <span key={alias} className={chipClass}>
+                {alias}
+                <button
+                  onClick={() => update({ ...profile, aliases: profile.aliases.filter(a => a !== alias) })}
+                  className="p-0.5 rounded-full hover:bg-black/10"
+                  aria-label={`Remove ${alias}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={aliasInput}
+              onChange={(e) => setAliasInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addAlias(aliasInput)}
+              placeholder="Name as it appears in exports"
+              className={inputClass}
+            />
+            <button
+              onClick={() => addAlias(aliasInput)}
+              className="p-1.5 text-whatsapp-primary hover:bg-whatsapp-primary/10 rounded-lg"
+              aria-label="Add name"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Phone numbers */}
+        <div className="space-y-1">
+          <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">Phone numbers</div>
+          <div className="flex flex-wrap gap-1">
+            {profile.phoneNumbers.map(phone => (
+              <span key={phone} className={chipClass}>
+                {phone}
+                <button
+                  onClick={() => update({ ...profile, phoneNumbers: profile.phoneNumbers.filter(p => p !== phone) })}
+                  className="p-0.5 rounded-full hover:bg-black/10"
+                  aria-label={`Remove ${phone}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={countryCode}
+              onChange={(e) => setCountryCode(e.target.value)}
+              placeholder="+91"
+              className={`${inputClass} max-w-[4rem] flex-none`}
+              aria-label="Country code"
+            />
+            <input
+              type="tel"
+              value={phoneInput}
+              onChange={(e) => setPhoneInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && addPhone()}
+              placeholder="Phone number"
+              className={inputClass}
+            />
+            <button
+              onClick={addPhone}
+              className="p-1.5 text-whatsapp-primary hover:bg-whatsapp-primary/10 rounded-lg"
+              aria-label="Add phone number"
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          <label className="flex items-center justify-between gap-2 text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+            Numbers without a country code are from
+            <select
+              value={profile.defaultCountry ?? ''}
+              onChange={(e) => update({ ...profile, defaultCountry: e.target.value || undefined })}
+              className={`${inputClass} max-w-[9rem] flex-none text-xs`}
+            >
+              <option value="">Auto ({getLocaleCountry() ?? FALLBACK_COUNTRY})</option>
+              {COUNTRY_OPTIONS.map(c => (
+                <option key={c.code} value={c.code}>{c.code} (+{c.callingCode})</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Per-chat overrides */}
+        <div className="space-y-1">
+          <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">Per-chat overrides</div>
+          {overrideEntries.map(([key, sender]) => (
+            <div key={key} className="flex items-center justify-between gap-2 text-xs">
+              <span className="text-whatsapp-text dark:text-whatsapp-text-dark truncate">
+                In <span className="font-medium">{chats.find(c => chatOverrideKey(c.name) === key)?.name ?? key}</span> you are <span className="font-medium">{sender}</span>
+              </span>
+              <button
+                onClick={() => removeOverride(key)}
+                className="p-0.5 rounded-full hover:bg-black/10 text-whatsapp-text-secondary"
+                aria-label="Remove override"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+          {chats.length > 0 && (
+            <div className="flex gap-2">
+              <select
+                value={overrideChat}
+                onChange={(e) => { setOverrideChat(e.target.value); setOverrideSender(''); }}
+                className={inputClass}
+                aria-label="Chat"
+              >
+                <option value="">Chat…</option>
+                {chats.map(c => (
+                  <option key={c.id} value={c.name}>{c.name}</option>
+                ))}
+              </select>
+              <select
+                value={overrideSender}
+                onChange={(e) => setOverrideSender(e.target.value)}
+                className={inputClass}
+                disabled={!overrideChat}
+                aria-label="You are"
+              >
+                <option value="">You are…</option>
+                {(chatSenders.get(overrideChat) ?? []).map(name => (
+                  <option key={name} value={name}>{name}</option>
+                ))}
+              </select>
+              <button
+                onClick={addOverride}
+                disabled={!overrideChat || !overrideSender}
+                className="p-1.5 text-whatsapp-primary hover:bg-whatsapp-primary/10 disabled:opacity-40 rounded-lg"
+                aria-label="Add override"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={!isDirty || isSaving}
+          className="w-full bg-whatsapp-primary hover:bg-whatsapp-primary-dark disabled:opacity-50 text-white px-4 py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+        >
+          <Save className="w-4 h-4" />
+          {isSaving ? 'Saving...' : 'Save Identity'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,201 @@
+/**
+ * JumpToDateCalendar Component
+ * Month calendar for jumping to a day of the chat. Days with messages are
+ * shaded by how many there were (a heatmap); other days can't be picked.
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import type { TimelineGroup } from '../types';
+
+interface JumpToDateCalendarProps {
+  dateGroups: TimelineGroup[]; // From groupMessagesByDate
+  initialGroupIndex?: number; // Month shown first (default: the last day)
+  onSelectGroup: (groupIndex: number) => void;
+  onClose: () => void;
+}
+
+interface DayInfo {
+  groupIndex: number;
+  count: number;
+}
+
+const HEAT_CLASSES = [
+  'bg-whatsapp-primary/20',
+  'bg-whatsapp-primary/40',
+  'bg-whatsapp-primary/65',
+  'bg-whatsapp-primary',
+];
+
+function getDayKey(date: Date): string {
+  return format(date, 'yyyy-MM-dd');
+}
+
+/**
+ * Heat level (0-3) of a day's message count; log scale, so one very busy
+ * day doesn't wash out the rest
+ */
+function getHeatLevel(count: number, maxCount: number): number {
+  if (maxCount <= 1) return HEAT_CLASSES.length - 1;
+  const ratio = Math.log(count) / Math.log(maxCount);
+  return Math.min(HEAT_CLASSES.length - 1, Math.floor(ratio * HEAT_CLASSES.length));
+}
+
+export const JumpToDateCalendar: React.FC<JumpToDateCalendarProps> = ({
+  dateGroups,
+  initialGroupIndex,
+  onSelectGroup,
+  onClose,
+}) => {
+  const { days, maxCount, firstMonth, lastMonth, years } = useMemo(() => {
+    const byKey = new Map<string, DayInfo>();
+    let max = 0;
+    dateGroups.forEach((group, groupIndex) => {
+      const count = group.messages.length;
+      byKey.set(getDayKey(group.date), { groupIndex, count });
+      max = Math.max(max, count);
+    });
+
+    const first = startOfMonth(dateGroups[0]?.date ?? new Date());
+    const last = startOfMonth(dateGroups[dateGroups.length - 1]?.date ?? new Date());
+    const yearList: number[] = [];
+    for (let year = first.getFullYear(); year <= last.getFullYear(); year++) yearList.push(year);
+
+    return { days: byKey, maxCount: max, firstMonth: first, lastMonth: last, years: yearList };
+  }, [dateGroups]);
+
+  const [month, setMonth] = useState(() => {
+    const group = dateGroups[initialGroupIndex ?? dateGroups.length - 1];
+    return startOfMonth(group?.date ?? new Date());
+  });
+
+  const calendarDays = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month)),
+    end: endOfWeek(endOfMonth(month)),
+  });
+
+  let monthTotal = 0;
+  for (const day of calendarDays) {
+    if (isSameMonth(day, month)) monthTotal += days.get(getDayKey(day))?.count ?? 0;
+  }
+
+  // Keep within the chat's history; a year picked from the list keeps the month if it can
+  const showMonth = (target: Date) => {
+    if (target < firstMonth) setMonth(firstMonth);
+    else if (target > lastMonth) setMonth(lastMonth);
+    else setMonth(target);
+  };
+
+  const selectGroup = (groupIndex: number) => {
+    onSelectGroup(groupIndex);
+    onClose();
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/40 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-xs bg-white dark:bg-whatsapp-panel-dark rounded-lg shadow-xl p-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Month navigation */}
+        <div className="flex items-center justify-between mb-3">
+          <button
+            onClick={() => showMonth(addMonths(month, -1))}
+            disabled={month <= firstMonth}
+            className="p-1 rounded text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark disabled:opacity-30"
+            aria-label="Previous month"
+          >
+            <ChevronLeft size={18} />
+          </button>
+          <div className="flex items-center gap-1 text-sm font-semibold text-whatsapp-text dark:text-whatsapp-text-dark">
+            <span>{format(month, 'MMMM')}</span>
+            <select
+              value={month.getFullYear()}
+              onChange={(e) => showMonth(new Date(Number(e.target.value), month.getMonth(), 1))}
+              className="bg-transparent outline-none cursor-pointer"
+              aria-label="Year"
+            >
+              {years.map(year => <option key={year} value={year}>{year}</option>)}
+            </select>
+          </div>
+          <div className="flex items-center">
+            <button
+              onClick={() => showMonth(addMonths(month, 1))}
+              disabled={month >= lastMonth}
+              className="p-1 rounded text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark disabled:opacity-30"
+              aria-label="Next month"
+            >
+              <ChevronRight size={18} />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 rounded text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark"
+              aria-label="Close calendar"
+            >
+              <X size={18} />
+            </button>
+          </div>
+        </div>
+
+        {/* Days */}
+        <div className="grid grid-cols-7 gap-1 text-center">
+          {calendarDays.slice(0, 7).map(day => (
+            <div key={day.getDay()} className="text-[11px] text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark pb-1">
+              {format(day, 'EEEEE')}
+            </div>
+          ))}
+          {calendarDays.map(day => {
+            if (!isSameMonth(day, month)) return <div key={day.getTime()} />;
+            const info = days.get(getDayKey(day));
+            return (
+              <button
+                key={day.getTime()}
+                onClick={() => info && selectGroup(info.groupIndex)}
+                disabled={!info}
+                title={info ? `${format(day, 'MMM d, yyyy')}: ${info.count} message${info.count !== 1 ? 's' : ''}` : undefined}
+                className={`h-8 rounded text-xs transition-shadow ${
+                  info
+                    ? `${HEAT_CLASSES[getHeatLevel(info.count, maxCount)]} text-whatsapp-text dark:text-whatsapp-text-dark hover:ring-2 hover:ring-whatsapp-primary`
+                    : 'text-whatsapp-text-secondary/50 dark:text-whatsapp-text-secondary-dark/50 cursor-default'
+                } ${isToday(day) ? 'font-bold' : ''}`}
+              >
+                {format(day, 'd')}
+              </button>
+            );
+          })}
+        </div>
+
+        {/* Legend and shortcuts */}
+        <div className="flex items-center justify-between mt-3 text-[11px] text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+          <span>{monthTotal.toLocaleString()} message{monthTotal !== 1 ? 's' : ''} this month</span>
+          <div className="flex items-center gap-0.5">
+            <span className="mr-1">Less</span>
+            {HEAT_CLASSES.map(heatClass => <span key={heatClass} className={`w-2.5 h-2.5 rounded-sm ${heatClass}`} />)}
+            <span className="ml-1">More</span>
+          </div>
+        </div>
+        {dateGroups.length > 0 && (
+          <div className="flex justify-between mt-3">
+            <button onClick={() => selectGroup(0)} className="text-xs text-whatsapp-primary hover:underline">
+              First message
+            </button>
+            <button onClick={() => selectGroup(dateGroups.length - 1)} className="text-xs text-whatsapp-primary hover:underline">
+              Last message
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
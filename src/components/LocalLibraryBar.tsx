@@ -0,0 +1,95 @@
+/**
+ * LocalLibraryBar Component
+ * Sidebar status bar for the local library: import more ZIPs, folders or
+ * unzipped exports, or clear everything imported so far
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { HardDrive, Upload, FolderOpen, Trash2 } from 'lucide-react';
+import type { ParseProgress } from '../types';
+import { formatParseProgress } from '../utils/timelineBuilder';
+
+interface LocalLibraryBarProps {
+  chatCount: number;
+  isLoading: boolean;
+  error: string | null;
+  progress?: ParseProgress | null;
+  mediaProgress?: { done: number; total: number } | null; // Media being saved for offline use
+  onFilesSelect: (files: File[]) => void;
+  onClear: () => void;
+}
+
+export const LocalLibraryBar: React.FC<LocalLibraryBarProps> = ({
+  chatCount,
+  isLoading,
+  error,
+  progress,
+  mediaProgress,
+  onFilesSelect,
+  onClear,
+}) => {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // webkitdirectory isn't in React's input props
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length > 0) onFilesSelect(files);
+  };
+
+  const handleClear = () => {
+    if (confirm(`Remove all ${chatCount} chats from the local library?`)) {
+      onClear();
+    }
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-whatsapp-border dark:border-whatsapp-border-dark">
+      <div className="flex items-center gap-2">
+        <HardDrive size={18} className="text-whatsapp-primary" />
+        <span className="text-sm text-whatsapp-text dark:text-whatsapp-text-dark flex-1">
+          Local library · {chatCount} {chatCount === 1 ? 'chat' : 'chats'}
+        </span>
+        <label
+          className={`p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded transition-colors cursor-pointer ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}
+          title="Import ZIPs, or a chat .txt with its media"
+        >
+          <input type="file" multiple onChange={handleFileChange} className="hidden" disabled={isLoading} />
+          <Upload size={16} className="text-whatsapp-text-secondary" />
+        </label>
+        <label
+          className={`p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded transition-colors cursor-pointer ${isLoading ? 'opacity-50 pointer-events-none' : ''}`}
+          title="Import folder"
+        >
+          <input ref={folderInputRef} type="file" onChange={handleFileChange} className="hidden" disabled={isLoading} />
+          <FolderOpen size={16} className="text-whatsapp-text-secondary" />
+        </label>
+        <button
+          onClick={handleClear}
+          disabled={isLoading || chatCount === 0}
+          className="p-1.5 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded transition-colors disabled:opacity-50"
+          title="Clear library"
+        >
+          <Trash2 size={16} className="text-whatsapp-text-secondary" />
+        </button>
+      </div>
+      {isLoading && (
+        <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
+          {progress ? formatParseProgress(progress) : 'Importing...'}
+        </p>
+      )}
+      {mediaProgress && !isLoading && (
+        <p className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
+          Saving media for offline use · {mediaProgress.done.toLocaleString()} / {mediaProgress.total.toLocaleString()}
+        </p>
+      )}
+      {error && !isLoading && (
+        <p className="text-xs text-red-500 mt-1">{error}</p>
+      )}
+    </div>
+  );
+};
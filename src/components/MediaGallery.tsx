@@ -8,6 +8,8 @@ import React, { useEffect, useCallback, useState } from 'react';
 import type { Message } from '../types';
 import { X, ChevronLeft, ChevronRight, Download } from 'lucide-react';
 import { formatMessageTimestamp } from '../utils/timelineBuilder';
+import { retainZipMediaUrl, releaseZipMediaUrl } from '../utils/zipExtractor';
+import { mediaCache } from '../services/mediaCache';
 
 interface MediaGalleryProps {
   media: Message[];
@@ -24,23 +26,62 @@ export const MediaGallery: React.FC<MediaGalleryProps> = ({
 }) => {
   const [currentIndex, setCurrentIndex] = React.useState(initialIndex);
   const [loadedUrls, setLoadedUrls] = useState<Record<number, string>>({});
+  const [zipMedia, setZipMedia] = useState<{ mediaKey: string; url: string } | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   
   const currentMedia = media[currentIndex];
+  const currentZipKey = currentMedia?.zipMediaKey;
+  
+  // Local ZIP media is held only while shown (the decoded-media LRU may revoke
+  // it once released), so paging back requests it again
+  useEffect(() => {
+    if (!currentZipKey) return;
+    let isCurrent = true;
+    let isHeld = false;
+
+    const loadZipMedia = async () => {
+      setIsLoading(true);
+      try {
+        const url = await retainZipMediaUrl(currentZipKey);
+        if (!isCurrent) {
+          releaseZipMediaUrl(currentZipKey);
+          return;
+        }
+        isHeld = true;
+        setZipMedia({ mediaKey: currentZipKey, url });
+      } catch (err) {
+        console.error('Failed to load media in gallery:', err);
+      } finally {
+        if (isCurrent) setIsLoading(false);
+      }
+    };
+
+    loadZipMedia();
+    return () => {
+      isCurrent = false;
+      if (isHeld) releaseZipMediaUrl(currentZipKey);
+    };
+  }, [currentZipKey]);
   
   // Load media URL for current index
   useEffect(() => {
     const loadCurrentMedia = async () => {
       if (!currentMedia) return;
       
-      // Already have URL (from message or already loaded)
-      if (currentMedia.mediaUrl || loadedUrls[currentIndex]) return;
+      // Already have URL (from message or already loaded), or held from the local ZIP above
+      if (currentMedia.mediaUrl || loadedUrls[currentIndex] || currentMedia.zipMediaKey) return;
       
-      // Need to load from Drive
-      if (currentMedia.driveFileId && currentMedia.mediaMimeType && getMediaUrl) {
+      // Need to read from the media cache or load from Drive
+      let request: Promise<string> | null = null;
+      if (currentMedia.mediaHash) {
+        request = mediaCache.getLocalMediaUrl(currentMedia.mediaHash);
+      } else if (currentMedia.driveFileId && currentMedia.mediaMimeType && getMediaUrl) {
+        request = getMediaUrl(currentMedia.driveFileId, currentMedia.mediaMimeType);
+      }
+      if (request) {
         setIsLoading(true);
         try {
-          const url = await getMediaUrl(currentMedia.driveFileId, currentMedia.mediaMimeType);
+          const url = await request;
           setLoadedUrls(prev => ({ ...prev, [currentIndex]: url }));
         } catch (err) {
           console.error('Failed to load media in gallery:', err);
@@ -54,7 +95,10 @@ export const MediaGallery: React.FC<MediaGalleryProps> = ({
   }, [currentIndex, currentMedia, getMediaUrl, loadedUrls]);
   
   // Get the URL to display (loaded or from message)
-  const displayUrl = loadedUrls[currentIndex] || currentMedia?.mediaUrl;
+  const displayUrl =
+    (zipMedia && zipMedia.mediaKey === currentZipKey ? zipMedia.url : undefined) ||
+    loadedUrls[currentIndex] ||
+    currentMedia?.mediaUrl;
   const canGoPrev = currentIndex > 0;
   const canGoNext = currentIndex < media.length - 1;
   
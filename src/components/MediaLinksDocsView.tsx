@@ -7,6 +7,8 @@ import React, { useState, useMemo } from 'react';
 import type { Message } from '../types';
 import { ArrowLeft, Image, Link2, FileText, Play } from 'lucide-react';
 import { format } from 'date-fns';
+import { getZipMediaUrl } from '../utils/zipExtractor';
+import { mediaCache } from '../services/mediaCache';
 
 interface MediaLinksDocsViewProps {
   chatName: string;
@@ -280,11 +282,22 @@ const DocItem: React.FC<{
   const handleClick = async () => {
     let url = loadedUrl || message.mediaUrl;
     
-    if (!url && message.driveFileId && getMediaUrl && message.mediaMimeType) {
+    // Inflate from the local ZIP, read from the media cache or load from Drive
+    let request: Promise<string> | null = null;
+    if (!url && message.zipMediaKey) {
+      request = getZipMediaUrl(message.zipMediaKey);
+    } else if (!url && message.mediaHash) {
+      request = mediaCache.getLocalMediaUrl(message.mediaHash);
+    } else if (!url && message.driveFileId && getMediaUrl && message.mediaMimeType) {
+      request = getMediaUrl(message.driveFileId, message.mediaMimeType);
+    }
+    
+    if (request) {
       setIsLoading(true);
       try {
-        url = await getMediaUrl(message.driveFileId, message.mediaMimeType);
-        setLoadedUrl(url);
+        url = await request;
+        // ZIP URLs can be revoked by the decoded-media LRU, so they're requested again on each click
+        if (!message.zipMediaKey) setLoadedUrl(url);
       } catch (err) {
         console.error('Failed to load document:', err);
         return;
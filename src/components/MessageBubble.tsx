@@ -5,8 +5,11 @@
  */
 
 import React, { useState, useEffect } from 'react';
-import type { Message } from '../types';
+import type { Message, SystemMessageType } from '../types';
 import { formatMessageTime } from '../utils/timelineBuilder';
+import { parseVcf, type VcfContact } from '../utils/vcfParser';
+import { mediaCache, getThumbnailKey } from '../services/mediaCache';
+import { useRetainedZipMedia } from '../hooks/useRetainedZipMedia';
 import { 
   FileText, 
   Download, 
@@ -19,7 +22,16 @@ import {
   Play,
   User,
   Copy,
-  Check
+  Check,
+  Ban,
+  Lock,
+  Users,
+  UserPlus,
+  UserMinus,
+  LogOut,
+  Link2,
+  PenLine,
+  Info
 } from 'lucide-react';
 
 interface MessageBubbleProps {
@@ -29,41 +41,25 @@ interface MessageBubbleProps {
   isLastInGroup?: boolean;
   onMediaClick?: (message: Message) => void;
   isActiveMatch?: boolean;
+  isFlashing?: boolean; // Briefly pulse, e.g. after jumping here from the search results
   getMediaUrl?: (driveFileId: string, mimeType: string) => Promise<string>;
 }
 
-// Parse VCF content to extract contact info
-interface VcfContact {
-  name: string;
-  phones: string[];
-  emails: string[];
-  org?: string;
-}
-
-function parseVcf(content: string): VcfContact | null {
-  try {
-    const lines = content.split(/\r?\n/);
-    const contact: VcfContact = { name: '', phones: [], emails: [] };
-    
-    for (const line of lines) {
-      if (line.startsWith('FN:')) {
-        contact.name = line.substring(3).trim();
-      } else if (line.startsWith('TEL') && line.includes(':')) {
-        const phone = line.split(':').pop()?.trim();
-        if (phone) contact.phones.push(phone);
-      } else if (line.startsWith('EMAIL') && line.includes(':')) {
-        const email = line.split(':').pop()?.trim();
-        if (email) contact.emails.push(email);
-      } else if (line.startsWith('ORG:')) {
-        contact.org = line.substring(4).trim();
-      }
-    }
-    
-    return contact.name ? contact : null;
-  } catch {
-    return null;
-  }
-}
+// Icon and colour per system event type
+const SYSTEM_EVENT_STYLES: Record<SystemMessageType, { icon: React.ElementType; className: string }> = {
+  date_separator: { icon: Info, className: 'bg-white dark:bg-whatsapp-panel-dark text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark' },
+  encryption_notice: { icon: Lock, className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200' },
+  group_created: { icon: Users, className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200' },
+  participant_added: { icon: UserPlus, className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200' },
+  participant_joined: { icon: Link2, className: 'bg-emerald-100 dark:bg-emerald-900/30 text-emerald-800 dark:text-emerald-200' },
+  participant_removed: { icon: UserMinus, className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200' },
+  participant_left: { icon: LogOut, className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200' },
+  subject_changed: { icon: PenLine, className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200' },
+  icon_changed: { icon: ImageIcon, className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200' },
+  you_blocked: { icon: Ban, className: 'bg-gray-200 dark:bg-gray-800 text-gray-700 dark:text-gray-300' },
+  you_unblocked: { icon: Ban, className: 'bg-gray-200 dark:bg-gray-800 text-gray-700 dark:text-gray-300' },
+  other: { icon: Info, className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200' },
+};
 
 export const MessageBubble = React.memo(function MessageBubble({
   message,
@@ -72,17 +68,35 @@ export const MessageBubble = React.memo(function MessageBubble({
   isLastInGroup = false,
   onMediaClick,
   isActiveMatch = false,
+  isFlashing = false,
   getMediaUrl,
 }: MessageBubbleProps) {
   const [loadedMediaUrl, setLoadedMediaUrl] = useState<string | undefined>(message.mediaUrl);
   const [isLoading, setIsLoading] = useState(false);
   const [vcfContact, setVcfContact] = useState<VcfContact | null>(null);
   const [copiedPhone, setCopiedPhone] = useState<string | null>(null);
+  const [playOnLoad, setPlayOnLoad] = useState(false);
+  const getZipMediaUrl = useRetainedZipMedia();
+
+  // Drive thumbnail links need the network; offline, use the copy kept for
+  // offline use (see offlinePrefetch), if there is one
+  const [offlineThumbnailUrl, setOfflineThumbnailUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (navigator.onLine || !message.driveFileId || !message.thumbnailUrl) return;
+
+    let cancelled = false;
+    mediaCache.getCachedUrl(getThumbnailKey(message.driveFileId)).then(url => {
+      if (!cancelled) setOfflineThumbnailUrl(url);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [message.driveFileId, message.thumbnailUrl]);
 
   // Thumbnail-only display strategy (NO auto-loading!)
   // Thumbnails are ~50-100 KB and load instantly
   // Full images only load when user opens MediaGallery
-  const thumbnailUrl = message.thumbnailUrl;
+  const thumbnailUrl = offlineThumbnailUrl || message.thumbnailUrl;
   const fullMediaUrl = loadedMediaUrl || message.mediaUrl;
 
   // Display logic:
@@ -109,15 +123,49 @@ export const MessageBubble = React.memo(function MessageBubble({
     }
   }, [isVcf, fullMediaUrl, vcfContact]);
   
+  // Local ZIP images and contact cards are inflated (or read back from the
+  // media cache) as soon as the bubble renders (no network cost); video,
+  // audio and other documents wait for a tap
+  useEffect(() => {
+    if (!(message.zipMediaKey || message.mediaHash) || !(message.type === 'image' || isVcf)) return;
+
+    let cancelled = false;
+    const request = message.zipMediaKey
+      ? getZipMediaUrl(message.zipMediaKey)
+      : mediaCache.getLocalMediaUrl(message.mediaHash!);
+    request
+      .then(url => {
+        if (!cancelled) setLoadedMediaUrl(url);
+      })
+      .catch(err => console.error('Failed to load media:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [message.zipMediaKey, message.mediaHash, message.type, isVcf, getZipMediaUrl]);
+  
+  // Where media not yet loaded comes from: the local ZIP, the media cache or Google Drive
+  const requestMediaUrl = (): Promise<string> | null => {
+    if (message.zipMediaKey) return getZipMediaUrl(message.zipMediaKey);
+    if (message.mediaHash) return mediaCache.getLocalMediaUrl(message.mediaHash);
+    if (message.driveFileId && getMediaUrl && message.mediaMimeType) {
+      return getMediaUrl(message.driveFileId, message.mediaMimeType);
+    }
+    return null;
+  };
+  
   // Load media URL on-demand (for documents, etc.)
   const loadMedia = async () => {
-    if (loadedMediaUrl || isLoading || !message.driveFileId || !getMediaUrl || !message.mediaMimeType) {
+    if (loadedMediaUrl || isLoading) {
+      return loadedMediaUrl;
+    }
+    const request = requestMediaUrl();
+    if (!request) {
       return loadedMediaUrl;
     }
     
     setIsLoading(true);
     try {
-      const url = await getMediaUrl(message.driveFileId, message.mediaMimeType);
+      const url = await request;
       setLoadedMediaUrl(url);
       return url;
     } catch (err) {
@@ -134,10 +182,12 @@ export const MessageBubble = React.memo(function MessageBubble({
   
   // System messages have special styling
   if (isSystem) {
+    const { icon: EventIcon, className } = SYSTEM_EVENT_STYLES[message.systemType || 'other'];
     return (
-      <div className="flex justify-center my-2">
-        <div className="bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-200 px-3 py-1.5 rounded-lg text-xs max-w-md text-center">
-          {message.content}
+      <div className="flex justify-center my-2" id={`msg-${message.id}`} data-msg-id={message.id}>
+        <div className={`${className} px-3 py-1.5 rounded-lg text-xs max-w-md text-center flex items-center gap-1.5`}>
+          <EventIcon className="w-3.5 h-3.5 flex-shrink-0" />
+          <span>{message.content}</span>
         </div>
       </div>
     );
@@ -160,6 +210,7 @@ export const MessageBubble = React.memo(function MessageBubble({
           ${!isFirstInGroup && !isLastInGroup ? 'rounded-lg' : ''}
           ${emojiOnly ? '' : 'shadow-sm'}
           ${isActiveMatch ? 'ring-2 ring-yellow-300/80 ring-offset-2 ring-offset-transparent' : ''}
+          ${isFlashing ? 'animate-flash' : ''}
           ${isOutgoing 
             ? 'bg-whatsapp-outgoing dark:bg-whatsapp-outgoing-dark text-white' 
             : 'bg-whatsapp-incoming dark:bg-whatsapp-incoming-dark text-white'
@@ -249,7 +300,13 @@ export const MessageBubble = React.memo(function MessageBubble({
         )}
 
         {message.type === 'video' && !fullMediaUrl && (
-          <div className="p-3 flex items-center gap-3">
+          <div
+            className="p-3 flex items-center gap-3 cursor-pointer hover:bg-black/10"
+            onClick={async () => {
+              const url = await loadMedia();
+              if (url) onMediaClick?.({ ...message, mediaUrl: url });
+            }}
+          >
             <div className="w-10 h-10 rounded-full bg-black/15 flex items-center justify-center">
               {isLoading ? (
                 <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" />
@@ -271,11 +328,32 @@ export const MessageBubble = React.memo(function MessageBubble({
               src={fullMediaUrl}
               className="flex-1 max-w-xs"
               preload="metadata"
+              autoPlay={playOnLoad}
             >
               Your browser does not support audio playback.
             </audio>
           </div>
         )}
+
+        {message.type === 'audio' && !fullMediaUrl && (
+          <div
+            className="p-3 flex items-center gap-3 cursor-pointer hover:bg-black/10"
+            onClick={async () => {
+              if (await loadMedia()) setPlayOnLoad(true);
+            }}
+          >
+            <div className="w-10 h-10 rounded-full bg-black/15 flex items-center justify-center">
+              {isLoading ? (
+                <div className="animate-spin w-5 h-5 border-2 border-white border-t-transparent rounded-full" />
+              ) : (
+                <Play className="w-5 h-5 text-white" fill="white" />
+              )}
+            </div>
+            <div className="text-sm font-semibold opacity-95">
+              {isLoading ? 'Loading audio...' : 'Audio'}
+            </div>
+          </div>
+        )}
         
         {/* VCF Contact Card - Inline Display */}
         {message.type === 'document' && isVcf && (
@@ -411,9 +489,16 @@ export const MessageBubble = React.memo(function MessageBubble({
         {/* Text content */}
         {message.content && message.type !== 'call' && (
           <div className={`px-2 ${message.type !== 'text' ? 'pt-1' : 'pt-1.5'} pb-1.5 ${message.isEdited ? 'pr-24' : 'pr-16'} overflow-hidden`}>
-            <div className={`${emojiOnly ? 'text-5xl leading-none' : 'text-sm'} whitespace-pre-wrap break-words overflow-wrap-anywhere text-white`} style={{ wordBreak: 'break-word' }}>
-              {parseTextWithLinks(message.content)}
-            </div>
+            {message.isDeleted ? (
+              <div className="text-sm italic opacity-70 flex items-center gap-1.5 text-white">
+                <Ban className="w-3.5 h-3.5 flex-shrink-0" />
+                {message.content}
+              </div>
+            ) : (
+              <div className={`${emojiOnly ? 'text-5xl leading-none' : 'text-sm'} whitespace-pre-wrap break-words overflow-wrap-anywhere text-white`} style={{ wordBreak: 'break-word' }}>
+                {parseTextWithLinks(message.content)}
+              </div>
+            )}
           </div>
         )}
         
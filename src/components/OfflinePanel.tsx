@@ -0,0 +1,268 @@
+/**
+ * OfflinePanel Component
+ * Makes Drive chats available offline: pick what to keep, see the download
+ * estimate, then follow the progress (with pause/resume) of the background job
+ */
+
+import React, { useState, useEffect } from 'react';
+import { CloudDownload, X, Pause, Play, Square, AlertTriangle, CheckCircle } from 'lucide-react';
+import {
+  offlinePrefetch,
+  THUMBNAIL_SIZE_ESTIMATE,
+  type OfflineEstimate,
+  type OfflineMediaMode,
+} from '../services/offlinePrefetch';
+import { formatBytes } from '../services/storage';
+import { useOfflinePrefetch } from '../hooks/useOfflinePrefetch';
+import type { ChatFolder } from '../services/driveService';
+
+interface OfflinePanelProps {
+  chatFolders: ChatFolder[];
+  title: string; // What is being made available, e.g. a chat name or "All chats"
+  ensureToken: () => Promise<boolean>;
+  onClose: () => void;
+}
+
+const MEDIA_MODES: Array<{ mode: OfflineMediaMode; label: string; description: string }> = [
+  { mode: 'none', label: 'Messages only', description: 'Text of every message; media shows as placeholders' },
+  { mode: 'thumbnails', label: 'Messages and image previews', description: 'Small previews of photos, no videos or documents' },
+  { mode: 'full', label: 'Messages and all media', description: 'Photos, videos, voice notes and documents' },
+];
+
+function getDownloadBytes(estimate: OfflineEstimate, mode: OfflineMediaMode): number {
+  if (mode === 'thumbnails') return estimate.textBytes + estimate.imageCount * THUMBNAIL_SIZE_ESTIMATE;
+  if (mode === 'full') return estimate.textBytes + estimate.mediaBytes;
+  return estimate.textBytes;
+}
+
+const ProgressBar: React.FC<{ value: number; max: number }> = ({ value, max }) => (
+  <div className="h-1.5 bg-gray-200 dark:bg-whatsapp-border-dark rounded-full overflow-hidden">
+    <div
+      className="h-full bg-whatsapp-primary transition-all"
+      style={{ width: `${max > 0 ? Math.min(100, (value / max) * 100) : 0}%` }}
+    />
+  </div>
+);
+
+export const OfflinePanel: React.FC<OfflinePanelProps> = ({ chatFolders, title, ensureToken, onClose }) => {
+  const { progress, isActive } = useOfflinePrefetch();
+  const [mediaMode, setMediaMode] = useState<OfflineMediaMode>('thumbnails');
+  const [estimate, setEstimate] = useState<OfflineEstimate | null>(null);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  const showsJob = progress.status !== 'idle';
+
+  // Estimate only when setting up a new job
+  useEffect(() => {
+    if (showsJob) return;
+    let cancelled = false;
+
+    ensureToken()
+      .then(hasToken => {
+        if (!hasToken) throw new Error('Session expired. Please sign in again.');
+        return offlinePrefetch.estimate(chatFolders);
+      })
+      .then(result => {
+        if (!cancelled) setEstimate(result);
+      })
+      .catch(err => {
+        if (!cancelled) setEstimateError(err instanceof Error ? err.message : 'Failed to estimate');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chatFolders, ensureToken, showsJob]);
+
+  const handleStart = () => {
+    offlinePrefetch.start(chatFolders, mediaMode, ensureToken);
+  };
+
+  // A finished job is forgotten once its result was seen
+  const handleClose = () => {
+    if (!isActive) offlinePrefetch.reset();
+    onClose();
+  };
+
+  const downloadBytes = estimate ? getDownloadBytes(estimate, mediaMode) : 0;
+  const exceedsFreeSpace = estimate?.freeBytes !== undefined && downloadBytes > estimate.freeBytes;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
+      <div className="bg-white dark:bg-whatsapp-panel-dark rounded-lg shadow-xl w-full max-w-md mx-4">
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 border-b border-whatsapp-border dark:border-whatsapp-border-dark">
+          <div className="flex items-center gap-2 min-w-0">
+            <CloudDownload size={20} className="text-whatsapp-primary flex-shrink-0" />
+            <h3 className="font-semibold text-whatsapp-text dark:text-whatsapp-text-dark truncate">
+              Make available offline
+            </h3>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-gray-200 dark:hover:bg-whatsapp-border-dark rounded"
+            title={isActive ? 'Hide (keeps running)' : 'Close'}
+          >
+            <X size={20} className="text-whatsapp-text-secondary" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          {showsJob ? (
+            <>
+              {/* Job progress */}
+              <div className="space-y-1.5">
+                <div className="flex justify-between text-whatsapp-text dark:text-whatsapp-text-dark">
+                  <span>Chats</span>
+                  <span>{progress.chatsDone} / {progress.chatCount}</span>
+                </div>
+                <ProgressBar value={progress.chatsDone} max={progress.chatCount} />
+              </div>
+
+              {progress.currentChat && (
+                <div className="space-y-1.5">
+                  <div className="flex justify-between gap-2 text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                    <span className="truncate">{progress.currentChat}</span>
+                    {progress.mediaMode !== 'none' && (
+                      <span className="flex-shrink-0">{progress.chatMediaDone} / {progress.chatMediaCount} media</span>
+                    )}
+                  </div>
+                  {progress.mediaMode !== 'none' && (
+                    <ProgressBar value={progress.chatMediaDone} max={progress.chatMediaCount} />
+                  )}
+                </div>
+              )}
+
+              {progress.mediaMode !== 'none' && (
+                <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  {formatBytes(progress.bytesDone)} of media downloaded
+                  {progress.failedCount > 0 && `, ${progress.failedCount} failed`}
+                </div>
+              )}
+
+              {progress.storageFull && (
+                <div className="flex items-start gap-2 text-amber-600 dark:text-amber-400">
+                  <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                  Browser storage is full; the remaining media was skipped.
+                </div>
+              )}
+              {progress.status === 'error' && (
+                <div className="flex items-start gap-2 text-red-500">
+                  <AlertTriangle size={16} className="flex-shrink-0 mt-0.5" />
+                  {progress.error}
+                </div>
+              )}
+              {progress.status === 'done' && (
+                <div className="flex items-center gap-2 text-whatsapp-primary">
+                  <CheckCircle size={16} />
+                  {progress.chatsDone === 1 ? '1 chat is' : `${progress.chatsDone} chats are`} available offline
+                </div>
+              )}
+              {progress.status === 'cancelled' && (
+                <div className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  Stopped. Chats finished so far stay available offline.
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {isActive ? (
+                  <>
+                    <button
+                      onClick={() => (progress.status === 'paused' ? offlinePrefetch.resume() : offlinePrefetch.pause())}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-200 dark:bg-whatsapp-border-dark text-whatsapp-text dark:text-whatsapp-text-dark"
+                    >
+                      {progress.status === 'paused' ? <Play size={16} /> : <Pause size={16} />}
+                      {progress.status === 'paused' ? 'Resume' : 'Pause'}
+                    </button>
+                    <button
+                      onClick={() => offlinePrefetch.cancel()}
+                      className="flex items-center gap-2 px-3 py-2 rounded-lg text-red-500 hover:bg-gray-100 dark:hover:bg-whatsapp-border-dark"
+                    >
+                      <Square size={16} />
+                      Stop
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={handleClose}
+                    className="px-4 py-2 rounded-lg bg-whatsapp-primary hover:bg-whatsapp-primary-dark text-white"
+                  >
+                    Done
+                  </button>
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              {/* Setup: what to keep and how much that is */}
+              <p className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                Download <strong className="text-whatsapp-text dark:text-whatsapp-text-dark">{title}</strong> so{' '}
+                {chatFolders.length === 1 ? 'it opens' : 'they open'} without a connection. Kept data is never
+                evicted from the cache.
+              </p>
+
+              <div className="space-y-2">
+                {MEDIA_MODES.map(({ mode, label, description }) => (
+                  <label key={mode} className="flex items-start gap-3 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="offline-media-mode"
+                      checked={mediaMode === mode}
+                      onChange={() => setMediaMode(mode)}
+                      className="mt-1 accent-whatsapp-primary"
+                    />
+                    <span className="flex-1">
+                      <span className="flex justify-between gap-2 text-whatsapp-text dark:text-whatsapp-text-dark">
+                        {label}
+                        {estimate && (
+                          <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                            ~{formatBytes(getDownloadBytes(estimate, mode))}
+                          </span>
+                        )}
+                      </span>
+                      <span className="block text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                        {description}
+                      </span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+
+              <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                {estimateError ? (
+                  <span className="text-red-500">{estimateError}</span>
+                ) : estimate ? (
+                  <>
+                    {estimate.chatCount === 1 ? '1 chat' : `${estimate.chatCount} chats`}
+                    {estimate.cachedChatCount > 0 && ` (${estimate.cachedChatCount} already cached)`}
+                    {', '}{estimate.mediaCount.toLocaleString()} media files.
+                    {estimate.freeBytes !== undefined && ` ${formatBytes(estimate.freeBytes)} free in browser storage.`}
+                  </>
+                ) : (
+                  'Estimating download size...'
+                )}
+              </div>
+
+              {exceedsFreeSpace && (
+                <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+                  <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                  This is more than the free browser storage; media stops downloading when it is full.
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={handleStart}
+                  disabled={!estimate}
+                  className="flex items-center gap-2 px-4 py-2 rounded-lg bg-whatsapp-primary hover:bg-whatsapp-primary-dark text-white disabled:opacity-50"
+                >
+                  <CloudDownload size={16} />
+                  Start
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
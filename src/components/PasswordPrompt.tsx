@@ -9,6 +9,7 @@ import { Lock, Eye, EyeOff, X } from 'lucide-react';
 interface PasswordPromptProps {
   isOpen: boolean;
   onClose: () => void;
+  onCancel?: () => void; // Closed without unlocking (after onClose)
   onSubmit: (password: string) => Promise<{ success: boolean; error?: string }>;
   chatName?: string;
 }
@@ -16,6 +17,7 @@ interface PasswordPromptProps {
 export const PasswordPrompt: React.FC<PasswordPromptProps> = ({
   isOpen,
   onClose,
+  onCancel,
   onSubmit,
   chatName,
 }) => {
@@ -52,6 +54,7 @@ export const PasswordPrompt: React.FC<PasswordPromptProps> = ({
     setPassword('');
     setError(null);
     onClose();
+    onCancel?.();
   };
 
   return (
@@ -0,0 +1,45 @@
+/**
+ * SearchQueryChips Component
+ * Shows the operators of a search query (from:, has:, /regex/, -word ...)
+ * as chips under the search input; removing a chip removes it from the query
+ */
+
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { parseSearchQuery, isChipClause, removeClause } from '../utils/searchQuery';
+
+interface SearchQueryChipsProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  className?: string;
+}
+
+export const SearchQueryChips: React.FC<SearchQueryChipsProps> = ({ query, onQueryChange, className = '' }) => {
+  const chips = useMemo(() => parseSearchQuery(query).clauses.filter(isChipClause), [query]);
+  if (chips.length === 0) return null;
+
+  return (
+    <div className={`flex flex-wrap gap-1.5 ${className}`}>
+      {chips.map(clause => (
+        <span
+          key={`${clause.start}:${clause.raw}`}
+          title={clause.error}
+          className={`inline-flex items-center gap-1 max-w-full rounded-full pl-2.5 pr-1 py-0.5 text-xs font-mono ${
+            clause.error
+              ? 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300'
+              : 'bg-whatsapp-primary/15 text-whatsapp-text dark:text-whatsapp-text-dark'
+          }`}
+        >
+          <span className="truncate">{clause.raw}</span>
+          <button
+            onClick={() => onQueryChange(removeClause(query, clause))}
+            className="p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10"
+            aria-label={`Remove ${clause.raw}`}
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+};
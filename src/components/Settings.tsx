@@ -1,47 +1,56 @@
 /**
  * Settings Component
- * Shows app version, cache status, and provides cache management
+ * Shows app version, user identity, contacts, cache status, and provides cache management
  */
 
-import React, { useState, useEffect } from 'react';
-import { X, Trash2, Info, RefreshCw, Database } from 'lucide-react';
+import React, { useState, useEffect, useMemo } from 'react';
+import { X, Trash2, Info, RefreshCw, Database, HardDrive } from 'lucide-react';
 import { chatCache } from '../services/chatCache';
 import { mediaCache } from '../services/mediaCache';
+import { offlinePrefetch } from '../services/offlinePrefetch';
+import { searchIndex } from '../services/searchIndex';
+import { storage, formatBytes, type StorageStats } from '../services/storage';
+import { isKeepingLocalMedia, saveLocalMediaSetting } from '../config/localMedia';
+import { IdentitySettings } from './IdentitySettings';
+import { ContactBookSettings } from './ContactBookSettings';
+import type { Chat } from '../types';
 
 interface SettingsProps {
   isOpen: boolean;
   onClose: () => void;
+  localChats?: Chat[]; // Uploaded chats aren't in chatCache but count for identity suggestions
+  onIdentityChange?: () => void;
 }
 
 interface CacheStats {
-  chats: {
-    count: number;
-    messages: number;
-    size: string;
-  };
-  media: {
-    count: number;
-    size: string;
-  };
+  storage: StorageStats | null;
   serviceWorker: {
     count: number;
     items: number;
   };
 }
 
-export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
+const NO_CHATS: Chat[] = [];
+
+export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose, localChats = NO_CHATS, onIdentityChange }) => {
   const [appVersion, setAppVersion] = useState<string>('Loading...');
   const [cacheStats, setCacheStats] = useState<CacheStats>({
-    chats: { count: 0, messages: 0, size: '0 KB' },
-    media: { count: 0, size: '0 KB' },
+    storage: null,
     serviceWorker: { count: 0, items: 0 },
   });
   const [isClearing, setIsClearing] = useState(false);
+  const [cachedChats, setCachedChats] = useState<Chat[]>([]);
+  const [keepLocalMedia, setKeepLocalMedia] = useState(isKeepingLocalMedia);
+  const knownChats = useMemo(() => [...cachedChats, ...localChats], [cachedChats, localChats]);
 
   useEffect(() => {
     if (isOpen) {
       loadVersionInfo();
       loadCacheInfo();
+      setKeepLocalMedia(isKeepingLocalMedia());
+      chatCache.getAllChats()
+        .then(setCachedChats)
+        .catch(err => console.error('Failed to load cached chats:', err));
     }
   }, [isOpen]);
 
@@ -83,11 +92,8 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
 
   const loadCacheInfo = async () => {
     try {
-      // Get chat cache stats
-      const chatStats = await chatCache.getStats();
-
-      // Get media cache stats
-      const mediaStats = await mediaCache.getStats();
+      // Get IndexedDB storage stats (chats, library, media)
+      const storageStats = await storage.getStats();
 
       // Get service worker cache stats
       let swCacheCount = 0;
@@ -104,15 +110,7 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
       }
 
       setCacheStats({
-        chats: {
-          count: chatStats.chatCount,
-          messages: chatStats.messageCount,
-          size: chatStats.estimatedSize,
-        },
-        media: {
-          count: mediaStats.count,
-          size: mediaStats.size,
-        },
+        storage: storageStats,
         serviceWorker: {
           count: swCacheCount,
           items: swItemCount,
@@ -131,11 +129,12 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
     setIsClearing(true);
 
     try {
-      // Clear IndexedDB caches
-      await Promise.all([
-        chatCache.clearAll(),
-        mediaCache.clearAll(),
-      ]);
+      // Clear cached chats (and their search indexes) and media, including
+      // chats kept offline (the local library and settings stay)
+      await storage.clearCache();
+      await offlinePrefetch.forgetAll();
+      await searchIndex.removeSource('drive');
+      mediaCache.releaseAll();
 
       // Clear service worker caches
       if ('caches' in window) {
@@ -163,6 +162,12 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
 
   if (!isOpen) return null;
 
+  const emptyStats = { count: 0, bytes: 0, items: 0 };
+  const chatStats = cacheStats.storage?.categories.chat ?? emptyStats;
+  const libraryStats = cacheStats.storage?.categories.library ?? emptyStats;
+  const mediaStats = cacheStats.storage?.categories.media ?? emptyStats;
+  const thumbnailStats = cacheStats.storage?.categories.thumbnail ?? emptyStats;
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white dark:bg-whatsapp-panel-dark rounded-lg shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -198,6 +203,43 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
             </div>
           </div>
 
+          {/* User Identity */}
+          <IdentitySettings
+            chats={knownChats}
+            onIdentityChange={onIdentityChange}
+          />
+
+          {/* Contact Book */}
+          <ContactBookSettings onContactsChange={onIdentityChange} />
+
+          {/* Local Imports */}
+          <div className="space-y-2">
+            <h3 className="text-sm font-semibold text-whatsapp-text dark:text-whatsapp-text-dark flex items-center gap-2">
+              <HardDrive className="w-4 h-4" />
+              Local Imports
+            </h3>
+            <label className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 flex items-start gap-3 text-sm cursor-pointer">
+              <input
+                type="checkbox"
+                checked={keepLocalMedia}
+                onChange={(e) => {
+                  setKeepLocalMedia(e.target.checked);
+                  saveLocalMediaSetting(e.target.checked)
+                    .catch(err => console.error('Failed to save local media setting:', err));
+                }}
+                className="mt-0.5 accent-whatsapp-primary"
+              />
+              <span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark block">
+                  Keep media from imported ZIPs
+                </span>
+                <span className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">
+                  Copies images, videos and documents into the media cache during import, so library chats show them after a reload. Applies to new imports; stops when browser storage is full.
+                </span>
+              </span>
+            </label>
+          </div>
+
           {/* Cache Info */}
           <div className="space-y-2">
             <h3 className="text-sm font-semibold text-whatsapp-text dark:text-whatsapp-text-dark flex items-center gap-2">
@@ -205,29 +247,48 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
               Cache Status
             </h3>
 
-            {/* Chat Cache */}
+            {/* Drive Chats */}
             <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-2 text-sm">
               <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark mb-1">
                 Chat Text
-                <span className="text-xs font-normal text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark ml-2">(.txt files)</span>
+                <span className="text-xs font-normal text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark ml-2">(Drive chats)</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Chats:</span>
-                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{cacheStats.chats.count}</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{chatStats.count}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Messages:</span>
-                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{cacheStats.chats.messages.toLocaleString()}</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{chatStats.items.toLocaleString()}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Text Size:</span>
-                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{cacheStats.chats.size}</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(chatStats.bytes)}</span>
               </div>
               <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
                 Message text only, no media
               </div>
             </div>
 
+            {/* Local Library */}
+            <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-2 text-sm">
+              <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark mb-1">
+                Local Library
+                <span className="text-xs font-normal text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark ml-2">(imported exports)</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Records:</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{libraryStats.count}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Text Size:</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(libraryStats.bytes)}</span>
+              </div>
+              <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
+                Never evicted; not removed by clearing the cache
+              </div>
+            </div>
+
             {/* Media Cache */}
             <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-2 text-sm">
               <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark mb-1">
@@ -236,14 +297,40 @@ export const Settings: React.FC<SettingsProps> = ({ isOpen, onClose }) => {
               </div>
               <div className="flex justify-between">
                 <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Cached Files:</span>
-                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{cacheStats.media.count}</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{mediaStats.count + thumbnailStats.count}</span>
               </div>
               <div className="flex justify-between">
                 <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Media Size:</span>
-                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{cacheStats.media.size}</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(mediaStats.bytes)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Thumbnails:</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(thumbnailStats.bytes)}</span>
+              </div>
+            </div>
+
+            {/* Totals */}
+            <div className="bg-gray-100 dark:bg-whatsapp-background-dark rounded-lg p-3 space-y-2 text-sm">
+              <div className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark mb-1">Total</div>
+              <div className="flex justify-between">
+                <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Cache:</span>
+                <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(cacheStats.storage?.totalBytes ?? 0)} / {formatBytes(cacheStats.storage?.budgetBytes ?? 0)}</span>
               </div>
+              {!!cacheStats.storage?.pinnedBytes && (
+                <div className="flex justify-between">
+                  <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Kept offline:</span>
+                  <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(cacheStats.storage.pinnedBytes)}</span>
+                </div>
+              )}
+              {cacheStats.storage?.quota !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark">Browser Storage:</span>
+                  <span className="font-medium text-whatsapp-text dark:text-whatsapp-text-dark">{formatBytes(cacheStats.storage.usage ?? 0)} / {formatBytes(cacheStats.storage.quota)}</span>
+                </div>
+              )}
               <div className="text-xs text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark mt-1">
-                LRU cache, max ~2GB, auto-evicts old files
+                Least recently used chats and media are evicted when the cache or browser storage fills up
+                {cacheStats.storage?.persisted === false && '; the browser may also clear it under storage pressure'}
               </div>
             </div>
 
@@ -0,0 +1,139 @@
+/**
+ * TimelineScrubber Component
+ * Vertical bar beside the messages: year labels and month ticks along the
+ * chat's history, shaded by message volume, that can be dragged to jump
+ * through time (like the scrubber in photo apps). Positions are virtual list
+ * item indexes, so it moves in step with the scroll position.
+ */
+
+import React, { useRef, useState } from 'react';
+
+export interface ScrubberMarker {
+  itemIndex: number; // First virtual list item of the month
+  label: string; // "2023" for the first month of a year, otherwise "Mar"
+  isYearStart: boolean;
+}
+
+export interface ScrubberData {
+  itemCount: number;
+  markers: ScrubberMarker[];
+  density: number[]; // Per equal slice of the items, 0-1 (messages per day, relative to the busiest slice)
+}
+
+interface TimelineScrubberProps {
+  data: ScrubberData;
+  currentIndex: number; // First visible item
+  getIndexLabel: (itemIndex: number) => string; // Shown while dragging
+  onScrub: (itemIndex: number) => void;
+}
+
+// Year labels closer than this (fraction of the height) to the previous one are skipped
+const MIN_LABEL_GAP = 0.04;
+
+export const TimelineScrubber: React.FC<TimelineScrubberProps> = ({ data, currentIndex, getIndexLabel, onScrub }) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const frameRef = useRef<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const { itemCount, markers, density } = data;
+  const lastIndex = Math.max(1, itemCount - 1);
+
+  const indexAt = (clientY: number): number => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    const fraction = Math.min(1, Math.max(0, (clientY - rect.top) / rect.height));
+    return Math.round(fraction * (itemCount - 1));
+  };
+
+  // One scroll per frame while dragging
+  const scrubTo = (clientY: number) => {
+    const itemIndex = indexAt(clientY);
+    setDragIndex(itemIndex);
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      onScrub(itemIndex);
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    scrubTo(e.clientY);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragIndex !== null) scrubTo(e.clientY);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    setDragIndex(null);
+  };
+
+  const thumbFraction = (dragIndex ?? currentIndex) / lastIndex;
+
+  const yearLabels: ScrubberMarker[] = [];
+  for (const marker of markers) {
+    if (!marker.isYearStart) continue;
+    const previous = yearLabels[yearLabels.length - 1];
+    if (previous && (marker.itemIndex - previous.itemIndex) / lastIndex < MIN_LABEL_GAP) continue;
+    yearLabels.push(marker);
+  }
+
+  return (
+    <div
+      ref={trackRef}
+      className="relative w-8 sm:w-12 flex-shrink-0 select-none touch-none cursor-ns-resize bg-whatsapp-panel/80 dark:bg-whatsapp-panel-dark/80 border-l border-whatsapp-border dark:border-whatsapp-border-dark"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      role="slider"
+      aria-label="Scroll through time"
+      aria-valuemin={0}
+      aria-valuemax={itemCount - 1}
+      aria-valuenow={dragIndex ?? currentIndex}
+      aria-valuetext={getIndexLabel(dragIndex ?? currentIndex)}
+    >
+      {/* Density */}
+      <div className="absolute inset-y-0 right-0 w-1.5 flex flex-col">
+        {density.map((value, i) => (
+          <div
+            key={i}
+            className="flex-1 bg-whatsapp-primary"
+            style={{ opacity: value > 0 ? 0.15 + value * 0.85 : 0 }}
+          />
+        ))}
+      </div>
+
+      {/* Month ticks and year labels */}
+      {markers.map(marker => (
+        <div
+          key={marker.itemIndex}
+          className={`absolute right-2 h-px ${marker.isYearStart ? 'w-3 bg-whatsapp-text-secondary' : 'w-1.5 bg-whatsapp-text-secondary/40'}`}
+          style={{ top: `${(marker.itemIndex / lastIndex) * 100}%` }}
+        />
+      ))}
+      {yearLabels.map(marker => (
+        <span
+          key={marker.itemIndex}
+          className="absolute left-0.5 -translate-y-1/2 text-[9px] sm:text-[10px] leading-none text-whatsapp-text-secondary dark:text-whatsapp-text-secondary-dark pointer-events-none"
+          style={{ top: `${(marker.itemIndex / lastIndex) * 100}%` }}
+        >
+          {marker.label}
+        </span>
+      ))}
+
+      {/* Thumb, with the date while dragging */}
+      <div
+        className="absolute right-0 w-full h-0.5 bg-whatsapp-primary pointer-events-none"
+        style={{ top: `${thumbFraction * 100}%` }}
+      >
+        {dragIndex !== null && (
+          <span className="absolute right-full mr-2 -translate-y-1/2 whitespace-nowrap bg-white dark:bg-whatsapp-panel-dark shadow-lg px-3 py-1.5 rounded-lg text-xs font-medium text-whatsapp-text dark:text-whatsapp-text-dark">
+            {getIndexLabel(dragIndex)}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+/**
+ * Contact book.
+ *
+ * The same person often appears as a raw phone number in older exports and
+ * as a saved name in newer ones. Each contact maps any of its names/phone
+ * numbers to one canonical name, which parsing, merging and the views use
+ * as the sender label.
+ *
+ * Persisted in the storage metadata store and held in memory (like the
+ * user identity profile) so lookups stay synchronous for the parser.
+ */
+
+import type { Chat, Message, Participant } from '../types';
+import { storage } from '../services/storage';
+import { getSenderKey, isMeSender } from './userIdentity';
+import { parseVcfContacts } from '../utils/vcfParser';
+import { buildMembershipHistory } from '../utils/membershipBuilder';
+
+export interface Contact {
+  id: string;
+  name: string; // Canonical name shown everywhere
+  aliases: string[]; // Other names this person appears under
+  phoneNumbers: string[];
+}
+
+const CONTACTS_METADATA_KEY = 'contact_book';
+
+let contacts: Contact[] = [];
+let contactIndex = new Map<string, Contact>(); // Sender key -> contact
+
+function rebuildIndex(): void {
+  contactIndex = new Map();
+  for (const contact of contacts) {
+    for (const value of [contact.name, ...contact.aliases, ...contact.phoneNumbers]) {
+      const key = getSenderKey(value);
+      // First contact wins if two contacts share a number
+      if (key && !contactIndex.has(key)) contactIndex.set(key, contact);
+    }
+  }
+}
+
+export function getContacts(): Contact[] {
+  return contacts;
+}
+
+/**
+ * Load the saved contact book from the metadata store (call once at startup,
+ * after the identity profile so phone numbers use the right default country)
+ */
+export async function loadContactBook(): Promise<Contact[]> {
+  try {
+    const saved = await storage.getMetadata(CONTACTS_METADATA_KEY);
+    if (Array.isArray(saved)) {
+      contacts = saved;
+      rebuildIndex();
+      console.log(`[ContactBook] Loaded ${contacts.length} contacts`);
+    }
+  } catch (err) {
+    console.error('[ContactBook] Failed to load contacts:', err);
+  }
+  return contacts;
+}
+
+/**
+ * Replace the contact book without persisting it (e.g. inside the parser worker)
+ */
+export function setContactBook(next: Contact[]): void {
+  contacts = next
+    .map(c => ({
+      ...c,
+      name: c.name.trim(),
+      aliases: c.aliases.map(a => a.trim()).filter(Boolean),
+      phoneNumbers: c.phoneNumbers.map(p => p.trim()).filter(Boolean),
+    }))
+    .filter(c => c.name);
+  rebuildIndex();
+}
+
+/**
+ * Replace the contact book and persist it
+ */
+export async function saveContactBook(next: Contact[]): Promise<void> {
+  setContactBook(next);
+  await storage.setMetadata(CONTACTS_METADATA_KEY, contacts);
+}
+
+/**
+ * Merges contacts from a .vcf file into a contact list.
+ * Cards whose name or a phone number matches an existing contact extend it.
+ */
+export function mergeVcfIntoContacts(existing: Contact[], vcfContent: string): { contacts: Contact[]; added: number; updated: number } {
+  const result = existing.map(c => ({ ...c, aliases: [...c.aliases], phoneNumbers: [...c.phoneNumbers] }));
+  let added = 0;
+  let updated = 0;
+
+  for (const card of parseVcfContacts(vcfContent)) {
+    const cardKeys = [card.name, ...card.phones].map(getSenderKey);
+    const match = result.find(c =>
+      [c.name, ...c.aliases, ...c.phoneNumbers].some(v => cardKeys.includes(getSenderKey(v)))
+    );
+
+    if (!match) {
+      result.push({ id: generateContactId(), name: card.name, aliases: [], phoneNumbers: card.phones });
+      added++;
+      continue;
+    }
+
+    const known = new Set([match.name, ...match.aliases, ...match.phoneNumbers].map(getSenderKey));
+    let changed = false;
+    if (!known.has(getSenderKey(card.name))) {
+      match.aliases.push(card.name);
+      changed = true;
+    }
+    for (const phone of card.phones) {
+      if (!known.has(getSenderKey(phone))) {
+        match.phoneNumbers.push(phone);
+        changed = true;
+      }
+    }
+    if (changed) updated++;
+  }
+
+  return { contacts: result, added, updated };
+}
+
+export function generateContactId(): string {
+  return `contact_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Canonical name for a sender/participant, or the input unchanged if no contact matches.
+ * The user's own names are left alone so identity matching keeps working.
+ */
+export function resolveContactName(name: string): string {
+  if (!name || contactIndex.size === 0 || isMeSender(name)) return name;
+  return contactIndex.get(getSenderKey(name))?.name ?? name;
+}
+
+/**
+ * Rewrites sender labels (sender, quoted sender, system actor/targets) to
+ * canonical contact names. Returns null if nothing changed.
+ */
+export function applyContactBookToMessages(messages: Message[]): Message[] | null {
+  if (contactIndex.size === 0) return null;
+
+  let changed = false;
+  const result = messages.map(msg => {
+    const sender = resolveContactName(msg.sender);
+    const quotedSender = msg.quotedMessage ? resolveContactName(msg.quotedMessage.sender) : undefined;
+    const actor = msg.systemActor ? resolveContactName(msg.systemActor) : undefined;
+    const targets = msg.systemTargets?.map(resolveContactName);
+
+    const msgChanged =
+      sender !== msg.sender ||
+      quotedSender !== msg.quotedMessage?.sender ||
+      actor !== msg.systemActor ||
+      (targets && targets.some((t, i) => t !== msg.systemTargets![i]));
+    if (!msgChanged) return msg;
+
+    changed = true;
+    return {
+      ...msg,
+      sender,
+      ...(msg.quotedMessage && { quotedMessage: { ...msg.quotedMessage, sender: quotedSender! } }),
+      ...(actor && { systemActor: actor }),
+      ...(targets && { systemTargets: targets }),
+    };
+  });
+
+  return changed ? result : null;
+}
+
+/**
+ * Renames participants to canonical contact names and collapses duplicates
+ * (keeps the first participant's id and color)
+ */
+export function applyContactBookToParticipants(participants: Participant[]): Participant[] {
+  const seen = new Map<string, Participant>();
+  for (const p of participants) {
+    const name = resolveContactName(p.name);
+    const key = getSenderKey(name);
+    if (!seen.has(key)) seen.set(key, name === p.name ? p : { ...p, name });
+  }
+  return Array.from(seen.values());
+}
+
+/**
+ * Applies the contact book to a chat, e.g. one cached before the book changed.
+ * Returns the same object if nothing changed.
+ */
+export function applyContactBook(chat: Chat): Chat {
+  const messages = applyContactBookToMessages(chat.messages);
+  const participants = applyContactBookToParticipants(chat.participants);
+  const participantsChanged =
+    participants.length !== chat.participants.length ||
+    participants.some((p, i) => p !== chat.participants[i]);
+
+  // 1:1 chats are named after the other participant
+  const name = chat.isGroup ? chat.name : resolveContactName(chat.name);
+
+  if (!messages && !participantsChanged && name === chat.name) return chat;
+  return {
+    ...chat,
+    name,
+    messages: messages ?? chat.messages,
+    participants: participantsChanged ? participants : chat.participants,
+    // Membership is keyed by the renamed actors and targets
+    ...(messages && chat.isGroup && { membershipHistory: buildMembershipHistory(messages) }),
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Local media setting.
+ *
+ * Media in an imported ZIP is only readable while the ZIP is open. When this
+ * is on, each import also copies its media into the mediaCache (keyed by
+ * content hash) so a reopened library chat still shows its images.
+ *
+ * Persisted in the storage metadata store and held in memory (like the
+ * user identity profile).
+ */
+
+import { storage } from '../services/storage';
+
+const LOCAL_MEDIA_METADATA_KEY = 'keep_local_media';
+
+let keepLocalMedia = false;
+
+export function isKeepingLocalMedia(): boolean {
+  return keepLocalMedia;
+}
+
+/**
+ * Load the saved setting from the metadata store (call once at startup)
+ */
+export async function loadLocalMediaSetting(): Promise<boolean> {
+  try {
+    keepLocalMedia = (await storage.getMetadata(LOCAL_MEDIA_METADATA_KEY)) === true;
+  } catch (err) {
+    console.error('[LocalMedia] Failed to load setting:', err);
+  }
+  return keepLocalMedia;
+}
+
+export async function saveLocalMediaSetting(enabled: boolean): Promise<void> {
+  keepLocalMedia = enabled;
+  await storage.setMetadata(LOCAL_MEDIA_METADATA_KEY, enabled);
+}
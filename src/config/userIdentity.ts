@@ -1,34 +1,159 @@
 /**
- * Hardcoded user identity.
+ * User identity profile.
  *
  * WhatsApp exports often use your real name / phone number instead of "You".
- * We use this config to reliably:
+ * We use this profile to reliably:
  * - mark outgoing messages (right aligned, green bubble)
  * - name 1:1 chats as the OTHER participant
+ *
+ * The profile is edited in Settings and persisted in the storage metadata
+ * store. It is held in memory so isMeSender() can stay synchronous for the parser.
+ */
+
+import type { Chat } from '../types';
+import { storage } from '../services/storage';
+import { toE164, getLocaleCountry, FALLBACK_COUNTRY } from '../utils/phoneNumber';
+
+export interface UserIdentityProfile {
+  aliases: string[]; // Display names you appear under in exports
+  phoneNumbers: string[]; // With country code, e.g. "+91 98860 31088"
+  chatOverrides: Record<string, string>; // Chat name (lowercased) -> sender that is you in that chat
+  defaultCountry?: string; // ISO code for numbers written without "+", e.g. "GB"; browser locale if unset
+}
+
+const IDENTITY_METADATA_KEY = 'user_identity';
+
+const EMPTY_IDENTITY: UserIdentityProfile = {
+  aliases: [],
+  phoneNumbers: [],
+  chatOverrides: {},
+};
+
+let currentIdentity: UserIdentityProfile = EMPTY_IDENTITY;
+
+export function getUserIdentity(): UserIdentityProfile {
+  return currentIdentity;
+}
+
+/**
+ * Load the saved profile from the metadata store (call once at startup)
+ */
+export async function loadUserIdentity(): Promise<UserIdentityProfile> {
+  try {
+    const saved = await storage.getMetadata(IDENTITY_METADATA_KEY);
+    if (saved) {
+      currentIdentity = { ...EMPTY_IDENTITY, ...saved };
+      console.log(`[UserIdentity] Loaded profile (${currentIdentity.aliases.length} aliases, ${currentIdentity.phoneNumbers.length} numbers)`);
+    }
+  } catch (err) {
+    console.error('[UserIdentity] Failed to load profile:', err);
+  }
+  return currentIdentity;
+}
+
+/**
+ * Replace the active profile without persisting it (e.g. inside the parser worker)
  */
+export function setUserIdentity(profile: UserIdentityProfile): void {
+  currentIdentity = {
+    aliases: profile.aliases.map(a => a.trim()).filter(Boolean),
+    phoneNumbers: profile.phoneNumbers.map(p => p.trim()).filter(Boolean),
+    chatOverrides: { ...profile.chatOverrides },
+    defaultCountry: profile.defaultCountry || undefined,
+  };
+}
+
+/**
+ * Replace the active profile and persist it
+ */
+export async function saveUserIdentity(profile: UserIdentityProfile): Promise<void> {
+  setUserIdentity(profile);
+  await storage.setMetadata(IDENTITY_METADATA_KEY, currentIdentity);
+}
+
+export function chatOverrideKey(chatName: string): string {
+  return chatName.trim().toLowerCase();
+}
 
-export const USER_IDENTITY = {
-  displayName: 'Rajiv',
-  // digits-only; we normalize sender strings similarly
-  phoneNumbers: ['+919886031088', '9886031088'],
-} as const;
+/**
+ * Country used for phone numbers written in national form ("07700 900123")
+ */
+export function getDefaultCountry(): string {
+  return currentIdentity.defaultCountry || getLocaleCountry() || FALLBACK_COUNTRY;
+}
 
+/**
+ * E.164 form of a phone number ("+447700900123"), or '' if the input isn't a phone number
+ */
 export function normalizePhone(input: string): string {
-  const digits = (input || '').replace(/\D/g, '');
-  // If country code present (e.g. +91XXXXXXXXXX), take last 10 digits.
-  if (digits.length > 10) return digits.slice(-10);
-  return digits;
+  return toE164(input, getDefaultCountry()) ?? '';
 }
 
-export function isMeSender(sender: string): boolean {
+/**
+ * Stable key for a sender/participant: E.164 for phone numbers, lowercased name otherwise.
+ * "+44 7700 900123" and "07700 900123" (with default country GB) share a key.
+ */
+export function getSenderKey(sender: string): string {
+  return normalizePhone(sender) || (sender || '').trim().toLowerCase();
+}
+
+/**
+ * True if the sender is the user. A per-chat override, when set for chatName,
+ * replaces alias and phone matching for that chat.
+ */
+export function isMeSender(sender: string, chatName?: string): boolean {
   const s = (sender || '').trim();
   if (!s) return false;
 
-  if (s.toLowerCase() === USER_IDENTITY.displayName.toLowerCase()) return true;
+  const override = chatName ? currentIdentity.chatOverrides[chatOverrideKey(chatName)] : undefined;
+  const senderKey = getSenderKey(s);
+  if (override) return senderKey === getSenderKey(override);
+
+  if (currentIdentity.aliases.some((a) => getSenderKey(a) === senderKey)) return true;
 
   const senderPhone = normalizePhone(s);
   if (!senderPhone) return false;
 
-  return USER_IDENTITY.phoneNumbers.some((p) => normalizePhone(p) === senderPhone);
+  return currentIdentity.phoneNumbers.some((p) => normalizePhone(p) === senderPhone);
+}
+
+/**
+ * Re-marks outgoing messages against the current profile.
+ * Chats parsed or cached before the profile changed keep stale isOutgoing flags,
+ * so views apply this before rendering. Returns the same object if nothing changed.
+ */
+export function applyUserIdentity(chat: Chat): Chat {
+  let changed = false;
+  const messages = chat.messages.map((msg) => {
+    const isOutgoing = msg.type !== 'system' && isMeSender(msg.sender, chat.name);
+    if (isOutgoing === msg.isOutgoing) return msg;
+    changed = true;
+    return { ...msg, isOutgoing };
+  });
+  return changed ? { ...chat, messages } : chat;
 }
 
+/**
+ * Suggests which participant is the user: the sender who appears in the most chats.
+ * Only names present in at least two chats are returned, most frequent first.
+ */
+export function suggestSelfCandidates(chats: Chat[], limit = 3): Array<{ name: string; chatCount: number }> {
+  const counts = new Map<string, { name: string; chatCount: number }>();
+
+  for (const chat of chats) {
+    const senders = new Map<string, string>();
+    for (const msg of chat.messages) {
+      if (msg.type !== 'system' && msg.sender) senders.set(getSenderKey(msg.sender), msg.sender.trim());
+    }
+    for (const [key, name] of senders) {
+      const entry = counts.get(key) ?? { name, chatCount: 0 };
+      entry.chatCount++;
+      counts.set(key, entry);
+    }
+  }
+
+  return Array.from(counts.values())
+    .filter((c) => c.chatCount >= 2)
+    .sort((a, b) => b.chatCount - a.chatCount)
+    .slice(0, limit);
+}
@@ -1,9 +1,12 @@
 /**
  * useDriveChats Hook
  * Manages Google Drive chat loading, caching, and state
+ *
+ * Without a network connection the Google APIs aren't loaded at all: chats
+ * are listed from the chat cache and open with cached media only.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import {
   loadGapiClient,
   loadGisClient,
@@ -20,7 +23,6 @@ import {
 import {
   initializeDriveFolders,
   getChatFolders,
-  getChatFiles,
   getPasswordHash,
   verifyPassword,
   hashPassword,
@@ -30,9 +32,8 @@ import {
 } from '../services/driveService';
 import { chatCache } from '../services/chatCache';
 import { mediaCache } from '../services/mediaCache';
-import { parseChatFile } from '../utils/chatParser';
-import { mergeMessages, mergeParticipants } from '../utils/chatMerger';
-import type { Chat, Message, MediaFile } from '../types';
+import { fetchDriveChat, syncDriveChanges } from '../services/driveSync';
+import type { Chat, BackupSource, ParseProgress } from '../types';
 
 interface DriveState {
   isInitialized: boolean;
@@ -43,6 +44,13 @@ interface DriveState {
   privateChats: ChatFolder[];
   privateUnlocked: boolean;
   passwordHash: string | null;
+  parseProgress: ParseProgress | null; // Set while a chat file is parsing
+  updatedChatIds: string[]; // Cached chats changed by the last sync with Drive
+  isOffline: boolean; // No network: showing cached chats only
+}
+
+function isNetworkOffline(): boolean {
+  return !navigator.onLine;
 }
 
 export function useDriveChats() {
@@ -55,18 +63,62 @@ export function useDriveChats() {
     privateChats: [],
     privateUnlocked: false,
     passwordHash: null,
+    parseProgress: null,
+    updatedChatIds: [],
+    isOffline: false,
   });
 
+  // Google APIs loaded and the token client set up (done once, when online)
+  const connectedRef = useRef(false);
+
   const [, setFolderIds] = useState<{
     publicId: string | null;
     privateId: string | null;
     passwordId: string | null;
   }>({ publicId: null, privateId: null, passwordId: null });
 
+  /**
+   * List the cached chats of the last Drive listing (offline mode)
+   */
+  const loadChatsFromCache = useCallback(async () => {
+    try {
+      const [chatList, cachedIds] = await Promise.all([
+        chatCache.getChatList(),
+        chatCache.getCachedChatIds(),
+      ]);
+      const isCached = (folder: ChatFolder) => cachedIds.has(folder.id);
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: null,
+        publicChats: chatList?.publicChats.filter(isCached) ?? [],
+        privateChats: chatList?.privateChats.filter(isCached) ?? [],
+        passwordHash: chatList?.passwordHash ?? null,
+      }));
+      console.log(`[useDriveChats] Offline: listing ${cachedIds.size} cached chats`);
+    } catch (error) {
+      console.error('[useDriveChats] Failed to list cached chats:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        error: `Failed to load cached chats: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      }));
+    }
+  }, []);
+
   /**
    * Initialize Google API and load chat folders
    */
   const initialize = useCallback(async () => {
+    // Offline: skip the Google APIs and show what's cached
+    if (isNetworkOffline()) {
+      await chatCache.init();
+      setState(prev => ({ ...prev, isInitialized: true, isOffline: true }));
+      await loadChatsFromCache();
+      return;
+    }
+
     // Check if client ID is configured
     if (!GOOGLE_CLIENT_ID || GOOGLE_CLIENT_ID.includes('YOUR_CLIENT_ID')) {
       setState(prev => ({
@@ -82,25 +134,10 @@ export function useDriveChats() {
     try {
       // Load Google APIs
       await Promise.all([loadGapiClient(), loadGisClient()]);
+      connectedRef.current = true;
 
-      // Initialize caches
-      await Promise.all([
-        chatCache.init(),
-        mediaCache.init(),
-      ]);
-
-      // Clear old cache service (legacy, no longer used)
-      // This was causing the 30MB bloat
-      try {
-        if ('indexedDB' in window) {
-          // Delete old cache database - it's no longer used
-          const oldDbRequest = indexedDB.deleteDatabase('whatsapp_backup_cache');
-          oldDbRequest.onsuccess = () => console.log('[useDriveChats] Deleted old cache database');
-          oldDbRequest.onerror = () => console.warn('[useDriveChats] Failed to delete old cache');
-        }
-      } catch (err) {
-        console.warn('[useDriveChats] Error clearing old cache:', err);
-      }
+      // Initialize storage (migrates the old cache databases on first run)
+      await chatCache.init();
 
       // Initialize token client
       initTokenClient(async () => {
@@ -123,6 +160,7 @@ export function useDriveChats() {
         isInitialized: true,
         isLoading: false,
         isSignedIn: isSignedIn(),
+        isOffline: false,
       }));
 
       // If already signed in, load chats
@@ -131,6 +169,12 @@ export function useDriveChats() {
       }
     } catch (error) {
       console.error('Failed to initialize Google Drive:', error);
+      // The connection dropped while loading the Google APIs
+      if (isNetworkOffline()) {
+        setState(prev => ({ ...prev, isInitialized: true, isOffline: true }));
+        await loadChatsFromCache();
+        return;
+      }
       setState(prev => ({
         ...prev,
         isInitialized: true,
@@ -138,7 +182,7 @@ export function useDriveChats() {
         error: `Failed to initialize: ${error instanceof Error ? error.message : 'Unknown error'}`,
       }));
     }
-  }, []);
+  }, [loadChatsFromCache]);
 
   /**
    * Preload chats in background for instant access
@@ -229,6 +273,20 @@ export function useDriveChats() {
         passwordHash,
       }));
 
+      // Remember the listing for offline use
+      chatCache.saveChatList({ publicChats, privateChats, passwordHash })
+        .catch(err => console.error('[useDriveChats] Failed to save chat list:', err));
+
+      // Bring cached chats up to date with what changed in Drive since last time
+      try {
+        const updatedChatIds = await syncDriveChanges([...publicChats, ...privateChats]);
+        if (updatedChatIds.length > 0) {
+          setState(prev => ({ ...prev, updatedChatIds }));
+        }
+      } catch (err) {
+        console.error('[useDriveChats] Failed to sync Drive changes:', err);
+      }
+
       // Preload chats in background (non-blocking)
       preloadChatsInBackground(publicChats);
 
@@ -296,9 +354,13 @@ export function useDriveChats() {
   }, [state.privateChats]);
 
   /**
-   * Load a full chat with messages (from Drive or cache)
+   * Load a full chat with messages (from Drive or cache).
+   * onPreview receives the newest messages while a large chat is still parsing.
    */
-  const loadChat = useCallback(async (chatFolder: ChatFolder): Promise<Chat | null> => {
+  const loadChat = useCallback(async (
+    chatFolder: ChatFolder,
+    onPreview?: (chat: Chat) => void
+  ): Promise<Chat | null> => {
     setState(prev => ({ ...prev, isLoading: true }));
 
     try {
@@ -313,12 +375,24 @@ export function useDriveChats() {
         return cachedChat;
       }
 
+      if (isNetworkOffline()) {
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: `"${chatFolder.name}" isn't available offline`,
+        }));
+        return null;
+      }
+
       console.log(`[useDriveChats] ❌ Cache miss, loading from Drive: ${chatFolder.name}`);
 
       // Load from Drive (token validation should be done before calling this)
-      const { chatTexts, mediaFiles } = await getChatFiles(chatFolder);
+      const chat = await fetchDriveChat(chatFolder, {
+        onPreview,
+        onProgress: parseProgress => setState(prev => ({ ...prev, parseProgress })),
+      });
 
-      if (chatTexts.length === 0) {
+      if (!chat) {
         setState(prev => ({
           ...prev,
           isLoading: false,
@@ -327,130 +401,52 @@ export function useDriveChats() {
         return null;
       }
 
-      // Create media file lookup (lazy loading)
-      const mediaLookup: MediaFile[] = [];
-      let thumbCount = 0;
-      let noThumbCount = 0;
-      for (const [fileName, fileInfo] of mediaFiles) {
-        // Only use thumbnails for images, not documents
-        const isImage = fileInfo.mimeType.startsWith('image/');
-        const thumbnailLink = isImage ? fileInfo.thumbnailLink : undefined;
-        
-        if (thumbnailLink) {
-          thumbCount++;
-        } else if (isImage) {
-          noThumbCount++;
-        }
-        mediaLookup.push({
-          fileName,
-          url: '', // Always empty - load on demand
-          mimeType: fileInfo.mimeType,
-          size: fileInfo.size ? parseInt(fileInfo.size) : undefined,
-          blob: new Blob(), // Placeholder
-          driveFileId: fileInfo.id, // Store Drive ID for lazy loading
-          thumbnailLink, // For quick preview (images only)
-        } as MediaFile & { driveFileId: string; thumbnailLink?: string });
-      }
-
-      // Parse all chat files
-      const allMessages: Message[][] = [];
-      const allParticipants: Array<Array<{ id: string; name: string; color: string }>> = [];
-
-      for (const chatText of chatTexts) {
-        // Arguments: fileName, content, mediaFiles
-        const { chat } = parseChatFile(chatText.name, chatText.content, mediaLookup);
-        allMessages.push(chat.messages);
-        // Add id to participants
-        const participantsWithId = chat.participants.map((p, idx) => ({
-          ...p,
-          id: `${chatFolder.id}-${idx}`,
-        }));
-        allParticipants.push(participantsWithId);
-      }
-
-      // Merge and dedupe
-      const mergedMessages = mergeMessages(allMessages);
-      const mergedParticipants = mergeParticipants(allParticipants);
-
-      // Clean messages before caching - keep only essential data
-      const cleanMessages = mergedMessages.map(msg => {
-        // Build clean message with only essential fields
-        const cleaned: any = {
-          id: msg.id,
-          timestamp: msg.timestamp,
-          sender: msg.sender,
-          type: msg.type,
-          content: msg.content || '',
-          isOutgoing: msg.isOutgoing,
-        };
-
-        // Add media fields only if they exist
-        if (msg.driveFileId) cleaned.driveFileId = msg.driveFileId;
-        if (msg.thumbnailUrl) cleaned.thumbnailUrl = msg.thumbnailUrl;
-        if (msg.mediaFileName) cleaned.mediaFileName = msg.mediaFileName;
-        if (msg.mediaMimeType) cleaned.mediaMimeType = msg.mediaMimeType;
-        if (msg.mediaSize) cleaned.mediaSize = msg.mediaSize;
-
-        // Add optional fields only if they exist
-        if (msg.isDeleted) cleaned.isDeleted = msg.isDeleted;
-        if (msg.isEdited) cleaned.isEdited = msg.isEdited;
-        if (msg.callDuration) cleaned.callDuration = msg.callDuration;
-        if (msg.callKind) cleaned.callKind = msg.callKind;
-        if (msg.callMissed) cleaned.callMissed = msg.callMissed;
-
-        // Clean quoted message - only text, no media blobs
-        if (msg.quotedMessage) {
-          cleaned.quotedMessage = {
-            sender: msg.quotedMessage.sender,
-            content: msg.quotedMessage.content || '',
-          };
-        }
-
-        // Skip reactions for now - might have large data
-        // if (msg.reactions) cleaned.reactions = msg.reactions;
-
-        return cleaned;
-      });
-
-      const fullChat: Chat = {
-        id: chatFolder.id,
-        name: chatFolder.name,
-        messages: cleanMessages,
-        participants: mergedParticipants,
-        isGroup: mergedParticipants.length > 2,
-      };
-
-      // Save to new chat cache (IndexedDB) - only text data
-      await chatCache.saveChat(fullChat);
-
-      console.log(`[useDriveChats] Cached ${fullChat.messages.length} messages for "${fullChat.name}"`);
-
-      setState(prev => ({ ...prev, isLoading: false }));
-
-      // Return the full merged messages (with mediaUrls) to the UI
-      // Don't return cleaned version
-      return {
-        id: chatFolder.id,
-        name: chatFolder.name,
-        messages: mergedMessages, // Original messages with blob URLs for immediate display
-        participants: mergedParticipants,
-        isGroup: mergedParticipants.length > 2,
-      };
+      setState(prev => ({ ...prev, isLoading: false, parseProgress: null }));
+      return chat;
     } catch (error) {
       console.error(`Failed to load chat "${chatFolder.name}":`, error);
       setState(prev => ({
         ...prev,
         isLoading: false,
+        parseProgress: null,
         error: `Failed to load chat: ${error instanceof Error ? error.message : 'Unknown error'}`,
       }));
       return null;
     }
   }, []);
 
+  /**
+   * Include or exclude one backup of a multi-backup chat and persist the choice.
+   * Returns the updated backup list, or null if the chat isn't cached.
+   */
+  const setBackupExcluded = useCallback(async (
+    chatId: string,
+    sourceIndex: number,
+    excluded: boolean
+  ): Promise<BackupSource[] | null> => {
+    const cachedChat = await chatCache.getChat(chatId);
+    if (!cachedChat?.backupSources?.[sourceIndex]) return null;
+
+    const backupSources = cachedChat.backupSources.map((source, i) =>
+      i === sourceIndex ? { ...source, excluded } : source
+    );
+    // Keep at least one backup in the timeline
+    if (backupSources.every(source => source.excluded)) return cachedChat.backupSources;
+
+    await chatCache.saveChat({ ...cachedChat, backupSources });
+    console.log(`[useDriveChats] Backup ${backupSources[sourceIndex].id} ${excluded ? 'excluded' : 'included'}`);
+    return backupSources;
+  }, []);
+
   /**
    * Ensure we have a valid token, refresh if needed
    */
   const ensureValidToken = useCallback(async (): Promise<boolean> => {
+    // No way to re-authenticate offline (and no reason to sign out)
+    if (isNetworkOffline()) {
+      return false;
+    }
+
     if (!isTokenExpired()) {
       return true;
     }
@@ -471,31 +467,33 @@ export function useDriveChats() {
    * Load media file on demand with smart caching
    */
   const getMediaUrl = useCallback(async (driveFileId: string, mimeType: string): Promise<string> => {
+    // Cached media (e.g. kept for offline use) needs no token
+    const cachedUrl = await mediaCache.getCachedUrl(driveFileId);
+    if (cachedUrl) return cachedUrl;
+
+    if (isNetworkOffline()) {
+      throw new Error('Media not available offline');
+    }
+
     // Ensure valid token before making API call
     const hasValidToken = await ensureValidToken();
     if (!hasValidToken) {
       throw new Error('Session expired. Please sign in again.');
     }
 
-    // Load from Drive with IndexedDB caching (from driveService)
-    const url = await loadMediaFile(driveFileId, mimeType);
-
-    // Also add to media cache for LRU management
-    // This will help with the 2GB rotating cache
-    try {
-      await mediaCache.getMedia(driveFileId, url);
-    } catch (err) {
-      console.warn('[useDriveChats] Failed to add to media cache:', err);
-      // Don't fail if media cache fails, we still have the URL
-    }
-
-    return url;
+    // Load from Drive with media caching (from driveService)
+    return loadMediaFile(driveFileId, mimeType);
   }, [ensureValidToken]);
 
   /**
    * Refresh chats from Drive (also re-establishes connection if broken)
    */
   const refresh = useCallback(async () => {
+    if (isNetworkOffline()) {
+      await loadChatsFromCache();
+      return;
+    }
+
     // Ensure valid token before refreshing
     const hasValidToken = await ensureValidToken();
     if (!hasValidToken) {
@@ -505,13 +503,39 @@ export function useDriveChats() {
     }
     
     await loadChatsFromDrive();
-  }, [loadChatsFromDrive, ensureValidToken]);
+  }, [loadChatsFromDrive, loadChatsFromCache, ensureValidToken]);
 
   // Initialize on mount
   useEffect(() => {
     initialize();
   }, [initialize]);
 
+  // Switch between Drive and the cache as the connection comes and goes
+  useEffect(() => {
+    const handleOffline = () => {
+      console.log('[useDriveChats] Connection lost, showing cached chats');
+      setState(prev => ({ ...prev, isOffline: true }));
+      loadChatsFromCache();
+    };
+
+    const handleOnline = () => {
+      console.log('[useDriveChats] Connection restored');
+      setState(prev => ({ ...prev, isOffline: false, error: null }));
+      if (!connectedRef.current) {
+        initialize();
+      } else if (isSignedIn()) {
+        loadChatsFromDrive();
+      }
+    };
+
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener('online', handleOnline);
+    return () => {
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [initialize, loadChatsFromCache, loadChatsFromDrive]);
+
   // Helper to generate password hash (for user to copy to Drive)
   const generateHashForPassword = useCallback(async (password: string): Promise<string> => {
     return hashPassword(password);
@@ -523,6 +547,9 @@ export function useDriveChats() {
     isSignedIn: state.isSignedIn,
     isLoading: state.isLoading,
     error: state.error,
+    parseProgress: state.parseProgress,
+    updatedChatIds: state.updatedChatIds,
+    isOffline: state.isOffline,
     publicChats: state.publicChats,
     privateChats: state.privateChats,
     privateUnlocked: state.privateUnlocked,
@@ -535,6 +562,7 @@ export function useDriveChats() {
     lockPrivate,
     searchPrivateChats,
     loadChat,
+    setBackupExcluded,
     getMediaUrl,
     refresh,
     ensureValidToken,
@@ -0,0 +1,89 @@
+/**
+ * useGlobalSearch Hook
+ * Searches every indexed chat as the query changes, and indexes chats that
+ * were cached or imported before there was a search index (or before the
+ * contact book or identity profile last changed)
+ */
+
+import { useState, useEffect, useSyncExternalStore } from 'react';
+import type { Chat } from '../types';
+import type { ChatSearchResult } from '../utils/searchIndexer';
+import { parseSearchQuery, isEmptyQuery } from '../utils/searchQuery';
+import { searchIndex } from '../services/searchIndex';
+import { chatCache } from '../services/chatCache';
+
+const SEARCH_DEBOUNCE_MS = 200;
+const MAX_HITS_PER_CHAT = 20;
+
+interface GlobalSearchOptions {
+  enabled: boolean;
+  chatIds: ReadonlySet<string>; // Chats the user can open
+  libraryChats: Chat[];
+}
+
+/**
+ * Index whatever isn't yet, or is out of date: cached Drive chats are read one by one
+ */
+async function indexMissingChats(libraryChats: Chat[], isCancelled: () => boolean): Promise<void> {
+  const [indexedIds, cachedIds] = await Promise.all([
+    searchIndex.getUpToDateChatIds(),
+    chatCache.getCachedChatIds(),
+  ]);
+
+  for (const chat of libraryChats) {
+    if (!indexedIds.has(chat.id)) searchIndex.indexChat(chat, 'local');
+  }
+  for (const chatId of cachedIds) {
+    if (isCancelled()) return;
+    if (indexedIds.has(chatId)) continue;
+    const chat = await chatCache.getChat(chatId);
+    if (chat) await searchIndex.indexChat(chat, 'drive');
+  }
+}
+
+export function useGlobalSearch(query: string, { enabled, chatIds, libraryChats }: GlobalSearchOptions) {
+  const { indexingCount, revision } = useSyncExternalStore(searchIndex.subscribe, searchIndex.getSnapshot);
+  const [results, setResults] = useState<ChatSearchResult[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState('');
+
+  // Catch up on unindexed chats once search is opened
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    indexMissingChats(libraryChats, () => cancelled)
+      .catch(err => console.error('[useGlobalSearch] Failed to index existing chats:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, libraryChats]);
+
+  // Search (debounced), again whenever an index changes
+  const trimmedQuery = query.trim();
+  const isEmpty = isEmptyQuery(parseSearchQuery(trimmedQuery));
+  useEffect(() => {
+    if (!enabled || isEmpty) return;
+    let cancelled = false;
+
+    const timer = setTimeout(() => {
+      searchIndex.search(trimmedQuery, { chatIds, maxHitsPerChat: MAX_HITS_PER_CHAT })
+        .then(found => {
+          if (cancelled) return;
+          setResults(found);
+          setSearchedQuery(trimmedQuery);
+        })
+        .catch(err => console.error('[useGlobalSearch] Search failed:', err));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, trimmedQuery, isEmpty, chatIds, revision]);
+
+  const hasQuery = enabled && !isEmpty;
+  return {
+    results: hasQuery ? results : [],
+    isSearching: hasQuery && searchedQuery !== trimmedQuery,
+    indexingCount,
+  };
+}
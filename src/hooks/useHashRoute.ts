@@ -0,0 +1,56 @@
+/**
+ * useHashRoute Hook
+ * The current hash route (see utils/hashRoute), and navigation that adds
+ * browser history entries so back/forward move between the chat list, a
+ * chat and its media.
+ */
+
+import { useMemo, useSyncExternalStore } from 'react';
+import { parseHashRoute, formatHashRoute, type AppRoute } from '../utils/hashRoute';
+
+// pushState/replaceState don't fire hashchange, so navigate() tells subscribers itself
+const listeners = new Set<() => void>();
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  window.addEventListener('hashchange', listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener('hashchange', listener);
+  };
+}
+
+function getHash(): string {
+  return window.location.hash;
+}
+
+export function navigate(route: AppRoute, { replace = false }: { replace?: boolean } = {}): void {
+  const hash = formatHashRoute(route);
+  if (hash === (window.location.hash || '#/')) return;
+
+  if (replace) {
+    window.history.replaceState(window.history.state, '', hash);
+  } else {
+    // Marks entries this app added, so goBack knows it can go back to one
+    window.history.pushState({ appNavigation: true }, '', hash);
+  }
+  listeners.forEach(listener => listener());
+}
+
+/**
+ * Back to the previous screen: a history step if the app got here itself,
+ * otherwise (opened from a link or a reload) replace with the fallback
+ */
+export function goBack(fallback: AppRoute): void {
+  if ((window.history.state as { appNavigation?: boolean } | null)?.appNavigation) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+}
+
+export function useHashRoute() {
+  const hash = useSyncExternalStore(subscribe, getHash);
+  const route = useMemo(() => parseHashRoute(hash), [hash]);
+  return { route, navigate, goBack };
+}
@@ -0,0 +1,366 @@
+/**
+ * useLocalLibrary Hook
+ * Manages chats imported from local ZIP files (or unzipped exports): importing many exports at
+ * once, merging exports of the same chat, and persisting the library
+ * (plus, if enabled, its media, see config/localMedia)
+ */
+
+import { useState, useCallback, useEffect } from 'react';
+import { localLibrary, type LocalExport } from '../services/localLibrary';
+import { chatParserWorker } from '../services/chatParserWorker';
+import { mediaCache, getContentHash } from '../services/mediaCache';
+import { isKeepingLocalMedia } from '../config/localMedia';
+import { extractWhatsAppBackup, readUnzippedExport, getZipMediaBlob } from '../utils/zipExtractor';
+import { mergeChatBackups, type ChatBackupPart } from '../utils/chatMerger';
+import { findUnreferencedMedia } from '../utils/timelineBuilder';
+import { getZipFiles, getImportDisplayName, groupUnzippedExports } from '../utils/fileImport';
+import type { Chat, BackupSource, ParseProgress } from '../types';
+
+interface LocalLibraryState {
+  chats: Chat[];
+  isLoading: boolean;
+  error: string | null;
+  parseProgress: ParseProgress | null; // Set while a chat file is parsing
+  mediaProgress: { done: number; total: number } | null; // Set while imported media is copied to the cache
+}
+
+/**
+ * Exports of the same chat share a key: the chat name, ignoring case
+ */
+function getChatKey(chatName: string): string {
+  return chatName.trim().toLowerCase();
+}
+
+function getLocalChatId(chatKey: string): string {
+  return `local_${encodeURIComponent(chatKey)}`;
+}
+
+/**
+ * Chat name from an export's ZIP, folder or text file name,
+ * like "WhatsApp Chat with Alice.zip" (a bare "_chat.txt" has none)
+ */
+function getExportChatName(exportName: string): string {
+  return exportName
+    .replace(/^.*\//, '')
+    .replace(/\.(zip|txt)$/i, '')
+    .replace(/^_?chat$/i, '')
+    .replace(/^WhatsApp Chat\s*[-–]?\s*(with\s*)?/i, '')
+    .trim();
+}
+
+/**
+ * Merge all exports of one chat into the chat shown in the list
+ */
+function buildLibraryChat(chatKey: string, exports: LocalExport[], previous?: Chat): Chat {
+  const id = getLocalChatId(chatKey);
+  const parts: ChatBackupPart[] = exports.map(exp => ({
+    messages: exp.chat.messages,
+    participants: exp.chat.participants,
+    isGroup: exp.chat.isGroup,
+    fileName: exp.fileName,
+    backupName: exp.backupName,
+  }));
+
+  const { messages, participants, isGroup, membershipHistory, backupSources } = mergeChatBackups(parts);
+
+  // Keep backups the user excluded before this import excluded
+  const excludedIds = new Set(previous?.backupSources?.filter(s => s.excluded).map(s => s.id));
+  const sources = backupSources?.map(source =>
+    excludedIds.has(source.id) ? { ...source, excluded: true } : source
+  );
+
+  const mediaFileNames = exports.flatMap(exp => exp.chat.unreferencedMedia?.map(m => m.fileName) ?? []);
+
+  return {
+    id,
+    name: exports[exports.length - 1].chat.name,
+    messages,
+    participants: participants.map((p, idx) => ({ ...p, id: `${id}-${idx}` })),
+    isGroup,
+    membershipHistory,
+    backupSources: sources,
+    unreferencedMedia: findUnreferencedMedia(messages, Array.from(new Set(mediaFileNames))),
+  };
+}
+
+/**
+ * Copy a freshly imported chat's media from its ZIP into the mediaCache.
+ * Returns media file name -> content hash for everything stored; stops
+ * early once the browser's storage quota is reached.
+ */
+async function storeChatMedia(
+  chat: Chat,
+  onProgress: (done: number, total: number) => void
+): Promise<{ hashes: Map<string, string>; quotaReached: boolean }> {
+  // Media file name -> where to read it: an opened ZIP or unzipped export, or an eagerly extracted file's URL
+  const pending = new Map<string, () => Promise<Blob>>();
+  for (const { zipMediaKey, mediaUrl, mediaFileName, mediaHash } of chat.messages) {
+    if (!mediaFileName || mediaHash) continue;
+    if (zipMediaKey) {
+      pending.set(mediaFileName, () => getZipMediaBlob(zipMediaKey));
+    } else if (mediaUrl) {
+      pending.set(mediaFileName, () => fetch(mediaUrl).then(res => res.blob()));
+    }
+  }
+
+  const hashes = new Map<string, string>();
+  let done = 0;
+  for (const [fileName, readMedia] of pending) {
+    try {
+      const blob = await readMedia();
+      const contentHash = await getContentHash(blob);
+      if (!(await mediaCache.storeLocalMedia(contentHash, blob))) {
+        return { hashes, quotaReached: true };
+      }
+      hashes.set(fileName, contentHash);
+    } catch (err) {
+      console.warn(`[useLocalLibrary] Failed to store media ${fileName}:`, err);
+    }
+    onProgress(++done, pending.size);
+  }
+  return { hashes, quotaReached: false };
+}
+
+export function useLocalLibrary() {
+  const [state, setState] = useState<LocalLibraryState>({
+    chats: [],
+    isLoading: false,
+    error: null,
+    parseProgress: null,
+    mediaProgress: null,
+  });
+
+  // Load the saved library on mount
+  useEffect(() => {
+    localLibrary.getAllChats()
+      .then(chats => setState(prev => ({
+        ...prev,
+        // An import may already have finished while the library was loading
+        chats: [...prev.chats, ...chats.filter(c => !prev.chats.some(imported => imported.id === c.id))],
+      })))
+      .catch(err => console.warn('[useLocalLibrary] Failed to load library:', err));
+  }, []);
+
+  /**
+   * Copy the media of imported chats into the mediaCache (in the background,
+   * after the chats are already shown) and remember it on their messages
+   */
+  const storeImportedMedia = useCallback(async (chats: Chat[]) => {
+    try {
+      for (const chat of chats) {
+        const { hashes, quotaReached } = await storeChatMedia(chat, (done, total) =>
+          setState(prev => ({ ...prev, mediaProgress: { done, total } }))
+        );
+
+        if (hashes.size > 0) {
+          await localLibrary.setMediaHashes(chat.id, getChatKey(chat.name), hashes);
+          setState(prev => ({
+            ...prev,
+            chats: prev.chats.map(c => (c.id !== chat.id ? c : {
+              ...c,
+              messages: c.messages.map(msg => {
+                const mediaHash = msg.mediaFileName && hashes.get(msg.mediaFileName);
+                return mediaHash ? { ...msg, mediaHash } : msg;
+              }),
+            })),
+          }));
+        }
+
+        if (quotaReached) {
+          setState(prev => ({ ...prev, error: 'Browser storage is full; some media was not saved for offline use' }));
+          break;
+        }
+      }
+    } catch (err) {
+      console.error('[useLocalLibrary] Failed to store imported media:', err);
+    } finally {
+      setState(prev => ({ ...prev, mediaProgress: null }));
+    }
+  }, []);
+
+  /**
+   * Import any number of exports (from a multi-select, a folder or a drop):
+   * ZIPs, and unzipped chat .txt files with their media.
+   * Exports of the same chat are merged with each other and with earlier imports.
+   * onPreview receives the newest messages while a single large chat is still parsing.
+   * Returns the first imported chat, or null if nothing could be imported.
+   */
+  const importFiles = useCallback(async (
+    files: File[],
+    onPreview?: (chat: Chat) => void
+  ): Promise<Chat | null> => {
+    const zipFiles = getZipFiles(files);
+    const unzippedExports = groupUnzippedExports(files);
+    if (zipFiles.length === 0 && unzippedExports.length === 0) {
+      setState(prev => ({ ...prev, error: 'No WhatsApp exports (.zip or chat .txt) found to import' }));
+      return null;
+    }
+
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      // Extract every ZIP first so we know how many chat files there are
+      const archives = [];
+      for (const file of zipFiles) {
+        const backupName = getImportDisplayName(file);
+        try {
+          archives.push({ backupName, content: await extractWhatsAppBackup(file) });
+        } catch (err) {
+          console.warn(`[useLocalLibrary] Skipping unreadable ZIP ${backupName}:`, err);
+        }
+      }
+      for (const unzipped of unzippedExports) {
+        archives.push({
+          backupName: unzipped.name,
+          content: await readUnzippedExport(unzipped.chatFiles, unzipped.mediaFiles),
+        });
+      }
+
+      const fileCount = archives.reduce((sum, archive) => sum + archive.content.chatFiles.length, 0);
+      const importedAt = Date.now();
+      const newExports: LocalExport[] = [];
+      let fileIndex = 0;
+
+      for (const { backupName, content } of archives) {
+        const exportChatName = getExportChatName(backupName);
+        const isSingleChat = content.chatFiles.length === 1;
+        const withZipName = (chat: Chat) =>
+          isSingleChat && chat.name === 'Unnamed Chat' && exportChatName ? { ...chat, name: exportChatName } : chat;
+
+        for (const chatFile of content.chatFiles) {
+          const index = fileIndex++;
+          const { chat: parsed } = await chatParserWorker.parse(chatFile.name, chatFile.file, content.mediaFiles, {
+            // Show the newest messages right away when importing a single chat
+            onPreview: onPreview && fileCount === 1 ? (preview => {
+              const chat = withZipName(preview);
+              onPreview({ ...chat, id: getLocalChatId(getChatKey(chat.name)) });
+            }) : undefined,
+            onProgress: progress => setState(prev => ({
+              ...prev,
+              parseProgress: { ...progress, fileIndex: index, fileCount },
+            })),
+          });
+          if (parsed.messages.length === 0) continue;
+
+          const chat = withZipName(parsed);
+          const chatKey = getChatKey(chat.name);
+          newExports.push({
+            id: `${chatKey}/${backupName}/${chatFile.name}`,
+            chatKey,
+            fileName: chatFile.name,
+            backupName,
+            importedAt,
+            chat,
+          });
+        }
+      }
+
+      if (newExports.length === 0) {
+        throw new Error('No valid chats found in the backup files');
+      }
+
+      // Merge each chat's new exports with the ones already in the library.
+      // Re-importing the same file replaces its earlier copy.
+      const chatKeys = Array.from(new Set(newExports.map(exp => exp.chatKey)));
+      const importedChats: Chat[] = [];
+      for (const chatKey of chatKeys) {
+        const exportsById = new Map<string, LocalExport>();
+        for (const exp of await localLibrary.getExports(chatKey)) exportsById.set(exp.id, exp);
+        for (const exp of newExports) {
+          if (exp.chatKey === chatKey) exportsById.set(exp.id, exp);
+        }
+        const exports = Array.from(exportsById.values()).sort((a, b) => a.importedAt - b.importedAt);
+        const previous = state.chats.find(c => c.id === getLocalChatId(chatKey));
+        importedChats.push(buildLibraryChat(chatKey, exports, previous));
+      }
+
+      await localLibrary.saveImport(newExports, importedChats);
+      console.log(`[useLocalLibrary] Imported ${newExports.length} exports into ${importedChats.length} chats`);
+
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        parseProgress: null,
+        chats: [
+          ...importedChats,
+          ...prev.chats.filter(c => !importedChats.some(imported => imported.id === c.id)),
+        ],
+      }));
+
+      if (isKeepingLocalMedia()) {
+        storeImportedMedia(importedChats);
+      }
+
+      return importedChats[0];
+    } catch (error) {
+      console.error('[useLocalLibrary] Import failed:', error);
+      setState(prev => ({
+        ...prev,
+        isLoading: false,
+        parseProgress: null,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      }));
+      return null;
+    }
+  }, [state.chats, storeImportedMedia]);
+
+  /**
+   * Remove a chat (and every export merged into it) from the library
+   */
+  const removeChat = useCallback(async (chatId: string) => {
+    const chat = state.chats.find(c => c.id === chatId);
+    if (!chat) return;
+
+    await localLibrary.deleteChat(chatId, getChatKey(chat.name));
+    setState(prev => ({ ...prev, chats: prev.chats.filter(c => c.id !== chatId) }));
+  }, [state.chats]);
+
+  /**
+   * Remove every imported chat
+   */
+  const clearLibrary = useCallback(async () => {
+    await localLibrary.clear();
+    setState(prev => ({ ...prev, chats: [] }));
+  }, []);
+
+  /**
+   * Include or exclude one backup of a merged library chat and persist the choice.
+   * Returns the updated backup list, or null if the chat isn't in the library.
+   */
+  const setBackupExcluded = useCallback(async (
+    chatId: string,
+    sourceIndex: number,
+    excluded: boolean
+  ): Promise<BackupSource[] | null> => {
+    const chat = state.chats.find(c => c.id === chatId);
+    if (!chat?.backupSources?.[sourceIndex]) return null;
+
+    const backupSources = chat.backupSources.map((source, i) =>
+      i === sourceIndex ? { ...source, excluded } : source
+    );
+    // Keep at least one backup in the timeline
+    if (backupSources.every(source => source.excluded)) return chat.backupSources;
+
+    await localLibrary.updateChat(chatId, { backupSources });
+    setState(prev => ({
+      ...prev,
+      chats: prev.chats.map(c => (c.id === chatId ? { ...c, backupSources } : c)),
+    }));
+    return backupSources;
+  }, [state.chats]);
+
+  return {
+    // State
+    chats: state.chats,
+    isLoading: state.isLoading,
+    error: state.error,
+    parseProgress: state.parseProgress,
+    mediaProgress: state.mediaProgress,
+
+    // Actions
+    importFiles,
+    removeChat,
+    clearLibrary,
+    setBackupExcluded,
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * useOfflinePrefetch Hook
+ * Progress of the "make available offline" job and which chats are offline
+ * (state lives in the offlinePrefetch service, so it survives unmounts)
+ */
+
+import { useEffect, useSyncExternalStore } from 'react';
+import { offlinePrefetch } from '../services/offlinePrefetch';
+
+export function useOfflinePrefetch() {
+  const { progress, offlineChatIds } = useSyncExternalStore(
+    offlinePrefetch.subscribe,
+    offlinePrefetch.getSnapshot
+  );
+
+  useEffect(() => {
+    offlinePrefetch.load();
+  }, []);
+
+  return {
+    progress,
+    offlineChatIds,
+    isActive: progress.status === 'running' || progress.status === 'paused',
+  };
+}
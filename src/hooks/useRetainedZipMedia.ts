@@ -0,0 +1,35 @@
+/**
+ * useRetainedZipMedia Hook
+ * Loads inflated ZIP media for a component that shows it: each URL is held
+ * (see retainZipMediaUrl) until the component unmounts, so the decoded-media
+ * LRU can't revoke a URL that is still on screen
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { retainZipMediaUrl, releaseZipMediaUrl } from '../utils/zipExtractor';
+
+export function useRetainedZipMedia(): (mediaKey: string) => Promise<string> {
+  const heldKeys = useRef(new Set<string>());
+  const isMounted = useRef(false);
+
+  useEffect(() => {
+    const held = heldKeys.current;
+    isMounted.current = true;
+    return () => {
+      isMounted.current = false;
+      held.forEach(releaseZipMediaUrl);
+      held.clear();
+    };
+  }, []);
+
+  return useCallback(async (mediaKey: string) => {
+    const url = await retainZipMediaUrl(mediaKey);
+    // One hold per key is enough, and none once unmounted
+    if (!isMounted.current || heldKeys.current.has(mediaKey)) {
+      releaseZipMediaUrl(mediaKey);
+    } else {
+      heldKeys.current.add(mediaKey);
+    }
+    return url;
+  }, []);
+}
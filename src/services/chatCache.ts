@@ -1,340 +1,202 @@
 /**
  * Chat Cache Service
- * Uses IndexedDB to persistently store ALL chat messages
+ * Persistently stores ALL chat messages of Drive chats (in the storage service)
  * Text is tiny (few MB total) so we cache everything for instant loading
+ *
+ * Also keeps what incremental re-sync needs (in storage metadata): the Drive
+ * changes feed token, and per chat the exports and media it was built from.
+ * The last Drive chat listing is kept too, so chats can be listed offline.
  */
 
-import type { Chat } from '../types';
+import type { Chat, Message } from '../types';
+import type { ChatFolder, DriveChatText, DriveMediaFile } from './driveService';
+import { storage, STORES, requestResult, transactionDone, estimateRecordSize } from './storage';
+import { searchIndex } from './searchIndex';
 
-const DB_NAME = 'whatsapp-backup-cache';
-const DB_VERSION = 2; // Bumped to force cache clear (old data was bloated)
-const CHAT_STORE = 'chats';
-const METADATA_STORE = 'metadata';
-const CACHE_VERSION_KEY = 'cache_version';
-const CURRENT_CACHE_VERSION = '2.0'; // Version identifier for clean cache format
+const CHANGES_TOKEN_KEY = 'drive_changes_token';
+const SYNC_STATE_PREFIX = 'drive_sync:';
+const CHAT_LIST_KEY = 'drive_chat_list';
 
-interface CachedChat extends Chat {
-  cachedAt: number;
+/**
+ * Drive files a cached chat was built from
+ */
+export interface DriveSyncState {
+  chatTexts: DriveChatText[]; // In backup source order (see Chat.backupSources)
+  mediaFiles: Record<string, DriveMediaFile>; // By file name
 }
 
-interface CacheMetadata {
-  key: string;
-  value: any;
+/**
+ * The chat folders (and private chat password hash) last listed in Drive
+ */
+export interface DriveChatList {
+  publicChats: ChatFolder[];
+  privateChats: ChatFolder[];
+  passwordHash: string | null;
 }
 
-class ChatCacheService {
-  private db: IDBDatabase | null = null;
-  private initPromise: Promise<void> | null = null;
-
-  /**
-   * Initialize IndexedDB
-   */
-  async init(): Promise<void> {
-    if (this.db) return;
-    if (this.initPromise) return this.initPromise;
-
-    this.initPromise = new Promise((resolve, reject) => {
-      const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-      request.onerror = () => {
-        console.error('Failed to open IndexedDB:', request.error);
-        reject(request.error);
-      };
-
-      request.onsuccess = async () => {
-        this.db = request.result;
-        console.log('[ChatCache] IndexedDB initialized');
-
-        // Check cache version and clear if old
-        try {
-          const storedVersion = await this.getMetadata(CACHE_VERSION_KEY);
-          if (storedVersion !== CURRENT_CACHE_VERSION) {
-            console.log(`[ChatCache] Old cache version detected (${storedVersion || 'none'}), clearing all data...`);
-            await this.clearAll();
-            await this.setMetadata(CACHE_VERSION_KEY, CURRENT_CACHE_VERSION);
-            console.log('[ChatCache] Cache cleared and version updated to', CURRENT_CACHE_VERSION);
-          }
-        } catch (err) {
-          console.error('[ChatCache] Failed to check/update cache version:', err);
-        }
+/**
+ * Keeps only what a cached message needs: text and how to load its media
+ * (no blob URLs, no reactions)
+ */
+export function toCachedMessages(messages: Message[]): Message[] {
+  return messages.map(msg => {
+    // Build clean message with only essential fields
+    const cleaned: Message = {
+      id: msg.id,
+      timestamp: msg.timestamp,
+      sender: msg.sender,
+      type: msg.type,
+      content: msg.content || '',
+      isOutgoing: msg.isOutgoing,
+    };
 
-        resolve();
+    // Add media fields only if they exist
+    if (msg.driveFileId) cleaned.driveFileId = msg.driveFileId;
+    if (msg.thumbnailUrl) cleaned.thumbnailUrl = msg.thumbnailUrl;
+    if (msg.mediaFileName) cleaned.mediaFileName = msg.mediaFileName;
+    if (msg.mediaMimeType) cleaned.mediaMimeType = msg.mediaMimeType;
+    if (msg.mediaSize) cleaned.mediaSize = msg.mediaSize;
+
+    // Add optional fields only if they exist
+    if (msg.isDeleted) cleaned.isDeleted = msg.isDeleted;
+    if (msg.isEdited) cleaned.isEdited = msg.isEdited;
+    if (msg.callDuration) cleaned.callDuration = msg.callDuration;
+    if (msg.callKind) cleaned.callKind = msg.callKind;
+    if (msg.callMissed) cleaned.callMissed = msg.callMissed;
+    if (msg.systemType) cleaned.systemType = msg.systemType;
+    if (msg.systemActor) cleaned.systemActor = msg.systemActor;
+    if (msg.systemTargets) cleaned.systemTargets = msg.systemTargets;
+    if (msg.systemSubject) cleaned.systemSubject = msg.systemSubject;
+    if (msg.sourceBackups) cleaned.sourceBackups = msg.sourceBackups;
+
+    // Clean quoted message - only text, no media blobs
+    if (msg.quotedMessage) {
+      cleaned.quotedMessage = {
+        sender: msg.quotedMessage.sender,
+        content: msg.quotedMessage.content || '',
       };
+    }
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const oldVersion = event.oldVersion;
-
-        console.log(`[ChatCache] Upgrading database from version ${oldVersion} to ${DB_VERSION}`);
-
-        // If upgrading from old version, clear everything
-        if (oldVersion > 0) {
-          // Delete old stores if they exist
-          if (db.objectStoreNames.contains(CHAT_STORE)) {
-            db.deleteObjectStore(CHAT_STORE);
-            console.log('[ChatCache] Deleted old chats store');
-          }
-          if (db.objectStoreNames.contains(METADATA_STORE)) {
-            db.deleteObjectStore(METADATA_STORE);
-            console.log('[ChatCache] Deleted old metadata store');
-          }
-        }
-
-        // Create fresh stores
-        const chatStore = db.createObjectStore(CHAT_STORE, { keyPath: 'id' });
-        chatStore.createIndex('cachedAt', 'cachedAt', { unique: false });
-        console.log('[ChatCache] Created chats store');
-
-        db.createObjectStore(METADATA_STORE, { keyPath: 'key' });
-        console.log('[ChatCache] Created metadata store');
-
-        // Set version in the transaction
-        const transaction = (event.target as IDBOpenDBRequest).transaction;
-        if (transaction) {
-          const store = transaction.objectStore(METADATA_STORE);
-          store.put({ key: CACHE_VERSION_KEY, value: CURRENT_CACHE_VERSION });
-          console.log('[ChatCache] Set cache version to', CURRENT_CACHE_VERSION);
-        }
-      };
-    });
+    // Skip reactions for now - might have large data
+    return cleaned;
+  });
+}
 
-    return this.initPromise;
+class ChatCacheService {
+  /**
+   * Initialize storage
+   */
+  async init(): Promise<void> {
+    await storage.init();
   }
 
   /**
    * Save a chat to cache
    */
   async saveChat(chat: Chat): Promise<void> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    const cachedChat: CachedChat = {
-      ...chat,
-      cachedAt: Date.now(),
-    };
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CHAT_STORE], 'readwrite');
-      const store = transaction.objectStore(CHAT_STORE);
-      const request = store.put(cachedChat);
-
-      request.onsuccess = () => {
-        console.log(`[ChatCache] Saved chat: ${chat.name} (${chat.messages.length} messages)`);
-        resolve();
-      };
+    const size = estimateRecordSize(chat);
+    if (!(await storage.ensureSpace(size))) {
+      console.warn(`[ChatCache] No room to cache chat: ${chat.name}`);
+      return;
+    }
 
-      request.onerror = () => {
-        console.error('[ChatCache] Failed to save chat:', request.error);
-        reject(request.error);
-      };
-    });
+    try {
+      const tx = await storage.transaction([STORES.ENTRIES, STORES.CHATS], 'readwrite');
+      tx.objectStore(STORES.CHATS).put(chat);
+      storage.putEntry(tx, STORES.CHATS, chat.id, 'chat', size, chat.messages.length);
+      await transactionDone(tx);
+      console.log(`[ChatCache] Saved chat: ${chat.name} (${chat.messages.length} messages)`);
+      searchIndex.indexChat(chat, 'drive');
+    } catch (err) {
+      console.error('[ChatCache] Failed to save chat:', err);
+      throw err;
+    }
   }
 
   /**
    * Get a chat from cache
    */
   async getChat(chatId: string): Promise<Chat | null> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
+    const tx = await storage.transaction([STORES.CHATS]);
+    const chat = await requestResult(tx.objectStore(STORES.CHATS).get(chatId)) as Chat | undefined;
+    if (!chat) return null;
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CHAT_STORE], 'readonly');
-      const store = transaction.objectStore(CHAT_STORE);
-      const request = store.get(chatId);
+    console.log(`[ChatCache] Retrieved chat from cache: ${chat.name}`);
+    storage.touch(STORES.CHATS, chatId);
+    return chat;
+  }
 
-      request.onsuccess = () => {
-        const cachedChat = request.result as CachedChat | undefined;
-        if (cachedChat) {
-          // Remove cache metadata before returning
-          const { cachedAt, ...chat } = cachedChat;
-          console.log(`[ChatCache] Retrieved chat from cache: ${chat.name}`);
-          resolve(chat);
-        } else {
-          resolve(null);
-        }
-      };
+  /**
+   * Whether a chat is cached (without reading it)
+   */
+  async hasChat(chatId: string): Promise<boolean> {
+    const tx = await storage.transaction([STORES.CHATS]);
+    return (await requestResult(tx.objectStore(STORES.CHATS).count(chatId))) > 0;
+  }
 
-      request.onerror = () => {
-        console.error('[ChatCache] Failed to get chat:', request.error);
-        reject(request.error);
-      };
-    });
+  /**
+   * IDs of all cached chats (without reading them)
+   */
+  async getCachedChatIds(): Promise<Set<string>> {
+    const tx = await storage.transaction([STORES.CHATS]);
+    const keys = await requestResult(tx.objectStore(STORES.CHATS).getAllKeys());
+    return new Set(keys.map(String));
   }
 
   /**
    * Get all cached chats
    */
   async getAllChats(): Promise<Chat[]> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CHAT_STORE], 'readonly');
-      const store = transaction.objectStore(CHAT_STORE);
-      const request = store.getAll();
-
-      request.onsuccess = () => {
-        const cachedChats = request.result as CachedChat[];
-        const chats = cachedChats.map(({ cachedAt, ...chat }) => chat);
-        console.log(`[ChatCache] Retrieved ${chats.length} chats from cache`);
-        resolve(chats);
-      };
-
-      request.onerror = () => {
-        console.error('[ChatCache] Failed to get all chats:', request.error);
-        reject(request.error);
-      };
-    });
+    const tx = await storage.transaction([STORES.CHATS]);
+    const chats = await requestResult(tx.objectStore(STORES.CHATS).getAll()) as Chat[];
+    console.log(`[ChatCache] Retrieved ${chats.length} chats from cache`);
+    return chats;
   }
 
   /**
    * Delete a chat from cache
    */
   async deleteChat(chatId: string): Promise<void> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CHAT_STORE], 'readwrite');
-      const store = transaction.objectStore(CHAT_STORE);
-      const request = store.delete(chatId);
-
-      request.onsuccess = () => {
-        console.log(`[ChatCache] Deleted chat: ${chatId}`);
-        resolve();
-      };
-
-      request.onerror = () => {
-        console.error('[ChatCache] Failed to delete chat:', request.error);
-        reject(request.error);
-      };
-    });
+    const tx = await storage.transaction([STORES.ENTRIES, STORES.CHATS, STORES.METADATA], 'readwrite');
+    tx.objectStore(STORES.CHATS).delete(chatId);
+    storage.deleteEntry(tx, STORES.CHATS, chatId);
+    tx.objectStore(STORES.METADATA).delete(SYNC_STATE_PREFIX + chatId);
+    await transactionDone(tx);
+    searchIndex.removeChat(chatId);
+    console.log(`[ChatCache] Deleted chat: ${chatId}`);
   }
 
   /**
-   * Clear all cached chats
+   * Drive files a cached chat was built from (null if unknown)
    */
-  async clearAll(): Promise<void> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([CHAT_STORE], 'readwrite');
-      const store = transaction.objectStore(CHAT_STORE);
-      const request = store.clear();
-
-      request.onsuccess = () => {
-        console.log('[ChatCache] Cleared all chats');
-        resolve();
-      };
-
-      request.onerror = () => {
-        console.error('[ChatCache] Failed to clear chats:', request.error);
-        reject(request.error);
-      };
-    });
+  async getSyncState(chatId: string): Promise<DriveSyncState | null> {
+    return storage.getMetadata<DriveSyncState>(SYNC_STATE_PREFIX + chatId);
   }
 
-  /**
-   * Get cache statistics
-   * Only counts text data (what would be in .txt files), NOT media
-   */
-  async getStats(): Promise<{ chatCount: number; messageCount: number; estimatedSize: string }> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    const chats = await this.getAllChats();
-    const messageCount = chats.reduce((sum, chat) => sum + chat.messages.length, 0);
-
-    // Calculate size of TEXT data only (equivalent to .txt files)
-    // Exclude media-related fields to get accurate chat text size
-    let textBytes = 0;
-    try {
-      for (const chat of chats) {
-        // Count only text fields, not media metadata
-        const textOnlyMessages = chat.messages.map(msg => ({
-          id: msg.id,
-          timestamp: msg.timestamp,
-          sender: msg.sender,
-          type: msg.type,
-          content: msg.content || '', // This is the actual text content
-          isOutgoing: msg.isOutgoing,
-          // Skip all media fields - they're counted separately in media cache
-          // driveFileId, thumbnailUrl, mediaFileName, mediaMimeType, mediaSize
-          quotedMessage: msg.quotedMessage ? {
-            sender: msg.quotedMessage.sender,
-            content: msg.quotedMessage.content || '',
-          } : undefined,
-          isDeleted: msg.isDeleted,
-          isEdited: msg.isEdited,
-        }));
-
-        const textOnlyChat = {
-          id: chat.id,
-          name: chat.name,
-          messages: textOnlyMessages,
-          participants: chat.participants,
-          isGroup: chat.isGroup,
-        };
-
-        const json = JSON.stringify(textOnlyChat);
-        textBytes += new Blob([json]).size;
-      }
-    } catch (err) {
-      console.error('[ChatCache] Failed to calculate size:', err);
-      // Fallback: estimate based on average message content length
-      // .txt files have: timestamp + sender + content
-      textBytes = messageCount * 150; // ~150 bytes per message for text only
-    }
-
-    const estimatedSize = textBytes < 1024
-      ? `${textBytes} B`
-      : textBytes < 1024 * 1024
-      ? `${(textBytes / 1024).toFixed(1)} KB`
-      : `${(textBytes / (1024 * 1024)).toFixed(1)} MB`;
-
-    return {
-      chatCount: chats.length,
-      messageCount,
-      estimatedSize,
-    };
+  async saveSyncState(chatId: string, state: DriveSyncState): Promise<void> {
+    await storage.setMetadata(SYNC_STATE_PREFIX + chatId, state);
   }
 
   /**
-   * Set metadata value
+   * Drive changes feed position of the last sync (null before the first one)
    */
-  async setMetadata(key: string, value: any): Promise<void> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([METADATA_STORE], 'readwrite');
-      const store = transaction.objectStore(METADATA_STORE);
-      const request = store.put({ key, value });
+  async getChangesToken(): Promise<string | null> {
+    return storage.getMetadata<string>(CHANGES_TOKEN_KEY);
+  }
 
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+  async saveChangesToken(token: string): Promise<void> {
+    await storage.setMetadata(CHANGES_TOKEN_KEY, token);
   }
 
   /**
-   * Get metadata value
+   * The last Drive chat listing (null if never listed)
    */
-  async getMetadata(key: string): Promise<any> {
-    await this.init();
-    if (!this.db) throw new Error('DB not initialized');
-
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([METADATA_STORE], 'readonly');
-      const store = transaction.objectStore(METADATA_STORE);
-      const request = store.get(key);
+  async getChatList(): Promise<DriveChatList | null> {
+    return storage.getMetadata<DriveChatList>(CHAT_LIST_KEY);
+  }
 
-      request.onsuccess = () => {
-        const result = request.result as CacheMetadata | undefined;
-        resolve(result?.value || null);
-      };
-      request.onerror = () => reject(request.error);
-    });
+  async saveChatList(chatList: DriveChatList): Promise<void> {
+    await storage.setMetadata(CHAT_LIST_KEY, chatList);
   }
 }
 
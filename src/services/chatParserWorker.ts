@@ -0,0 +1,132 @@
+/**
+ * Chat Parser Worker Service
+ * Main-thread side of the parser worker: queues parse requests, forwards
+ * previews and progress to callbacks, and falls back to parsing on the main
+ * thread where workers are unavailable
+ */
+
+import type { Chat, ChatParseResult, MediaFile, ParseProgress } from '../types';
+import type { ParseRequest, ParseResponse } from '../workers/chatParser.worker';
+import { parseChatBlob } from '../utils/chatParser';
+import { getUserIdentity } from '../config/userIdentity';
+import { getContacts } from '../config/contactBook';
+
+export interface ParseCallbacks {
+  onPreview?: (chat: Chat) => void; // Newest messages, before the full parse finishes
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+interface PendingParse {
+  callbacks: ParseCallbacks;
+  resolve: (result: ChatParseResult) => void;
+  reject: (error: Error) => void;
+  parseOnMainThread: () => Promise<ChatParseResult>;
+}
+
+class ChatParserWorkerService {
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingParse>();
+
+  /**
+   * Parse a chat file in the worker, which reads it in chunks.
+   * Resolves with the same result parseChatBlob would return.
+   */
+  async parse(
+    fileName: string,
+    file: Blob,
+    mediaFiles: MediaFile[],
+    callbacks: ParseCallbacks = {}
+  ): Promise<ChatParseResult> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return parseChatBlob(fileName, file, mediaFiles, { onProgress: callbacks.onProgress });
+    }
+
+    const requestId = this.nextRequestId++;
+    const request: ParseRequest = {
+      requestId,
+      fileName,
+      file,
+      mediaFiles,
+      identity: getUserIdentity(),
+      contacts: getContacts(),
+      preview: Boolean(callbacks.onPreview),
+    };
+
+    return new Promise<ChatParseResult>((resolve, reject) => {
+      this.pending.set(requestId, {
+        callbacks,
+        resolve,
+        reject,
+        parseOnMainThread: () => parseChatBlob(fileName, file, mediaFiles, { onProgress: callbacks.onProgress }),
+      });
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/chatParser.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<ParseResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener('error', (event) => this.handleWorkerError(event));
+      console.log('[ChatParserWorker] Worker started');
+    } catch (err) {
+      console.warn('[ChatParserWorker] Worker unavailable, parsing on main thread:', err);
+      this.workerFailed = true;
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: ParseResponse): void {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+
+    switch (response.type) {
+      case 'preview':
+        pending.callbacks.onPreview?.(response.chat);
+        break;
+      case 'progress':
+        pending.callbacks.onProgress?.(response.progress);
+        break;
+      case 'done':
+        this.pending.delete(response.requestId);
+        pending.resolve(response.result);
+        break;
+      case 'error':
+        this.pending.delete(response.requestId);
+        pending.reject(new Error(response.error));
+        break;
+    }
+  }
+
+  /**
+   * The worker script failed to load or crashed: finish in-flight requests
+   * and all later ones on the main thread
+   */
+  private handleWorkerError(event: ErrorEvent): void {
+    console.error('[ChatParserWorker] Worker error:', event.message);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const inFlight = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const pending of inFlight) {
+      pending.parseOnMainThread()
+        .then(pending.resolve)
+        .catch(err => pending.reject(err instanceof Error ? err : new Error('Failed to parse chat')));
+    }
+  }
+}
+
+// Export singleton instance
+export const chatParserWorker = new ChatParserWorkerService();
@@ -4,7 +4,8 @@
  */
 
 import { DRIVE_ROOT_FOLDER, DRIVE_FOLDERS, PASSWORD_HASH_FILE } from '../config/googleDrive';
-import { getCachedImage, cacheImage } from './cacheService';
+import { mediaCache } from './mediaCache';
+import type { MediaFile } from '../types';
 
 export interface DriveFile {
   id: string;
@@ -30,6 +31,37 @@ export interface ChatFolder {
   isPrivate: boolean;
 }
 
+/**
+ * A chat export (_chat.txt) in one backup folder
+ */
+export interface DriveChatText {
+  fileId: string;
+  name: string;
+  backupName: string;
+  modifiedTime: string;
+  size?: string;
+}
+
+/**
+ * A media file of a chat, loaded on demand by id
+ */
+export interface DriveMediaFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  size?: string;
+  thumbnailLink?: string;
+}
+
+/**
+ * One entry of the Drive changes feed
+ */
+export interface DriveChange {
+  fileId: string;
+  removed: boolean; // Deleted, trashed, or no longer visible to this user
+  file?: DriveFile;
+}
+
 /**
  * Find a folder by name within a parent folder
  */
@@ -124,7 +156,7 @@ async function listFiles(parentId: string): Promise<DriveFile[]> {
 /**
  * Get file content as text
  */
-async function getFileContent(fileId: string): Promise<string> {
+export async function getFileContent(fileId: string): Promise<string> {
   try {
     const response = await gapi.client.drive.files.get({
       fileId,
@@ -139,9 +171,16 @@ async function getFileContent(fileId: string): Promise<string> {
 
 /**
  * Get file content as blob URL (for media)
- * Uses fetch with access token since gapi doesn't handle binary properly
  */
 async function getFileAsBlob(fileId: string, mimeType: string): Promise<string> {
+  return URL.createObjectURL(await fetchFileBlob(fileId, mimeType));
+}
+
+/**
+ * Download a file's content
+ * Uses fetch with access token since gapi doesn't handle binary properly
+ */
+export async function fetchFileBlob(fileId: string, mimeType: string): Promise<Blob> {
   const accessToken = gapi.client.getToken()?.access_token;
   if (!accessToken) {
     throw new Error('Not authenticated');
@@ -161,8 +200,18 @@ async function getFileAsBlob(fileId: string, mimeType: string): Promise<string>
   }
   
   const blob = await response.blob();
-  const typedBlob = new Blob([blob], { type: mimeType });
-  return URL.createObjectURL(typedBlob);
+  return new Blob([blob], { type: mimeType });
+}
+
+/**
+ * Download an image thumbnail (thumbnailLink from a file listing)
+ */
+export async function fetchThumbnailBlob(thumbnailLink: string): Promise<Blob> {
+  const response = await fetch(thumbnailLink);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch thumbnail: ${response.status}`);
+  }
+  return response.blob();
 }
 
 /**
@@ -255,41 +304,34 @@ export async function verifyPassword(password: string, storedHash: string): Prom
 }
 
 /**
- * Get all chat files from a chat folder (merges multiple backups)
+ * List the chat exports and media of a chat folder without downloading them
  */
-export async function getChatFiles(chatFolder: ChatFolder): Promise<{
-  chatTexts: Array<{ name: string; content: string; backupName: string }>;
-  mediaFiles: Map<string, { id: string; name: string; mimeType: string; size?: string; thumbnailLink?: string }>;
+export async function listChatFiles(chatFolder: ChatFolder): Promise<{
+  chatTexts: DriveChatText[];
+  mediaFiles: Map<string, DriveMediaFile>;
 }> {
-  const chatTexts: Array<{ name: string; content: string; backupName: string }> = [];
-  const mediaFiles = new Map<string, { id: string; name: string; mimeType: string; size?: string; thumbnailLink?: string }>();
+  const chatTexts: DriveChatText[] = [];
+  const mediaFiles = new Map<string, DriveMediaFile>();
 
   // Process each backup folder
   for (const backupFolder of chatFolder.backupFolders) {
     const files = await listFiles(backupFolder.id);
     
     for (const file of files) {
-      const lowerName = file.name.toLowerCase();
-      
       // Chat text files
-      if (lowerName.endsWith('.txt') && (lowerName.includes('chat') || lowerName === '_chat.txt')) {
-        const content = await getFileContent(file.id);
+      if (isChatTextFile(file.name)) {
         chatTexts.push({
+          fileId: file.id,
           name: file.name,
-          content,
           backupName: backupFolder.name,
+          modifiedTime: file.modifiedTime,
+          size: file.size,
         });
       }
       // Media files - dedupe by filename
       else if (isMediaFile(file.name)) {
         if (!mediaFiles.has(file.name)) {
-          mediaFiles.set(file.name, {
-            id: file.id,
-            name: file.name,
-            mimeType: file.mimeType,
-            size: file.size,
-            thumbnailLink: file.thumbnailLink,
-          });
+          mediaFiles.set(file.name, toDriveMediaFile(file));
         }
       }
     }
@@ -298,34 +340,136 @@ export async function getChatFiles(chatFolder: ChatFolder): Promise<{
   return { chatTexts, mediaFiles };
 }
 
+/**
+ * Get all chat files from a chat folder (merges multiple backups)
+ */
+export async function getChatFiles(chatFolder: ChatFolder): Promise<{
+  chatTexts: Array<DriveChatText & { file: Blob }>;
+  mediaFiles: Map<string, DriveMediaFile>;
+}> {
+  const { chatTexts, mediaFiles } = await listChatFiles(chatFolder);
+  const withContent: Array<DriveChatText & { file: Blob }> = [];
+  for (const chatText of chatTexts) {
+    withContent.push({ ...chatText, file: await fetchFileBlob(chatText.fileId, 'text/plain') });
+  }
+  return { chatTexts: withContent, mediaFiles };
+}
+
+/**
+ * Token for the current end of the changes feed (see listChanges)
+ */
+export async function getChangesStartPageToken(): Promise<string> {
+  const response = await gapi.client.drive.changes.getStartPageToken({});
+  if (!response.result.startPageToken) {
+    throw new Error('Drive returned no start page token');
+  }
+  return response.result.startPageToken;
+}
+
+/**
+ * Every file change since pageToken, and the token to continue from next time
+ */
+export async function listChanges(pageToken: string): Promise<{
+  changes: DriveChange[];
+  newStartPageToken: string;
+}> {
+  const changes: DriveChange[] = [];
+  let nextPageToken: string | undefined = pageToken;
+
+  while (nextPageToken) {
+    const response = await gapi.client.drive.changes.list({
+      pageToken: nextPageToken,
+      fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, mimeType, modifiedTime, size, parents, trashed, thumbnailLink))',
+      spaces: 'drive',
+      pageSize: 1000,
+      includeRemoved: true,
+    });
+
+    for (const change of response.result.changes || []) {
+      const file = change.file;
+      changes.push({
+        fileId: change.fileId!,
+        removed: !!change.removed || !!file?.trashed,
+        file: file && {
+          id: file.id!,
+          name: file.name!,
+          mimeType: file.mimeType!,
+          modifiedTime: file.modifiedTime!,
+          size: file.size,
+          parents: file.parents,
+          thumbnailLink: file.thumbnailLink,
+        },
+      });
+    }
+
+    if (response.result.newStartPageToken) {
+      console.log(`[DriveService] ${changes.length} changes since last sync`);
+      return { changes, newStartPageToken: response.result.newStartPageToken };
+    }
+    nextPageToken = response.result.nextPageToken;
+  }
+
+  // Every page either continues or ends the feed
+  throw new Error('Drive changes feed ended without a new start page token');
+}
+
+/**
+ * The part of a listed file kept to load it as media later
+ */
+export function toDriveMediaFile(file: DriveFile): DriveMediaFile {
+  return {
+    id: file.id,
+    name: file.name,
+    mimeType: file.mimeType,
+    size: file.size,
+    thumbnailLink: file.thumbnailLink,
+  };
+}
+
+/**
+ * Media list for the parser. Files load on demand, so there are no blobs
+ * or URLs yet; thumbnails are only used for images, not documents.
+ */
+export function toMediaLookup(mediaFiles: Iterable<DriveMediaFile>): MediaFile[] {
+  return Array.from(mediaFiles, fileInfo => ({
+    fileName: fileInfo.name,
+    url: '', // Always empty - load on demand
+    mimeType: fileInfo.mimeType,
+    size: fileInfo.size ? parseInt(fileInfo.size) : undefined,
+    blob: new Blob(), // Placeholder
+    driveFileId: fileInfo.id, // Store Drive ID for lazy loading
+    thumbnailLink: fileInfo.mimeType.startsWith('image/') ? fileInfo.thumbnailLink : undefined,
+  } as MediaFile & { driveFileId: string; thumbnailLink?: string }));
+}
+
+/**
+ * Check if a filename is a chat export (_chat.txt, "WhatsApp Chat with X.txt")
+ */
+export function isChatTextFile(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return lowerName.endsWith('.txt') && lowerName.includes('chat');
+}
+
 /**
  * Load a media file on demand (returns blob URL)
- * Uses IndexedDB cache for faster subsequent loads
+ * Uses the media cache for faster subsequent loads
  */
 export async function loadMediaFile(fileId: string, mimeType: string): Promise<string> {
   // Check cache first
-  try {
-    const cachedBlob = await getCachedImage(fileId);
-    if (cachedBlob) {
-      // Return cached blob as URL
-      return URL.createObjectURL(cachedBlob);
-    }
-  } catch {
-    // Cache miss or error, continue to fetch from Drive
+  const cachedUrl = await mediaCache.getCachedUrl(fileId);
+  if (cachedUrl) {
+    return cachedUrl;
   }
 
   // Fetch from Drive
   const url = await getFileAsBlob(fileId, mimeType);
   
-  // Cache the blob for future use (only for images to save space)
-  if (mimeType.startsWith('image/')) {
-    try {
-      const response = await fetch(url);
-      const blob = await response.blob();
-      await cacheImage(fileId, blob);
-    } catch {
-      // Caching failed, but we still have the URL
-    }
+  // Cache the blob for future use (LRU, see storage service)
+  try {
+    const response = await fetch(url);
+    await mediaCache.storeMedia(fileId, await response.blob());
+  } catch {
+    // Caching failed, but we still have the URL
   }
   
   return url;
@@ -334,7 +478,7 @@ export async function loadMediaFile(fileId: string, mimeType: string): Promise<s
 /**
  * Check if a filename is a media file
  */
-function isMediaFile(fileName: string): boolean {
+export function isMediaFile(fileName: string): boolean {
   const mediaExtensions = [
     // Images
     '.jpg', '.jpeg', '.png', '.gif', '.webp', '.bmp', '.heic', '.heif',
@@ -0,0 +1,291 @@
+/**
+ * Drive Sync
+ * Builds Drive chats into the chat cache, and brings cached chats up to date
+ * from the Drive changes feed, so a refresh only downloads the exports and
+ * media that changed since the last one
+ *
+ * - A new or re-exported _chat.txt is parsed and merged into the cached
+ *   chat (see mergeIntoChat); the chat's other backups aren't re-read
+ * - New media joins the chat's media list and is attached to messages
+ *   that were waiting for it ("[Media not found: ...]")
+ * - A removed export drops the cached chat, which is rebuilt on next open
+ * - Chats that aren't cached are skipped: they load in full when opened
+ */
+
+import type { Chat, Message, ParseProgress } from '../types';
+import {
+  fetchFileBlob,
+  getChatFiles,
+  getChangesStartPageToken,
+  listChanges,
+  isChatTextFile,
+  isMediaFile,
+  toDriveMediaFile,
+  toMediaLookup,
+  type ChatFolder,
+  type DriveChange,
+  type DriveFile,
+  type DriveMediaFile,
+} from './driveService';
+import { chatCache, toCachedMessages } from './chatCache';
+import { chatParserWorker } from './chatParserWorker';
+import { mergeChatBackups, mergeIntoChat, type ChatBackupPart } from '../utils/chatMerger';
+import { getMessageTypeFromMime } from '../utils/chatParser';
+import { findUnreferencedMedia } from '../utils/timelineBuilder';
+
+// What the parser writes for an attachment that wasn't uploaded (yet)
+const MISSING_MEDIA_PATTERN = /^\[Media not found: (.+)\]$/;
+
+/**
+ * A changed file of one chat, with the backup folder it is in
+ */
+interface ChatFileChange {
+  file: DriveFile;
+  backupName: string;
+}
+
+/**
+ * Download, parse and merge every backup of a chat, and cache it with the
+ * files it came from. Returns null if the folder has no chat export.
+ * onPreview receives the newest messages while a large chat is still parsing.
+ */
+export async function fetchDriveChat(
+  chatFolder: ChatFolder,
+  callbacks: {
+    onPreview?: (chat: Chat) => void;
+    onProgress?: (progress: ParseProgress) => void;
+  } = {}
+): Promise<Chat | null> {
+  const { onPreview, onProgress } = callbacks;
+  const { chatTexts, mediaFiles } = await getChatFiles(chatFolder);
+  if (chatTexts.length === 0) return null;
+
+  // Create media file lookup (lazy loading)
+  const mediaLookup = toMediaLookup(mediaFiles.values());
+
+  // Parse all chat files in the parser worker
+  const parts: ChatBackupPart[] = [];
+  let latestPreviewAt = 0;
+
+  for (const [fileIndex, chatText] of chatTexts.entries()) {
+    const { chat } = await chatParserWorker.parse(chatText.name, chatText.file, mediaLookup, {
+      // With several backups, show whichever preview reaches furthest
+      onPreview: onPreview && (preview => {
+        const previewEnd = preview.messages[preview.messages.length - 1].timestamp.getTime();
+        if (previewEnd <= latestPreviewAt) return;
+        latestPreviewAt = previewEnd;
+        onPreview({ ...preview, id: chatFolder.id, name: chatFolder.name });
+      }),
+      onProgress: onProgress && (progress => onProgress({ ...progress, fileIndex, fileCount: chatTexts.length })),
+    });
+    parts.push({
+      messages: chat.messages,
+      // Add id to participants
+      participants: chat.participants.map((p, idx) => ({ ...p, id: `${chatFolder.id}-${idx}` })),
+      isGroup: chat.isGroup,
+      fileName: chatText.name,
+      backupName: chatText.backupName,
+    });
+  }
+
+  // Merge and dedupe (overlapping backups are aligned, see chatMerger)
+  const merged = mergeChatBackups(parts);
+
+  const fullChat: Chat = {
+    id: chatFolder.id,
+    name: chatFolder.name,
+    ...merged,
+    // Media no message points to hints at history missing from every backup
+    unreferencedMedia: findUnreferencedMedia(merged.messages, Array.from(mediaFiles.keys())),
+  };
+
+  // Save to the chat cache - only text data, plus the files it came from
+  // so a later refresh only fetches what changed
+  await chatCache.saveChat({ ...fullChat, messages: toCachedMessages(fullChat.messages) });
+  await chatCache.saveSyncState(chatFolder.id, {
+    chatTexts: chatTexts.map(({ fileId, name, backupName, modifiedTime, size }) => ({
+      fileId, name, backupName, modifiedTime, size,
+    })),
+    mediaFiles: Object.fromEntries(mediaFiles),
+  });
+  console.log(`[DriveSync] Cached ${fullChat.messages.length} messages for "${fullChat.name}"`);
+
+  // The full merged messages (with media URLs) for immediate display
+  return fullChat;
+}
+
+// Overlapping refreshes share one sync instead of applying the same changes twice
+let syncInProgress: Promise<string[]> | null = null;
+
+/**
+ * Apply every Drive change since the last sync to the cached chats.
+ * Returns the ids of chats whose cached copy changed (updated or dropped).
+ */
+export function syncDriveChanges(chatFolders: ChatFolder[]): Promise<string[]> {
+  syncInProgress ??= applyChangesSinceLastSync(chatFolders).finally(() => {
+    syncInProgress = null;
+  });
+  return syncInProgress;
+}
+
+async function applyChangesSinceLastSync(chatFolders: ChatFolder[]): Promise<string[]> {
+  const token = await chatCache.getChangesToken();
+  if (!token) {
+    // First sync: start following the feed from here
+    await chatCache.saveChangesToken(await getChangesStartPageToken());
+    return [];
+  }
+
+  const { changes, newStartPageToken } = await listChanges(token);
+  const updatedChatIds: string[] = [];
+
+  if (changes.length > 0) {
+    const fileChanges = groupChangesByChat(chatFolders, changes);
+    const removedFileIds = new Set(changes.filter(change => change.removed).map(change => change.fileId));
+
+    for (const chatFolder of chatFolders) {
+      const chatChanges = fileChanges.get(chatFolder.id) ?? [];
+      if (chatChanges.length === 0 && removedFileIds.size === 0) continue;
+
+      try {
+        if (await syncChat(chatFolder, chatChanges, removedFileIds)) {
+          updatedChatIds.push(chatFolder.id);
+        }
+      } catch (err) {
+        // Rebuilt in full on next open rather than left half-synced
+        console.error(`[DriveSync] Failed to sync "${chatFolder.name}":`, err);
+        await chatCache.deleteChat(chatFolder.id);
+        updatedChatIds.push(chatFolder.id);
+      }
+    }
+  }
+
+  await chatCache.saveChangesToken(newStartPageToken);
+  console.log(`[DriveSync] ${changes.length} changes, ${updatedChatIds.length} chats updated`);
+  return updatedChatIds;
+}
+
+/**
+ * Changed (not removed) files by chat, via the backup folder they are in
+ */
+function groupChangesByChat(chatFolders: ChatFolder[], changes: DriveChange[]): Map<string, ChatFileChange[]> {
+  const backupFolders = new Map<string, { chatId: string; backupName: string }>();
+  for (const chatFolder of chatFolders) {
+    for (const backupFolder of chatFolder.backupFolders) {
+      backupFolders.set(backupFolder.id, { chatId: chatFolder.id, backupName: backupFolder.name });
+    }
+  }
+
+  const byChat = new Map<string, ChatFileChange[]>();
+  for (const { removed, file } of changes) {
+    if (removed || !file) continue;
+    const backupFolder = file.parents?.map(id => backupFolders.get(id)).find(Boolean);
+    if (!backupFolder) continue;
+
+    if (!byChat.has(backupFolder.chatId)) byChat.set(backupFolder.chatId, []);
+    byChat.get(backupFolder.chatId)!.push({ file, backupName: backupFolder.backupName });
+  }
+  return byChat;
+}
+
+/**
+ * Apply one chat's changes to its cached copy. Returns true if it changed.
+ */
+async function syncChat(
+  chatFolder: ChatFolder,
+  changes: ChatFileChange[],
+  removedFileIds: Set<string>
+): Promise<boolean> {
+  const syncState = await chatCache.getSyncState(chatFolder.id);
+  const touchesChat = changes.length > 0 || syncState?.chatTexts.some(text => removedFileIds.has(text.fileId));
+  if (!touchesChat) return false;
+
+  const cachedChat = await chatCache.getChat(chatFolder.id);
+  if (!cachedChat) return false;
+
+  // Cached before sync state was kept, or an export is gone: rebuild on next open
+  if (!syncState || syncState.chatTexts.some(text => removedFileIds.has(text.fileId))) {
+    console.log(`[DriveSync] Dropping cached "${chatFolder.name}", it is rebuilt on next open`);
+    await chatCache.deleteChat(chatFolder.id);
+    return true;
+  }
+
+  // Media first, so re-exported messages find their files
+  const newMedia: DriveMediaFile[] = [];
+  for (const { file } of changes) {
+    if (isChatTextFile(file.name) || !isMediaFile(file.name) || syncState.mediaFiles[file.name]) continue;
+    syncState.mediaFiles[file.name] = toDriveMediaFile(file);
+    newMedia.push(syncState.mediaFiles[file.name]);
+  }
+
+  const changedTexts = changes.filter(({ file }) =>
+    isChatTextFile(file.name) &&
+    syncState.chatTexts.find(text => text.fileId === file.id)?.modifiedTime !== file.modifiedTime
+  );
+  if (newMedia.length === 0 && changedTexts.length === 0) return false;
+
+  let chat: Chat = cachedChat;
+  const mediaLookup = toMediaLookup(Object.values(syncState.mediaFiles));
+
+  for (const { file, backupName } of changedTexts) {
+    const content = await fetchFileBlob(file.id, 'text/plain');
+    const { chat: parsed } = await chatParserWorker.parse(file.name, content, mediaLookup);
+    const knownParts = syncState.chatTexts.map(text => ({ fileName: text.name, backupName: text.backupName }));
+
+    const { addedCount, ...merged } = mergeIntoChat(chat, knownParts, {
+      messages: parsed.messages,
+      participants: parsed.participants,
+      isGroup: parsed.isGroup,
+      fileName: file.name,
+      backupName,
+    });
+    chat = {
+      ...chat,
+      ...merged,
+      participants: merged.participants.map((p, idx) => ({ ...p, id: `${chatFolder.id}-${idx}` })),
+    };
+
+    const chatText = { fileId: file.id, name: file.name, backupName, modifiedTime: file.modifiedTime, size: file.size };
+    const knownIndex = syncState.chatTexts.findIndex(text => text.name === file.name && text.backupName === backupName);
+    if (knownIndex === -1) {
+      syncState.chatTexts.push(chatText);
+    } else {
+      syncState.chatTexts[knownIndex] = chatText;
+    }
+    console.log(`[DriveSync] ${backupName}/${file.name}: ${addedCount} new messages in "${chatFolder.name}"`);
+  }
+
+  const messages = attachMedia(chat.messages, newMedia);
+  await chatCache.saveChat({
+    ...chat,
+    messages: toCachedMessages(messages),
+    unreferencedMedia: findUnreferencedMedia(messages, Object.keys(syncState.mediaFiles)),
+  });
+  await chatCache.saveSyncState(chatFolder.id, syncState);
+  return true;
+}
+
+/**
+ * Turn "[Media not found: X]" placeholders into media messages once X arrives
+ */
+function attachMedia(messages: Message[], newMedia: DriveMediaFile[]): Message[] {
+  if (newMedia.length === 0) return messages;
+  const byName = new Map(newMedia.map(media => [media.name.toLowerCase(), media]));
+
+  return messages.map(msg => {
+    const fileName = msg.type === 'text' ? msg.content.match(MISSING_MEDIA_PATTERN)?.[1] : undefined;
+    const media = fileName && byName.get(fileName.trim().toLowerCase());
+    if (!media) return msg;
+
+    return {
+      ...msg,
+      type: getMessageTypeFromMime(media.mimeType),
+      content: '',
+      mediaFileName: media.name,
+      mediaMimeType: media.mimeType,
+      mediaSize: media.size ? parseInt(media.size) : undefined,
+      driveFileId: media.id,
+      thumbnailUrl: media.mimeType.startsWith('image/') ? media.thumbnailLink : undefined,
+    };
+  });
+}
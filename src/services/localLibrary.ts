@@ -0,0 +1,231 @@
+/**
+ * Local Library Service
+ * Keeps chats imported from local ZIP files across reloads (in the storage
+ * service; library records are never evicted)
+ *
+ * Two stores:
+ * - library_exports: every imported _chat.txt as parsed, grouped by chat
+ *   name, so a later import of the same chat can be merged with all earlier ones
+ * - library_chats: the merged chat shown in the chat list
+ *
+ * Only text is stored. Media stays inside the imported files, which are
+ * gone after a reload, unless it was also copied into the mediaCache
+ * (messages then carry its mediaHash, see setMediaHashes). That copy is
+ * deleted with the last chat that uses it.
+ */
+
+import type { Chat, Message } from '../types';
+import { storage, STORES, requestResult, transactionDone, estimateRecordSize } from './storage';
+import { searchIndex } from './searchIndex';
+import { mediaCache } from './mediaCache';
+
+/**
+ * One imported chat export
+ */
+export interface LocalExport {
+  id: string; // "<chat key>/<backup name>/<file name>"
+  chatKey: string; // Exports with the same key are merged into one chat
+  fileName: string;
+  backupName: string; // ZIP (or folder) the export came from
+  importedAt: number;
+  chat: Chat;
+}
+
+/**
+ * Drops fields that only mean something while the imported file is open
+ */
+export function toStoredMessages(messages: Message[]): Message[] {
+  return messages.map(msg => ({
+    ...msg,
+    mediaUrl: undefined,
+    zipMediaKey: undefined,
+  }));
+}
+
+class LocalLibraryService {
+  /**
+   * All merged library chats
+   */
+  async getAllChats(): Promise<Chat[]> {
+    const tx = await storage.transaction([STORES.LIBRARY_CHATS]);
+    const chats = await requestResult(tx.objectStore(STORES.LIBRARY_CHATS).getAll()) as Chat[];
+    console.log(`[LocalLibrary] Loaded ${chats.length} chats`);
+    return chats;
+  }
+
+  /**
+   * Every stored export of one chat
+   */
+  async getExports(chatKey: string): Promise<LocalExport[]> {
+    const tx = await storage.transaction([STORES.LIBRARY_EXPORTS]);
+    const index = tx.objectStore(STORES.LIBRARY_EXPORTS).index('chatKey');
+    return await requestResult(index.getAll(chatKey)) as LocalExport[];
+  }
+
+  /**
+   * Stores new exports and the merged chats they went into, in one transaction
+   */
+  async saveImport(exports: LocalExport[], chats: Chat[]): Promise<void> {
+    const tx = await storage.transaction(
+      [STORES.ENTRIES, STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS],
+      'readwrite'
+    );
+
+    for (const exp of exports) {
+      this.putExport(tx, { ...exp, chat: { ...exp.chat, messages: toStoredMessages(exp.chat.messages) } });
+    }
+    for (const chat of chats) {
+      this.putChat(tx, { ...chat, messages: toStoredMessages(chat.messages) });
+    }
+
+    try {
+      await transactionDone(tx);
+      console.log(`[LocalLibrary] Saved ${exports.length} exports, ${chats.length} chats`);
+      chats.forEach(chat => searchIndex.indexChat(chat, 'local'));
+    } catch (err) {
+      console.error('[LocalLibrary] Failed to save import:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Replace a stored chat's metadata (e.g. excluded backups), keeping its messages
+   */
+  async updateChat(chatId: string, changes: Partial<Omit<Chat, 'id' | 'messages'>>): Promise<Chat | null> {
+    const tx = await storage.transaction([STORES.ENTRIES, STORES.LIBRARY_CHATS], 'readwrite');
+    const request = tx.objectStore(STORES.LIBRARY_CHATS).get(chatId);
+    let updated: Chat | null = null;
+
+    request.onsuccess = () => {
+      if (!request.result) return;
+      updated = { ...(request.result as Chat), ...changes };
+      this.putChat(tx, updated);
+    };
+
+    await transactionDone(tx);
+    // Excluded backups change which messages the chat shows
+    if (updated) searchIndex.indexChat(updated, 'local');
+    return updated;
+  }
+
+  /**
+   * Record where each media file of a chat was stored in the mediaCache,
+   * on the merged chat and every export of it (so later merges keep it)
+   */
+  async setMediaHashes(chatId: string, chatKey: string, hashes: Map<string, string>): Promise<void> {
+    const withHashes = (messages: Message[]) => messages.map(msg => {
+      const mediaHash = msg.mediaFileName && hashes.get(msg.mediaFileName);
+      return mediaHash ? { ...msg, mediaHash } : msg;
+    });
+
+    const tx = await storage.transaction(
+      [STORES.ENTRIES, STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS],
+      'readwrite'
+    );
+
+    const chatRequest = tx.objectStore(STORES.LIBRARY_CHATS).get(chatId);
+    chatRequest.onsuccess = () => {
+      const chat = chatRequest.result as Chat | undefined;
+      if (chat) this.putChat(tx, { ...chat, messages: withHashes(chat.messages) });
+    };
+
+    const exportsRequest = tx.objectStore(STORES.LIBRARY_EXPORTS).index('chatKey').getAll(chatKey);
+    exportsRequest.onsuccess = () => {
+      for (const exp of exportsRequest.result as LocalExport[]) {
+        this.putExport(tx, { ...exp, chat: { ...exp.chat, messages: withHashes(exp.chat.messages) } });
+      }
+    };
+
+    await transactionDone(tx);
+    console.log(`[LocalLibrary] Saved ${hashes.size} media hashes for ${chatId}`);
+  }
+
+  /**
+   * Remove a chat and all exports that went into it
+   */
+  async deleteChat(chatId: string, chatKey: string): Promise<void> {
+    const mediaHashes = await this.getUnsharedMediaHashes(chatId);
+
+    const tx = await storage.transaction(
+      [STORES.ENTRIES, STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS],
+      'readwrite'
+    );
+    tx.objectStore(STORES.LIBRARY_CHATS).delete(chatId);
+    storage.deleteEntry(tx, STORES.LIBRARY_CHATS, chatId);
+
+    const exportStore = tx.objectStore(STORES.LIBRARY_EXPORTS);
+    const keysRequest = exportStore.index('chatKey').getAllKeys(chatKey);
+    keysRequest.onsuccess = () => {
+      for (const key of keysRequest.result) {
+        exportStore.delete(key);
+        storage.deleteEntry(tx, STORES.LIBRARY_EXPORTS, String(key));
+      }
+    };
+
+    await transactionDone(tx);
+    searchIndex.removeChat(chatId);
+    await mediaCache.deleteLocalMedia(mediaHashes);
+    console.log(`[LocalLibrary] Deleted chat: ${chatId}`);
+  }
+
+  /**
+   * Remove everything from the library
+   */
+  async clear(): Promise<void> {
+    const tx = await storage.transaction(
+      [STORES.ENTRIES, STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS],
+      'readwrite'
+    );
+
+    for (const store of [STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS] as const) {
+      const keysRequest = tx.objectStore(store).getAllKeys();
+      keysRequest.onsuccess = () => {
+        for (const key of keysRequest.result) storage.deleteEntry(tx, store, String(key));
+        tx.objectStore(store).clear();
+      };
+    }
+
+    await transactionDone(tx);
+    searchIndex.removeSource('local');
+    await mediaCache.clearLocalMedia();
+    console.log('[LocalLibrary] Cleared library');
+  }
+
+  /**
+   * Media hashes of a chat that no other library chat uses (the same file
+   * can be in several chats, and is stored once)
+   */
+  private async getUnsharedMediaHashes(chatId: string): Promise<string[]> {
+    const tx = await storage.transaction([STORES.LIBRARY_CHATS]);
+    const own = new Set<string>();
+    const shared = new Set<string>();
+
+    const cursorRequest = tx.objectStore(STORES.LIBRARY_CHATS).openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const chat = cursor.value as Chat;
+      const hashes = chat.id === chatId ? own : shared;
+      for (const msg of chat.messages) {
+        if (msg.mediaHash) hashes.add(msg.mediaHash);
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(tx);
+    return Array.from(own).filter(hash => !shared.has(hash));
+  }
+
+  private putExport(tx: IDBTransaction, exp: LocalExport): void {
+    tx.objectStore(STORES.LIBRARY_EXPORTS).put(exp);
+    storage.putEntry(tx, STORES.LIBRARY_EXPORTS, exp.id, 'library', estimateRecordSize(exp));
+  }
+
+  private putChat(tx: IDBTransaction, chat: Chat): void {
+    tx.objectStore(STORES.LIBRARY_CHATS).put(chat);
+    storage.putEntry(tx, STORES.LIBRARY_CHATS, chat.id, 'library', estimateRecordSize(chat), chat.messages.length);
+  }
+}
+
+// Export singleton instance
+export const localLibrary = new LocalLibraryService();
@@ -1,353 +1,190 @@
 /**
  * Media Cache Service
- * Implements LRU (Least Recently Used) cache for images/videos
- * Target: ~2GB max storage with smart eviction
+ * Keeps media blobs in the storage service, which evicts the least recently
+ * used ones (together with cached chats) when space runs out
+ *
+ * Drive media is keyed by driveFileId, Drive thumbnails by getThumbnailKey.
+ * Media from local ZIP imports is keyed by a hash of its content (see
+ * getContentHash), so it can be shown again after a reload without the ZIP.
+ * Like the rest of the local library it is never evicted; it goes when its
+ * chat is deleted.
  */
 
-const CACHE_NAME = 'whatsapp-media-v1';
-const MAX_CACHE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB
-const EVICTION_THRESHOLD = 0.9; // Start evicting at 90% full
+import { storage, STORES, requestResult, transactionDone, type StorageCategory } from './storage';
 
-class MediaCacheService {
-  private memoryCache = new Map<string, string>(); // driveFileId -> blob URL (for quick access)
-  private cacheSize = 0;
-  private initialized = false;
-
-  /**
-   * Initialize media cache and calculate current size
-   */
-  async init(): Promise<void> {
-    if (this.initialized) return;
-
-    try {
-      // Request persistent storage if available
-      if (navigator.storage && navigator.storage.persist) {
-        const isPersisted = await navigator.storage.persist();
-        console.log('[MediaCache] Persistent storage:', isPersisted ? 'granted' : 'denied');
-      }
+interface StoredMedia {
+  key: string;
+  blob: Blob;
+  mimeType: string;
+}
 
-      // Calculate current cache size
-      await this.calculateCacheSize();
-      this.initialized = true;
+/**
+ * Cache key for local media: SHA-256 of the file content
+ */
+export async function getContentHash(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  const hex = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+  return `sha256-${hex}`;
+}
 
-      console.log('[MediaCache] Initialized, current size:', this.formatSize(this.cacheSize));
-    } catch (err) {
-      console.error('[MediaCache] Initialization failed:', err);
-    }
-  }
+/**
+ * Cache key for the thumbnail of a Drive image
+ */
+export function getThumbnailKey(driveFileId: string): string {
+  return `thumb:${driveFileId}`;
+}
 
-  /**
-   * Calculate total size of cached media
-   */
-  private async calculateCacheSize(): Promise<void> {
-    if (!('caches' in window)) return;
+export type PreloadResult = 'cached' | 'stored' | 'full';
 
-    try {
-      const cache = await caches.open(CACHE_NAME);
-      const requests = await cache.keys();
+class MediaCacheService {
+  private memoryCache = new Map<string, string>(); // key -> blob URL (for quick access)
 
-      this.cacheSize = 0;
-      for (const request of requests) {
-        const response = await cache.match(request);
-        if (response) {
-          const blob = await response.blob();
-          this.cacheSize += blob.size;
-        }
-      }
-    } catch (err) {
-      console.error('[MediaCache] Failed to calculate size:', err);
-    }
+  constructor() {
+    // Evicted media's object URLs would keep the blob alive
+    storage.onEvict((store, key) => {
+      if (store === STORES.MEDIA) this.release(key);
+    });
   }
 
   /**
-   * Get media from cache or fetch from URL
+   * Object URL for cached media, or null if it isn't cached
    */
-  async getMedia(driveFileId: string, originalUrl: string): Promise<string> {
-    await this.init();
-
-    // Check memory cache first (instant)
-    if (this.memoryCache.has(driveFileId)) {
-      console.log('[MediaCache] Memory hit:', driveFileId);
-      await this.updateAccessTime(driveFileId);
-      return this.memoryCache.get(driveFileId)!;
+  async getCachedUrl(key: string): Promise<string | null> {
+    const memoryUrl = this.memoryCache.get(key);
+    if (memoryUrl) {
+      storage.touch(STORES.MEDIA, key);
+      return memoryUrl;
     }
 
-    // Check disk cache
-    const cachedUrl = await this.getCachedUrl(driveFileId);
-    if (cachedUrl) {
-      console.log('[MediaCache] Disk hit:', driveFileId);
-      this.memoryCache.set(driveFileId, cachedUrl);
-      await this.updateAccessTime(driveFileId);
-      return cachedUrl;
-    }
-
-    // Cache miss - fetch and store
-    console.log('[MediaCache] Miss, fetching:', driveFileId);
-    return await this.fetchAndCache(driveFileId, originalUrl);
-  }
-
-  /**
-   * Get cached URL from cache storage
-   */
-  private async getCachedUrl(driveFileId: string): Promise<string | null> {
-    if (!('caches' in window)) return null;
-
     try {
-      const cache = await caches.open(CACHE_NAME);
-      const cacheKey = this.getCacheKey(driveFileId);
-      const response = await cache.match(cacheKey);
-
-      if (response) {
-        const blob = await response.blob();
-        const url = URL.createObjectURL(blob);
-        return url;
-      }
+      const tx = await storage.transaction([STORES.MEDIA]);
+      const media = await requestResult(tx.objectStore(STORES.MEDIA).get(key)) as StoredMedia | undefined;
+      if (!media) return null;
+
+      const url = URL.createObjectURL(media.blob);
+      this.memoryCache.set(key, url);
+      storage.touch(STORES.MEDIA, key);
+      return url;
     } catch (err) {
       console.error('[MediaCache] Failed to get from cache:', err);
+      return null;
     }
-
-    return null;
   }
 
   /**
-   * Fetch media and add to cache
+   * Object URL for local media stored with storeLocalMedia (by content hash)
    */
-  private async fetchAndCache(driveFileId: string, originalUrl: string): Promise<string> {
-    try {
-      // Fetch the media
-      const response = await fetch(originalUrl);
-      if (!response.ok) throw new Error('Failed to fetch media');
-
-      const blob = await response.blob();
-      const blobUrl = URL.createObjectURL(blob);
-
-      // Add to memory cache
-      this.memoryCache.set(driveFileId, blobUrl);
-
-      // Add to disk cache (with eviction if needed)
-      await this.addToCache(driveFileId, blob);
-
-      return blobUrl;
-    } catch (err) {
-      console.error('[MediaCache] Failed to fetch and cache:', err);
-      throw err;
+  async getLocalMediaUrl(contentHash: string): Promise<string> {
+    const url = await this.getCachedUrl(contentHash);
+    if (!url) {
+      throw new Error(`Media not in cache: ${contentHash}`);
     }
+    return url;
   }
 
   /**
-   * Add media to cache with LRU eviction
+   * Whether media with this key is stored
    */
-  private async addToCache(driveFileId: string, blob: Blob): Promise<void> {
-    if (!('caches' in window)) return;
-
-    try {
-      const size = blob.size;
-
-      // Check if we need to evict
-      if (this.cacheSize + size > MAX_CACHE_SIZE * EVICTION_THRESHOLD) {
-        console.log('[MediaCache] Cache full, evicting...');
-        await this.evictLRU(size);
-      }
-
-      // Add to cache
-      const cache = await caches.open(CACHE_NAME);
-      const cacheKey = this.getCacheKey(driveFileId);
-
-      // Create metadata object with access time
-      const metadata = {
-        driveFileId,
-        size,
-        lastAccessed: Date.now(),
-      };
-
-      // Store both the blob and metadata
-      const headers = new Headers({
-        'X-Cache-Metadata': JSON.stringify(metadata),
-        'Content-Type': blob.type,
-      });
-
-      const response = new Response(blob, { headers });
-      await cache.put(cacheKey, response);
-
-      this.cacheSize += size;
-      console.log('[MediaCache] Cached:', driveFileId, this.formatSize(size));
-    } catch (err) {
-      console.error('[MediaCache] Failed to add to cache:', err);
-    }
+  async hasMedia(key: string): Promise<boolean> {
+    if (this.memoryCache.has(key)) return true;
+    const tx = await storage.transaction([STORES.MEDIA]);
+    return (await requestResult(tx.objectStore(STORES.MEDIA).count(key))) > 0;
   }
 
   /**
-   * Evict least recently used items to free up space
+   * Store media, making room by evicting older cache data if needed.
+   * Returns false when there is no room for it (budget or browser quota).
    */
-  private async evictLRU(spaceNeeded: number): Promise<void> {
-    if (!('caches' in window)) return;
-
-    try {
-      const cache = await caches.open(CACHE_NAME);
-      const requests = await cache.keys();
-
-      // Get all entries with metadata
-      const entries: Array<{ request: Request; metadata: any; size: number }> = [];
+  async storeMedia(key: string, blob: Blob, category: StorageCategory = 'media'): Promise<boolean> {
+    if (await this.hasMedia(key)) return true;
 
-      for (const request of requests) {
-        const response = await cache.match(request);
-        if (response) {
-          const metadataHeader = response.headers.get('X-Cache-Metadata');
-          if (metadataHeader) {
-            const metadata = JSON.parse(metadataHeader);
-            const blob = await response.blob();
-            entries.push({ request, metadata, size: blob.size });
-          }
-        }
-      }
-
-      // Sort by lastAccessed (oldest first)
-      entries.sort((a, b) => a.metadata.lastAccessed - b.metadata.lastAccessed);
-
-      // Evict until we have enough space
-      let freedSpace = 0;
-      let evictedCount = 0;
-
-      for (const entry of entries) {
-        if (this.cacheSize - freedSpace + spaceNeeded < MAX_CACHE_SIZE * EVICTION_THRESHOLD) {
-          break;
-        }
-
-        await cache.delete(entry.request);
-        freedSpace += entry.size;
-        evictedCount++;
-
-        // Remove from memory cache
-        if (entry.metadata.driveFileId) {
-          const blobUrl = this.memoryCache.get(entry.metadata.driveFileId);
-          if (blobUrl) {
-            URL.revokeObjectURL(blobUrl);
-            this.memoryCache.delete(entry.metadata.driveFileId);
-          }
-        }
-      }
-
-      this.cacheSize -= freedSpace;
-      console.log(`[MediaCache] Evicted ${evictedCount} items, freed ${this.formatSize(freedSpace)}`);
-    } catch (err) {
-      console.error('[MediaCache] Failed to evict:', err);
+    if (!(await storage.ensureSpace(blob.size))) {
+      console.warn('[MediaCache] Storage full, not storing:', key);
+      return false;
     }
-  }
-
-  /**
-   * Update access time for an item (touch)
-   */
-  private async updateAccessTime(driveFileId: string): Promise<void> {
-    if (!('caches' in window)) return;
 
     try {
-      const cache = await caches.open(CACHE_NAME);
-      const cacheKey = this.getCacheKey(driveFileId);
-      const response = await cache.match(cacheKey);
-
-      if (response) {
-        const blob = await response.blob();
-        const metadataHeader = response.headers.get('X-Cache-Metadata');
-
-        if (metadataHeader) {
-          const metadata = JSON.parse(metadataHeader);
-          metadata.lastAccessed = Date.now();
-
-          const headers = new Headers({
-            'X-Cache-Metadata': JSON.stringify(metadata),
-            'Content-Type': blob.type,
-          });
-
-          const newResponse = new Response(blob, { headers });
-          await cache.put(cacheKey, newResponse);
-        }
-      }
+      const tx = await storage.transaction([STORES.ENTRIES, STORES.MEDIA], 'readwrite');
+      tx.objectStore(STORES.MEDIA).put({ key, blob, mimeType: blob.type } satisfies StoredMedia);
+      storage.putEntry(tx, STORES.MEDIA, key, category, blob.size);
+      await transactionDone(tx);
+      return true;
     } catch (err) {
-      console.error('[MediaCache] Failed to update access time:', err);
+      console.error('[MediaCache] Failed to add to cache:', err);
+      return false;
     }
   }
 
   /**
-   * Get cache key for a drive file ID
+   * Download and store media unless it is cached already.
+   * Returns 'full' when there is no room for it; download errors are thrown.
    */
-  private getCacheKey(driveFileId: string): string {
-    return `https://media.cache/${driveFileId}`;
+  async preloadMedia(
+    key: string,
+    download: () => Promise<Blob>,
+    category: StorageCategory = 'media'
+  ): Promise<PreloadResult> {
+    if (await this.hasMedia(key)) return 'cached';
+    const blob = await download();
+    return (await this.storeMedia(key, blob, category)) ? 'stored' : 'full';
   }
 
   /**
-   * Format bytes to human-readable size
+   * Store media from a local import under its content hash, in the library
+   * category so it isn't evicted. Returns false when the storage quota has
+   * no room for it.
    */
-  private formatSize(bytes: number): string {
-    if (bytes < 1024) return bytes + ' B';
-    if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
-    if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
-    return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+  async storeLocalMedia(contentHash: string, blob: Blob): Promise<boolean> {
+    if (await this.hasMedia(contentHash)) {
+      // Stored by an earlier import, possibly before library media was kept: keep it now
+      const tx = await storage.transaction([STORES.ENTRIES], 'readwrite');
+      storage.putEntry(tx, STORES.MEDIA, contentHash, 'library', blob.size);
+      await transactionDone(tx);
+      return true;
+    }
+    return this.storeMedia(contentHash, blob, 'library');
   }
 
   /**
-   * Get cache statistics
+   * Remove local media stored with storeLocalMedia
    */
-  async getStats(): Promise<{ size: string; count: number; sizeBytes: number }> {
-    await this.init();
+  async deleteLocalMedia(contentHashes: string[]): Promise<void> {
+    if (contentHashes.length === 0) return;
 
-    if (!('caches' in window)) {
-      return { size: '0 B', count: 0, sizeBytes: 0 };
+    const tx = await storage.transaction([STORES.ENTRIES, STORES.MEDIA], 'readwrite');
+    for (const contentHash of contentHashes) {
+      tx.objectStore(STORES.MEDIA).delete(contentHash);
+      storage.deleteEntry(tx, STORES.MEDIA, contentHash);
     }
+    await transactionDone(tx);
 
-    try {
-      const cache = await caches.open(CACHE_NAME);
-      const requests = await cache.keys();
-
-      return {
-        size: this.formatSize(this.cacheSize),
-        count: requests.length,
-        sizeBytes: this.cacheSize,
-      };
-    } catch (err) {
-      console.error('[MediaCache] Failed to get stats:', err);
-      return { size: '0 B', count: 0, sizeBytes: 0 };
-    }
+    contentHashes.forEach(contentHash => this.release(contentHash));
+    console.log(`[MediaCache] Deleted ${contentHashes.length} local media files`);
   }
 
   /**
-   * Clear all cached media
+   * Remove all local media (when the library is cleared)
    */
-  async clearAll(): Promise<void> {
-    if (!('caches' in window)) return;
-
-    try {
-      // Revoke all blob URLs
-      for (const url of this.memoryCache.values()) {
-        URL.revokeObjectURL(url);
-      }
-      this.memoryCache.clear();
-
-      // Clear cache storage
-      await caches.delete(CACHE_NAME);
-      this.cacheSize = 0;
-
-      console.log('[MediaCache] Cleared all media');
-    } catch (err) {
-      console.error('[MediaCache] Failed to clear:', err);
-    }
+  async clearLocalMedia(): Promise<void> {
+    await this.deleteLocalMedia(await storage.getIds(STORES.MEDIA, 'library'));
   }
 
   /**
-   * Preload media for a list of drive file IDs
+   * Revoke object URLs after the storage cache was cleared
    */
-  async preloadMedia(items: Array<{ driveFileId: string; url: string }>): Promise<void> {
-    console.log(`[MediaCache] Preloading ${items.length} media items...`);
-
-    // Preload in chunks to avoid overwhelming the network
-    const CHUNK_SIZE = 5;
-    for (let i = 0; i < items.length; i += CHUNK_SIZE) {
-      const chunk = items.slice(i, i + CHUNK_SIZE);
-      await Promise.allSettled(
-        chunk.map(item => this.getMedia(item.driveFileId, item.url))
-      );
+  releaseAll(): void {
+    for (const url of this.memoryCache.values()) {
+      URL.revokeObjectURL(url);
     }
+    this.memoryCache.clear();
+  }
 
-    console.log('[MediaCache] Preloading complete');
+  private release(key: string): void {
+    const url = this.memoryCache.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.memoryCache.delete(key);
+    }
   }
 }
 
@@ -0,0 +1,374 @@
+/**
+ * Offline Prefetch Service
+ * Makes Drive chats available offline: downloads, parses and caches every
+ * chat in a list of chat folders, optionally with their image thumbnails or
+ * full media, and pins all of it so the LRU cache never evicts it
+ *
+ * One job runs at a time. It pauses between files and can be resumed; chats
+ * finished before a cancel stay available offline.
+ */
+
+import type { Chat } from '../types';
+import {
+  listChatFiles,
+  fetchFileBlob,
+  fetchThumbnailBlob,
+  type ChatFolder,
+} from './driveService';
+import { fetchDriveChat } from './driveSync';
+import { chatCache } from './chatCache';
+import { mediaCache, getThumbnailKey } from './mediaCache';
+import { storage, STORES, type StorageCategory } from './storage';
+
+const OFFLINE_CHATS_KEY = 'offline_chats';
+
+// Drive thumbnails are small JPEGs; their size isn't listed
+export const THUMBNAIL_SIZE_ESTIMATE = 30 * 1024;
+
+export type OfflineMediaMode = 'none' | 'thumbnails' | 'full';
+
+/**
+ * What making a set of chats available offline would download
+ */
+export interface OfflineEstimate {
+  chatCount: number;
+  cachedChatCount: number; // Already cached, only pinned
+  textBytes: number; // Chat exports not cached yet
+  mediaCount: number;
+  mediaBytes: number;
+  imageCount: number; // Have thumbnails
+  freeBytes?: number; // Browser storage left, if the browser says
+}
+
+export type OfflineJobStatus = 'idle' | 'running' | 'paused' | 'done' | 'cancelled' | 'error';
+
+export interface OfflineProgress {
+  status: OfflineJobStatus;
+  mediaMode: OfflineMediaMode;
+  chatCount: number;
+  chatsDone: number;
+  currentChat?: string;
+  chatMediaCount: number; // Media of the current chat
+  chatMediaDone: number;
+  bytesDone: number; // Media downloaded so far
+  failedCount: number; // Media that failed to download
+  storageFull: boolean; // Media stopped: no room left in browser storage
+  error?: string;
+}
+
+interface OfflineSnapshot {
+  progress: OfflineProgress;
+  offlineChatIds: ReadonlySet<string>;
+}
+
+const IDLE_PROGRESS: OfflineProgress = {
+  status: 'idle',
+  mediaMode: 'none',
+  chatCount: 0,
+  chatsDone: 0,
+  chatMediaCount: 0,
+  chatMediaDone: 0,
+  bytesDone: 0,
+  failedCount: 0,
+  storageFull: false,
+};
+
+/**
+ * A media file to keep: cache key, category and how to download it
+ */
+interface OfflineMedia {
+  key: string;
+  category: StorageCategory;
+  size: number; // Expected, for progress
+  download: () => Promise<Blob>;
+}
+
+function getOfflineMedia(chat: Chat, mediaMode: OfflineMediaMode): OfflineMedia[] {
+  if (mediaMode === 'none') return [];
+
+  return chat.messages.flatMap((msg): OfflineMedia[] => {
+    if (!msg.driveFileId) return [];
+    if (mediaMode === 'thumbnails') {
+      const thumbnailUrl = msg.thumbnailUrl;
+      if (msg.type !== 'image' || !thumbnailUrl) return [];
+      return [{
+        key: getThumbnailKey(msg.driveFileId),
+        category: 'thumbnail',
+        size: THUMBNAIL_SIZE_ESTIMATE,
+        download: () => fetchThumbnailBlob(thumbnailUrl),
+      }];
+    }
+    const driveFileId = msg.driveFileId;
+    const mimeType = msg.mediaMimeType || 'application/octet-stream';
+    return [{
+      key: driveFileId,
+      category: 'media',
+      size: msg.mediaSize ?? 0,
+      download: () => fetchFileBlob(driveFileId, mimeType),
+    }];
+  });
+}
+
+/**
+ * Why ensureToken failed: the connection dropped, or the session ended
+ */
+function getNoTokenMessage(): string {
+  return navigator.onLine
+    ? 'Session expired. Please sign in again.'
+    : 'Connection lost. Chats finished so far stay available offline.';
+}
+
+class OfflinePrefetchService {
+  private snapshot: OfflineSnapshot = { progress: IDLE_PROGRESS, offlineChatIds: new Set() };
+  private listeners = new Set<() => void>();
+  private loadPromise: Promise<void> | null = null;
+  private paused = false;
+  private cancelled = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  /**
+   * Current job progress and offline chats (stable until the next change)
+   */
+  getSnapshot = (): OfflineSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Load the list of offline chats from storage metadata
+   */
+  load(): Promise<void> {
+    this.loadPromise ??= storage.getMetadata<string[]>(OFFLINE_CHATS_KEY)
+      .then(ids => this.update({ offlineChatIds: new Set(ids ?? []) }))
+      .catch(err => console.error('[OfflinePrefetch] Failed to load offline chats:', err));
+    return this.loadPromise;
+  }
+
+  isAvailableOffline(chatId: string): boolean {
+    return this.snapshot.offlineChatIds.has(chatId);
+  }
+
+  /**
+   * Sizes to download for these chats, from what was synced before or a
+   * file listing (nothing is downloaded)
+   */
+  async estimate(chatFolders: ChatFolder[]): Promise<OfflineEstimate> {
+    const estimate: OfflineEstimate = {
+      chatCount: chatFolders.length,
+      cachedChatCount: 0,
+      textBytes: 0,
+      mediaCount: 0,
+      mediaBytes: 0,
+      imageCount: 0,
+    };
+
+    for (const chatFolder of chatFolders) {
+      const [syncState, isCached] = await Promise.all([
+        chatCache.getSyncState(chatFolder.id),
+        chatCache.hasChat(chatFolder.id),
+      ]);
+      const files = syncState && isCached
+        ? { chatTexts: syncState.chatTexts, mediaFiles: Object.values(syncState.mediaFiles) }
+        : await listChatFiles(chatFolder).then(listed => ({
+          chatTexts: listed.chatTexts,
+          mediaFiles: Array.from(listed.mediaFiles.values()),
+        }));
+
+      if (isCached) {
+        estimate.cachedChatCount++;
+      } else {
+        estimate.textBytes += files.chatTexts.reduce((sum, text) => sum + Number(text.size ?? 0), 0);
+      }
+      estimate.mediaCount += files.mediaFiles.length;
+      estimate.mediaBytes += files.mediaFiles.reduce((sum, media) => sum + Number(media.size ?? 0), 0);
+      estimate.imageCount += files.mediaFiles.filter(media => media.mimeType.startsWith('image/')).length;
+    }
+
+    const stats = await storage.getStats();
+    if (stats.quota !== undefined) {
+      estimate.freeBytes = Math.max(0, stats.quota - (stats.usage ?? 0));
+    }
+    return estimate;
+  }
+
+  /**
+   * Cache and pin every chat (and its media, per mediaMode). ensureToken is
+   * called before each download; returning false stops the job.
+   */
+  async start(
+    chatFolders: ChatFolder[],
+    mediaMode: OfflineMediaMode,
+    ensureToken: () => Promise<boolean>
+  ): Promise<void> {
+    const { status } = this.snapshot.progress;
+    if (status === 'running' || status === 'paused') {
+      throw new Error('Already making chats available offline');
+    }
+
+    await this.load();
+    this.paused = false;
+    this.cancelled = false;
+    this.updateProgress({ ...IDLE_PROGRESS, status: 'running', mediaMode, chatCount: chatFolders.length });
+
+    try {
+      for (const chatFolder of chatFolders) {
+        if (!(await this.waitWhilePaused())) break;
+        if (!(await ensureToken())) {
+          throw new Error(getNoTokenMessage());
+        }
+
+        this.updateProgress({ currentChat: chatFolder.name, chatMediaCount: 0, chatMediaDone: 0 });
+        const chat = (await chatCache.getChat(chatFolder.id)) ?? (await fetchDriveChat(chatFolder));
+        if (chat) {
+          await storage.setPinned(STORES.CHATS, [chat.id], true);
+          await this.prefetchMedia(chat, mediaMode, ensureToken);
+          await this.setOffline(chat.id, true);
+        }
+        if (this.cancelled) break;
+        this.updateProgress({ chatsDone: this.snapshot.progress.chatsDone + 1 });
+      }
+
+      this.updateProgress({ status: this.cancelled ? 'cancelled' : 'done', currentChat: undefined });
+      console.log(`[OfflinePrefetch] ${this.snapshot.progress.chatsDone} chats available offline`);
+    } catch (err) {
+      console.error('[OfflinePrefetch] Failed:', err);
+      this.updateProgress({
+        status: 'error',
+        error: err instanceof Error ? err.message : 'Unknown error',
+      });
+    }
+  }
+
+  pause(): void {
+    if (this.snapshot.progress.status !== 'running') return;
+    this.paused = true;
+    this.updateProgress({ status: 'paused' });
+  }
+
+  resume(): void {
+    if (this.snapshot.progress.status !== 'paused') return;
+    this.paused = false;
+    this.updateProgress({ status: 'running' });
+    this.wakeWaiters();
+  }
+
+  /**
+   * Stop after the current file
+   */
+  cancel(): void {
+    this.cancelled = true;
+    this.paused = false;
+    this.wakeWaiters();
+  }
+
+  /**
+   * Forget a finished job (back to idle)
+   */
+  reset(): void {
+    const { status } = this.snapshot.progress;
+    if (status !== 'running' && status !== 'paused') {
+      this.updateProgress(IDLE_PROGRESS);
+    }
+  }
+
+  /**
+   * Hand a chat and its media back to the LRU cache
+   */
+  async removeOffline(chatId: string): Promise<void> {
+    await storage.setPinned(STORES.CHATS, [chatId], false);
+    const chat = await chatCache.getChat(chatId);
+    if (chat) {
+      const keys = chat.messages.flatMap(msg =>
+        msg.driveFileId ? [msg.driveFileId, getThumbnailKey(msg.driveFileId)] : []
+      );
+      await storage.setPinned(STORES.MEDIA, keys, false);
+    }
+    await this.setOffline(chatId, false);
+  }
+
+  /**
+   * Forget every offline chat (after the cache was cleared)
+   */
+  async forgetAll(): Promise<void> {
+    await storage.setMetadata(OFFLINE_CHATS_KEY, []);
+    this.update({ offlineChatIds: new Set() });
+  }
+
+  private async prefetchMedia(
+    chat: Chat,
+    mediaMode: OfflineMediaMode,
+    ensureToken: () => Promise<boolean>
+  ): Promise<void> {
+    const media = getOfflineMedia(chat, mediaMode);
+    this.updateProgress({ chatMediaCount: media.length });
+
+    const pinnedKeys: string[] = [];
+    for (const item of media) {
+      if (this.snapshot.progress.storageFull) break;
+      if (!(await this.waitWhilePaused())) break;
+      if (!(await ensureToken())) {
+        await storage.setPinned(STORES.MEDIA, pinnedKeys, true);
+        throw new Error(getNoTokenMessage());
+      }
+
+      try {
+        const result = await mediaCache.preloadMedia(item.key, item.download, item.category);
+        if (result === 'full') {
+          this.updateProgress({ storageFull: true });
+          break;
+        }
+        pinnedKeys.push(item.key);
+        if (result === 'stored') {
+          this.updateProgress({ bytesDone: this.snapshot.progress.bytesDone + item.size });
+        }
+      } catch (err) {
+        console.warn(`[OfflinePrefetch] Failed to download ${item.key}:`, err);
+        this.updateProgress({ failedCount: this.snapshot.progress.failedCount + 1 });
+      }
+      this.updateProgress({ chatMediaDone: this.snapshot.progress.chatMediaDone + 1 });
+    }
+
+    await storage.setPinned(STORES.MEDIA, pinnedKeys, true);
+  }
+
+  /**
+   * Resolves false if the job was cancelled while (or before) waiting
+   */
+  private async waitWhilePaused(): Promise<boolean> {
+    while (this.paused && !this.cancelled) {
+      await new Promise<void>(resolve => this.resumeWaiters.push(resolve));
+    }
+    return !this.cancelled;
+  }
+
+  private wakeWaiters(): void {
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach(resolve => resolve());
+  }
+
+  private async setOffline(chatId: string, offline: boolean): Promise<void> {
+    const offlineChatIds = new Set(this.snapshot.offlineChatIds);
+    if (offline) {
+      offlineChatIds.add(chatId);
+    } else {
+      offlineChatIds.delete(chatId);
+    }
+    this.update({ offlineChatIds });
+    await storage.setMetadata(OFFLINE_CHATS_KEY, Array.from(offlineChatIds));
+  }
+
+  private updateProgress(changes: Partial<OfflineProgress>): void {
+    this.update({ progress: { ...this.snapshot.progress, ...changes } });
+  }
+
+  private update(changes: Partial<OfflineSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const offlinePrefetch = new OfflinePrefetchService();
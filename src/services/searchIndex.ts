@@ -0,0 +1,309 @@
+/**
+ * Search Index Service
+ * Global search across every cached Drive chat and local library chat.
+ *
+ * Chats are indexed in the search worker whenever they are saved (see
+ * chatCache and localLibrary), one at a time, and the indexes are kept in
+ * the storage service so they survive reloads. An index goes away with its
+ * chat: deleted, evicted from the cache or cleared.
+ *
+ * What gets indexed is the chat as the chat view shows it (getDisplayedChat),
+ * so hits open on a message that is there and from: finds contact names.
+ */
+
+import type { Chat } from '../types';
+import type { IndexRequest, IndexResponse } from '../workers/searchIndex.worker';
+import {
+  buildChatIndex,
+  getChatSignature,
+  hashString,
+  searchChatIndex,
+  SEARCH_INDEX_VERSION,
+  type ChatSearchIndex,
+  type ChatSearchResult,
+  type SearchOptions,
+  type SearchSource,
+} from '../utils/searchIndexer';
+import { parseSearchQuery, type SearchQuery } from '../utils/searchQuery';
+import { getDisplayedChat } from '../utils/chatMerger';
+import { getContacts } from '../config/contactBook';
+import { getUserIdentity } from '../config/userIdentity';
+import { storage, STORES, requestResult, transactionDone, estimateRecordSize } from './storage';
+
+export interface GlobalSearchOptions extends SearchOptions {
+  chatIds?: ReadonlySet<string>; // Only these chats (e.g. hide locked private chats)
+}
+
+interface SearchIndexSnapshot {
+  indexingCount: number; // Chats waiting to be indexed
+  revision: number; // Bumped whenever an index is added or removed
+}
+
+/**
+ * Changes whenever the contact book or identity profile does, and with them
+ * how chats are shown
+ */
+function getViewVersion(): string {
+  return hashString(JSON.stringify([getContacts(), getUserIdentity()])).toString(36);
+}
+
+interface PendingIndex {
+  resolve: (index: ChatSearchIndex) => void;
+  reject: (error: Error) => void;
+  buildOnMainThread: () => ChatSearchIndex;
+}
+
+class SearchIndexService {
+  private indexes: Map<string, ChatSearchIndex> | null = null;
+  private loadPromise: Promise<Map<string, ChatSearchIndex>> | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private snapshot: SearchIndexSnapshot = { indexingCount: 0, revision: 0 };
+  private listeners = new Set<() => void>();
+
+  private worker: Worker | null = null;
+  private workerFailed = false;
+  private nextRequestId = 1;
+  private pending = new Map<number, PendingIndex>();
+
+  constructor() {
+    // Evicted Drive chats can't be opened from a hit anymore
+    storage.onEvict((store, id) => {
+      if (store === STORES.CHATS) this.removeChat(id);
+    });
+  }
+
+  /**
+   * Indexing progress and index revision (stable until the next change)
+   */
+  getSnapshot = (): SearchIndexSnapshot => this.snapshot;
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  /**
+   * Index (or re-index) a chat. Skipped if the messages it shows didn't
+   * change since the last time. Best effort: failures are logged, not thrown.
+   */
+  indexChat(chat: Chat, source: SearchSource): Promise<void> {
+    this.update({ indexingCount: this.snapshot.indexingCount + 1 });
+
+    const run = async () => {
+      try {
+        const indexes = await this.load();
+        const displayed = getDisplayedChat(chat);
+        const viewVersion = getViewVersion();
+        const existing = indexes.get(chat.id);
+
+        if (existing?.signature === getChatSignature(displayed) && existing.source === source) {
+          // A contact book change that didn't touch this chat
+          if (existing.viewVersion !== viewVersion) {
+            const current = { ...existing, viewVersion };
+            await this.save(current);
+            indexes.set(chat.id, current);
+          }
+          return;
+        }
+
+        const index = { ...(await this.build(displayed, source)), viewVersion };
+        await this.save(index);
+        indexes.set(index.chatId, index);
+        this.update({ revision: this.snapshot.revision + 1 });
+        console.log(`[SearchIndex] Indexed "${chat.name}": ${index.messages.length} messages, ${index.tokens.length} words`);
+      } catch (err) {
+        console.error(`[SearchIndex] Failed to index "${chat.name}":`, err);
+      } finally {
+        this.update({ indexingCount: this.snapshot.indexingCount - 1 });
+      }
+    };
+
+    this.queue = this.queue.then(run);
+    return this.queue;
+  }
+
+  /**
+   * IDs of chats indexed as they are shown now; chats indexed before the
+   * contact book or identity profile changed are left out
+   */
+  async getUpToDateChatIds(): Promise<Set<string>> {
+    const viewVersion = getViewVersion();
+    const indexes = Array.from((await this.load()).values());
+    return new Set(indexes.filter(index => index.viewVersion === viewVersion).map(index => index.chatId));
+  }
+
+  async removeChat(chatId: string): Promise<void> {
+    await this.remove(index => index.chatId === chatId);
+  }
+
+  /**
+   * Drop every index of one source (e.g. after the Drive cache was cleared)
+   */
+  async removeSource(source: SearchSource): Promise<void> {
+    await this.remove(index => index.source === source);
+  }
+
+  /**
+   * Hits across all indexed chats, grouped by chat, best chat first.
+   * The query is a search string (see utils/searchQuery) or already parsed.
+   */
+  async search(query: string | SearchQuery, options: GlobalSearchOptions = {}): Promise<ChatSearchResult[]> {
+    const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+    const indexes = await this.load();
+    const results: ChatSearchResult[] = [];
+
+    for (const index of indexes.values()) {
+      if (options.chatIds && !options.chatIds.has(index.chatId)) continue;
+      const result = searchChatIndex(index, parsed, options);
+      if (result) results.push(result);
+    }
+
+    return results.sort((a, b) => b.bestScore - a.bestScore || b.totalHits - a.totalHits);
+  }
+
+  /**
+   * Read all stored indexes once (indexes of an older format are dropped,
+   * so their chats get indexed again)
+   */
+  private load(): Promise<Map<string, ChatSearchIndex>> {
+    if (this.indexes) return Promise.resolve(this.indexes);
+
+    this.loadPromise ??= (async () => {
+      const tx = await storage.transaction([STORES.SEARCH_INDEX]);
+      const stored = await requestResult(tx.objectStore(STORES.SEARCH_INDEX).getAll()) as ChatSearchIndex[];
+      const current = stored.filter(index => index.version === SEARCH_INDEX_VERSION);
+
+      this.indexes = new Map(current.map(index => [index.chatId, index]));
+      console.log(`[SearchIndex] Loaded ${this.indexes.size} chat indexes`);
+
+      if (current.length < stored.length) {
+        const outdated = stored.filter(index => index.version !== SEARCH_INDEX_VERSION);
+        await this.deleteStored(outdated.map(index => index.chatId));
+      }
+      return this.indexes;
+    })();
+
+    return this.loadPromise;
+  }
+
+  private async save(index: ChatSearchIndex): Promise<void> {
+    const tx = await storage.transaction([STORES.ENTRIES, STORES.SEARCH_INDEX], 'readwrite');
+    tx.objectStore(STORES.SEARCH_INDEX).put(index);
+    storage.putEntry(tx, STORES.SEARCH_INDEX, index.chatId, 'search', estimateRecordSize(index), index.messages.length);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Queued behind indexing, so a chat being indexed can't come back after its removal
+   */
+  private remove(predicate: (index: ChatSearchIndex) => boolean): Promise<void> {
+    this.queue = this.queue.then(() => this.removeNow(predicate));
+    return this.queue;
+  }
+
+  private async removeNow(predicate: (index: ChatSearchIndex) => boolean): Promise<void> {
+    try {
+      const indexes = await this.load();
+      const chatIds = Array.from(indexes.values()).filter(predicate).map(index => index.chatId);
+      if (chatIds.length === 0) return;
+
+      chatIds.forEach(chatId => indexes.delete(chatId));
+      this.update({ revision: this.snapshot.revision + 1 });
+      await this.deleteStored(chatIds);
+      console.log(`[SearchIndex] Removed ${chatIds.length} chat indexes`);
+    } catch (err) {
+      console.error('[SearchIndex] Failed to remove indexes:', err);
+    }
+  }
+
+  private async deleteStored(chatIds: string[]): Promise<void> {
+    const tx = await storage.transaction([STORES.ENTRIES, STORES.SEARCH_INDEX], 'readwrite');
+    for (const chatId of chatIds) {
+      tx.objectStore(STORES.SEARCH_INDEX).delete(chatId);
+      storage.deleteEntry(tx, STORES.SEARCH_INDEX, chatId);
+    }
+    await transactionDone(tx);
+  }
+
+  /**
+   * Build an index in the worker (on the main thread where workers are unavailable)
+   */
+  private build(chat: Chat, source: SearchSource): Promise<ChatSearchIndex> {
+    const worker = this.getWorker();
+    if (!worker) {
+      return Promise.resolve(buildChatIndex(chat, source));
+    }
+
+    const requestId = this.nextRequestId++;
+    const request: IndexRequest = { requestId, chat, source };
+    return new Promise<ChatSearchIndex>((resolve, reject) => {
+      this.pending.set(requestId, {
+        resolve,
+        reject,
+        buildOnMainThread: () => buildChatIndex(chat, source),
+      });
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker || this.workerFailed) return this.worker;
+    if (typeof Worker === 'undefined') {
+      this.workerFailed = true;
+      return null;
+    }
+
+    try {
+      this.worker = new Worker(new URL('../workers/searchIndex.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<IndexResponse>) => this.handleResponse(event.data));
+      this.worker.addEventListener('error', (event) => this.handleWorkerError(event));
+      console.log('[SearchIndex] Worker started');
+    } catch (err) {
+      console.warn('[SearchIndex] Worker unavailable, indexing on main thread:', err);
+      this.workerFailed = true;
+      this.worker = null;
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: IndexResponse): void {
+    const pending = this.pending.get(response.requestId);
+    if (!pending) return;
+    this.pending.delete(response.requestId);
+
+    if (response.type === 'done') {
+      pending.resolve(response.index);
+    } else {
+      pending.reject(new Error(response.error));
+    }
+  }
+
+  /**
+   * The worker script failed to load or crashed: finish in-flight requests
+   * and all later ones on the main thread
+   */
+  private handleWorkerError(event: ErrorEvent): void {
+    console.error('[SearchIndex] Worker error:', event.message);
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerFailed = true;
+
+    const inFlight = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const pending of inFlight) {
+      try {
+        pending.resolve(pending.buildOnMainThread());
+      } catch (err) {
+        pending.reject(err instanceof Error ? err : new Error('Failed to index chat'));
+      }
+    }
+  }
+
+  private update(changes: Partial<SearchIndexSnapshot>): void {
+    this.snapshot = { ...this.snapshot, ...changes };
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Export singleton instance
+export const searchIndex = new SearchIndexService();
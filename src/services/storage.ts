@@ -0,0 +1,606 @@
+/**
+ * Storage Service
+ * The app's single IndexedDB database. Cached Drive chats, cached media, the
+ * local library and settings metadata all live here, under one versioned
+ * schema and one quota/eviction policy.
+ *
+ * Every stored record also gets a small row in the entries store (size,
+ * category, last access). Eviction and stats only ever scan those rows.
+ * Domain services (chatCache, mediaCache, localLibrary, searchIndex) own their stores
+ * and keep their entries up to date through putEntry/deleteEntry.
+ *
+ * Replaces three older databases (see migrateLegacyStorage):
+ * - whatsapp-backup-cache: chatCache chats + metadata
+ * - whatsapp_backup_cache: cacheService images
+ * - whatsapp-local-library: localLibrary exports + chats
+ * and the whatsapp-media-v1 Cache Storage bucket used by mediaCache.
+ */
+
+const DB_NAME = 'whatsapp-viewer';
+const DB_VERSION = 2;
+
+export const STORES = {
+  ENTRIES: 'entries', // Size/access bookkeeping for every record below
+  METADATA: 'metadata', // Settings and sync state, never evicted
+  CHATS: 'chats', // Drive chats (text only)
+  MEDIA: 'media', // Media and thumbnail blobs
+  LIBRARY_EXPORTS: 'library_exports', // Local library: every imported export
+  LIBRARY_CHATS: 'library_chats', // Local library: merged chats
+  SEARCH_INDEX: 'search_index', // Per chat inverted index for global search
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * What a record is, for stats and eviction. Library records are the user's
+ * own imports and are never evicted. Search indexes go with their chat
+ * (see searchIndex) rather than by LRU.
+ */
+export type StorageCategory = 'chat' | 'media' | 'thumbnail' | 'library' | 'search';
+
+const EVICTABLE: ReadonlySet<StorageCategory> = new Set(['chat', 'media', 'thumbnail']);
+
+interface StorageEntry {
+  key: string; // "<store>/<record id>"
+  store: StoreName;
+  id: string;
+  category: StorageCategory;
+  size: number; // Bytes (estimated for JSON records)
+  itemCount?: number; // Messages, for chats
+  pinned?: boolean; // Kept for offline use: never evicted, outside the cache budget
+  createdAt: number;
+  lastAccessedAt: number;
+}
+
+function isEvictable(entry: Pick<StorageEntry, 'category' | 'pinned'>): boolean {
+  return EVICTABLE.has(entry.category) && !entry.pinned;
+}
+
+export interface CategoryStats {
+  count: number;
+  bytes: number;
+  items: number;
+}
+
+export interface StorageStats {
+  categories: Record<StorageCategory, CategoryStats>;
+  totalBytes: number; // Evictable data only
+  pinnedBytes: number; // Kept for offline use (see setPinned)
+  budgetBytes: number; // Evictable data is kept under this
+  usage?: number; // Whole origin, from navigator.storage.estimate()
+  quota?: number;
+  persisted?: boolean;
+}
+
+const MAX_CACHE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB for evictable data
+const EVICTION_THRESHOLD = 0.9; // Start evicting at 90% full
+const QUOTA_RESERVE = 50 * 1024 * 1024; // Leave 50MB of the browser quota for everything else
+
+/**
+ * Schema migrations, by the version they upgrade to. Each runs inside the
+ * versionchange transaction; never edit one that has shipped, add a new one.
+ */
+const MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: db => {
+    const entries = db.createObjectStore(STORES.ENTRIES, { keyPath: 'key' });
+    entries.createIndex('lastAccessedAt', 'lastAccessedAt', { unique: false });
+    entries.createIndex('category', 'category', { unique: false });
+    db.createObjectStore(STORES.METADATA, { keyPath: 'key' });
+    db.createObjectStore(STORES.CHATS, { keyPath: 'id' });
+    db.createObjectStore(STORES.MEDIA, { keyPath: 'key' });
+    const exports = db.createObjectStore(STORES.LIBRARY_EXPORTS, { keyPath: 'id' });
+    exports.createIndex('chatKey', 'chatKey', { unique: false });
+    db.createObjectStore(STORES.LIBRARY_CHATS, { keyPath: 'id' });
+  },
+  2: db => {
+    db.createObjectStore(STORES.SEARCH_INDEX, { keyPath: 'chatId' });
+  },
+};
+
+const LEGACY_MIGRATED_KEY = 'legacy_storage_migrated';
+
+/**
+ * Resolves with a request's result (or rejects with its error)
+ */
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolves once a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getEntryKey(store: StoreName, id: string): string {
+  return `${store}/${id}`;
+}
+
+/**
+ * Rough size of a JSON-like record (UTF-16 length; close enough for text)
+ */
+export function estimateRecordSize(value: unknown): number {
+  try {
+    return JSON.stringify(value).length;
+  } catch {
+    return 0;
+  }
+}
+
+class StorageService {
+  private db: IDBDatabase | null = null;
+  private initPromise: Promise<IDBDatabase> | null = null;
+  private totalBytes: number | null = null; // Evictable bytes, loaded lazily
+  private evictListeners = new Set<(store: StoreName, id: string) => void>();
+
+  /**
+   * Open the database, upgrading the schema and migrating the legacy
+   * databases on first run
+   */
+  async init(): Promise<IDBDatabase> {
+    if (this.db) return this.db;
+    if (this.initPromise) return this.initPromise;
+
+    this.initPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onerror = () => {
+        console.error('[Storage] Failed to open IndexedDB:', request.error);
+        reject(request.error);
+      };
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          MIGRATIONS[version]?.(db, tx);
+          console.log(`[Storage] Migrated schema to version ${version}`);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgrading the schema needs us to let go
+        db.onversionchange = () => {
+          db.close();
+          this.db = null;
+          this.initPromise = null;
+        };
+        resolve(db);
+      };
+    }).then(async db => {
+      if (navigator.storage?.persist) {
+        const isPersisted = await navigator.storage.persist().catch(() => false);
+        console.log('[Storage] Persistent storage:', isPersisted ? 'granted' : 'denied');
+      }
+      try {
+        await this.migrateLegacyStorage(db);
+      } catch (err) {
+        console.error('[Storage] Legacy migration failed:', err);
+      }
+      // Only now, so nothing reads before the legacy data is in
+      this.db = db;
+      return db;
+    });
+
+    return this.initPromise;
+  }
+
+  /**
+   * Start a transaction (always include STORES.ENTRIES when writing records)
+   */
+  async transaction(stores: StoreName[], mode: IDBTransactionMode = 'readonly'): Promise<IDBTransaction> {
+    const db = await this.init();
+    return db.transaction(stores, mode);
+  }
+
+  /**
+   * Record (or update) the bookkeeping row for a record written in this transaction
+   */
+  putEntry(
+    tx: IDBTransaction,
+    store: StoreName,
+    id: string,
+    category: StorageCategory,
+    size: number,
+    itemCount?: number
+  ): void {
+    const entries = tx.objectStore(STORES.ENTRIES);
+    const key = getEntryKey(store, id);
+    const existing = entries.get(key);
+    existing.onsuccess = () => {
+      const previous = existing.result as StorageEntry | undefined;
+      const now = Date.now();
+      entries.put({
+        key,
+        store,
+        id,
+        category,
+        size,
+        itemCount,
+        pinned: previous?.pinned,
+        createdAt: previous?.createdAt ?? now,
+        lastAccessedAt: now,
+      } satisfies StorageEntry);
+      if (previous) this.adjustTotal(previous, -previous.size);
+      this.adjustTotal({ category, pinned: previous?.pinned }, size);
+    };
+  }
+
+  /**
+   * Remove the bookkeeping row for a record deleted in this transaction
+   */
+  deleteEntry(tx: IDBTransaction, store: StoreName, id: string): void {
+    const entries = tx.objectStore(STORES.ENTRIES);
+    const key = getEntryKey(store, id);
+    const existing = entries.get(key);
+    existing.onsuccess = () => {
+      const previous = existing.result as StorageEntry | undefined;
+      if (!previous) return;
+      entries.delete(key);
+      this.adjustTotal(previous, -previous.size);
+    };
+  }
+
+  /**
+   * Mark a record as just used (for LRU eviction). Best effort.
+   */
+  async touch(store: StoreName, id: string): Promise<void> {
+    try {
+      const tx = await this.transaction([STORES.ENTRIES], 'readwrite');
+      const entries = tx.objectStore(STORES.ENTRIES);
+      const request = entries.get(getEntryKey(store, id));
+      request.onsuccess = () => {
+        const entry = request.result as StorageEntry | undefined;
+        if (entry) entries.put({ ...entry, lastAccessedAt: Date.now() });
+      };
+      await transactionDone(tx);
+    } catch (err) {
+      console.warn('[Storage] Failed to update access time:', err);
+    }
+  }
+
+  /**
+   * Keep records for offline use (never evicted) or hand them back to the
+   * LRU cache. Records without a bookkeeping row are skipped.
+   */
+  async setPinned(store: StoreName, ids: string[], pinned: boolean): Promise<void> {
+    const tx = await this.transaction([STORES.ENTRIES], 'readwrite');
+    const entries = tx.objectStore(STORES.ENTRIES);
+    const changed: StorageEntry[] = [];
+
+    for (const id of ids) {
+      const request = entries.get(getEntryKey(store, id));
+      request.onsuccess = () => {
+        const entry = request.result as StorageEntry | undefined;
+        if (!entry || !!entry.pinned === pinned) return;
+        entries.put({ ...entry, pinned: pinned || undefined });
+        changed.push(entry);
+      };
+    }
+
+    await transactionDone(tx);
+    for (const entry of changed) {
+      // Pinned bytes leave the cache budget; unpinned ones come back
+      this.adjustTotal({ category: entry.category }, pinned ? -entry.size : entry.size);
+    }
+  }
+
+  /**
+   * Ids of a store's records in one category
+   */
+  async getIds(store: StoreName, category: StorageCategory): Promise<string[]> {
+    const tx = await this.transaction([STORES.ENTRIES]);
+    const entries = await requestResult(tx.objectStore(STORES.ENTRIES).index('category').getAll(category)) as StorageEntry[];
+    return entries.filter(entry => entry.store === store).map(entry => entry.id);
+  }
+
+  /**
+   * Called for every record removed by eviction (e.g. to revoke object URLs)
+   */
+  onEvict(listener: (store: StoreName, id: string) => void): () => void {
+    this.evictListeners.add(listener);
+    return () => this.evictListeners.delete(listener);
+  }
+
+  /**
+   * Make room for a new evictable record: evicts least recently used cache
+   * records until it fits our budget and the browser's quota.
+   * Returns false if it can't be made to fit.
+   */
+  async ensureSpace(bytes: number): Promise<boolean> {
+    const total = await this.getEvictableBytes();
+    const budget = MAX_CACHE_SIZE * EVICTION_THRESHOLD;
+    let toFree = Math.max(0, total + bytes - budget);
+
+    const quotaShortfall = await this.getQuotaShortfall(bytes);
+    toFree = Math.max(toFree, quotaShortfall);
+    if (toFree === 0) return true;
+
+    const freed = await this.evictLRU(toFree);
+    return freed >= toFree;
+  }
+
+  private async getQuotaShortfall(bytes: number): Promise<number> {
+    if (!navigator.storage?.estimate) return 0;
+    try {
+      const { usage = 0, quota } = await navigator.storage.estimate();
+      if (!quota) return 0;
+      return Math.max(0, usage + bytes + QUOTA_RESERVE - quota);
+    } catch {
+      return 0;
+    }
+  }
+
+  private async getEvictableBytes(): Promise<number> {
+    if (this.totalBytes === null) {
+      this.totalBytes = (await this.getStats()).totalBytes;
+    }
+    return this.totalBytes;
+  }
+
+  private adjustTotal(entry: Pick<StorageEntry, 'category' | 'pinned'>, delta: number): void {
+    if (this.totalBytes !== null && isEvictable(entry)) {
+      this.totalBytes += delta;
+    }
+  }
+
+  /**
+   * Evict least recently used cache records (any category but library)
+   * until at least `bytes` are freed. Returns the bytes freed.
+   */
+  private async evictLRU(bytes: number): Promise<number> {
+    const tx = await this.transaction([STORES.ENTRIES, STORES.CHATS, STORES.MEDIA], 'readwrite');
+    const evicted: StorageEntry[] = [];
+    let freed = 0;
+
+    const cursorRequest = tx.objectStore(STORES.ENTRIES).index('lastAccessedAt').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || freed >= bytes) return;
+
+      const entry = cursor.value as StorageEntry;
+      if (isEvictable(entry)) {
+        tx.objectStore(entry.store).delete(entry.id);
+        cursor.delete();
+        freed += entry.size;
+        evicted.push(entry);
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(tx);
+
+    for (const entry of evicted) {
+      this.adjustTotal(entry, -entry.size);
+      for (const listener of this.evictListeners) listener(entry.store, entry.id);
+    }
+    console.log(`[Storage] Evicted ${evicted.length} records, freed ${formatBytes(freed)}`);
+    return freed;
+  }
+
+  /**
+   * Sizes and counts per category, plus the browser's view of the whole origin
+   */
+  async getStats(): Promise<StorageStats> {
+    const empty = (): CategoryStats => ({ count: 0, bytes: 0, items: 0 });
+    const categories: Record<StorageCategory, CategoryStats> = {
+      chat: empty(),
+      media: empty(),
+      thumbnail: empty(),
+      library: empty(),
+      search: empty(),
+    };
+
+    const tx = await this.transaction([STORES.ENTRIES]);
+    const entries = await requestResult(tx.objectStore(STORES.ENTRIES).getAll()) as StorageEntry[];
+    for (const entry of entries) {
+      const stats = categories[entry.category];
+      stats.count++;
+      stats.bytes += entry.size;
+      stats.items += entry.itemCount ?? 0;
+    }
+
+    const totalBytes = entries
+      .filter(isEvictable)
+      .reduce((sum, entry) => sum + entry.size, 0);
+    const pinnedBytes = entries
+      .filter(entry => entry.pinned)
+      .reduce((sum, entry) => sum + entry.size, 0);
+    const result: StorageStats = { categories, totalBytes, pinnedBytes, budgetBytes: MAX_CACHE_SIZE };
+
+    if (navigator.storage?.estimate) {
+      try {
+        const { usage, quota } = await navigator.storage.estimate();
+        result.usage = usage;
+        result.quota = quota;
+        result.persisted = await navigator.storage.persisted?.();
+      } catch {
+        // Estimates are optional
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove all cache records (Drive chats, media, thumbnails). The local
+   * library and settings are kept.
+   */
+  async clearCache(): Promise<void> {
+    const tx = await this.transaction([STORES.ENTRIES, STORES.CHATS, STORES.MEDIA], 'readwrite');
+    tx.objectStore(STORES.CHATS).clear();
+
+    // The media store also holds local library media, which stays
+    const entries = tx.objectStore(STORES.ENTRIES);
+    const cursorRequest = entries.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      const entry = cursor.value as StorageEntry;
+      if (EVICTABLE.has(entry.category)) {
+        if (entry.store === STORES.MEDIA) tx.objectStore(STORES.MEDIA).delete(entry.id);
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+
+    await transactionDone(tx);
+    this.totalBytes = 0;
+    console.log('[Storage] Cleared cache');
+  }
+
+  /**
+   * Set metadata value
+   */
+  async setMetadata(key: string, value: unknown): Promise<void> {
+    const tx = await this.transaction([STORES.METADATA], 'readwrite');
+    tx.objectStore(STORES.METADATA).put({ key, value });
+    await transactionDone(tx);
+  }
+
+  /**
+   * Get metadata value (null if unset)
+   */
+  async getMetadata<T = unknown>(key: string): Promise<T | null> {
+    const tx = await this.transaction([STORES.METADATA]);
+    const result = await requestResult(tx.objectStore(STORES.METADATA).get(key)) as { value: T } | undefined;
+    return result?.value ?? null;
+  }
+
+  /**
+   * One-time copy of the data in the databases this one replaced, which are
+   * then deleted. Runs before init() resolves, on the raw database.
+   */
+  private async migrateLegacyStorage(db: IDBDatabase): Promise<void> {
+    const metadataTx = db.transaction([STORES.METADATA]);
+    if (await requestResult(metadataTx.objectStore(STORES.METADATA).get(LEGACY_MIGRATED_KEY))) return;
+
+    let migrated = 0;
+
+    // chatCache: Drive chats + settings metadata
+    const chatCacheDb = await openLegacyDatabase('whatsapp-backup-cache');
+    if (chatCacheDb) {
+      const chats = await readLegacyStore(chatCacheDb, 'chats') as Array<{ id: string; messages?: unknown[] }>;
+      const metadata = await readLegacyStore(chatCacheDb, 'metadata') as Array<{ key: string; value: unknown }>;
+      chatCacheDb.close();
+
+      const tx = db.transaction([STORES.ENTRIES, STORES.CHATS, STORES.METADATA], 'readwrite');
+      for (const chat of chats) {
+        tx.objectStore(STORES.CHATS).put(chat);
+        this.putEntry(tx, STORES.CHATS, chat.id, 'chat', estimateRecordSize(chat), chat.messages?.length);
+      }
+      for (const record of metadata) {
+        if (record.key !== 'cache_version') tx.objectStore(STORES.METADATA).put(record);
+      }
+      await transactionDone(tx);
+      migrated += chats.length + metadata.length;
+    }
+
+    // localLibrary: exports + merged chats
+    const libraryDb = await openLegacyDatabase('whatsapp-local-library');
+    if (libraryDb) {
+      const exports = await readLegacyStore(libraryDb, 'exports') as Array<{ id: string }>;
+      const chats = await readLegacyStore(libraryDb, 'chats') as Array<{ id: string; messages?: unknown[] }>;
+      libraryDb.close();
+
+      const tx = db.transaction([STORES.ENTRIES, STORES.LIBRARY_EXPORTS, STORES.LIBRARY_CHATS], 'readwrite');
+      for (const exp of exports) {
+        tx.objectStore(STORES.LIBRARY_EXPORTS).put(exp);
+        this.putEntry(tx, STORES.LIBRARY_EXPORTS, exp.id, 'library', estimateRecordSize(exp));
+      }
+      for (const chat of chats) {
+        tx.objectStore(STORES.LIBRARY_CHATS).put(chat);
+        this.putEntry(tx, STORES.LIBRARY_CHATS, chat.id, 'library', estimateRecordSize(chat), chat.messages?.length);
+      }
+      await transactionDone(tx);
+      migrated += exports.length + chats.length;
+    }
+
+    // cacheService: Drive images
+    const imageDb = await openLegacyDatabase('whatsapp_backup_cache');
+    if (imageDb) {
+      const images = imageDb.objectStoreNames.contains('images')
+        ? await readLegacyStore(imageDb, 'images') as Array<{ fileId: string; blob: Blob }>
+        : [];
+      imageDb.close();
+      for (const image of images) {
+        await this.putMigratedMedia(db, image.fileId, image.blob);
+      }
+      migrated += images.length;
+    }
+
+    // mediaCache: Cache Storage bucket
+    if ('caches' in window && await caches.has('whatsapp-media-v1')) {
+      const cache = await caches.open('whatsapp-media-v1');
+      for (const request of await cache.keys()) {
+        const response = await cache.match(request);
+        if (!response) continue;
+        const key = decodeURIComponent(new URL(request.url).pathname.slice(1));
+        await this.putMigratedMedia(db, key, await response.blob());
+        migrated++;
+      }
+      await caches.delete('whatsapp-media-v1');
+    }
+
+    for (const name of ['whatsapp-backup-cache', 'whatsapp-local-library', 'whatsapp_backup_cache']) {
+      indexedDB.deleteDatabase(name);
+    }
+    const doneTx = db.transaction([STORES.METADATA], 'readwrite');
+    doneTx.objectStore(STORES.METADATA).put({ key: LEGACY_MIGRATED_KEY, value: true });
+    await transactionDone(doneTx);
+    console.log(`[Storage] Migrated ${migrated} records from legacy storage`);
+  }
+
+  private async putMigratedMedia(db: IDBDatabase, key: string, blob: Blob): Promise<void> {
+    const tx = db.transaction([STORES.ENTRIES, STORES.MEDIA], 'readwrite');
+    tx.objectStore(STORES.MEDIA).put({ key, blob, mimeType: blob.type });
+    this.putEntry(tx, STORES.MEDIA, key, 'media', blob.size);
+    await transactionDone(tx);
+  }
+}
+
+/**
+ * Opens an old database only if it exists (opening creates it otherwise)
+ */
+function openLegacyDatabase(name: string): Promise<IDBDatabase | null> {
+  return new Promise(resolve => {
+    const request = indexedDB.open(name);
+    let created = false;
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion === 0) {
+        created = true;
+        request.transaction?.abort();
+      }
+    };
+    request.onsuccess = () => resolve(created ? null : request.result);
+    request.onerror = () => resolve(null);
+  });
+}
+
+function readLegacyStore(db: IDBDatabase, storeName: string): Promise<unknown[]> {
+  if (!db.objectStoreNames.contains(storeName)) return Promise.resolve([]);
+  const tx = db.transaction([storeName], 'readonly');
+  return requestResult(tx.objectStore(storeName).getAll());
+}
+
+/**
+ * Format bytes to human-readable size
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  if (bytes < 1024 * 1024 * 1024) return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+  return (bytes / (1024 * 1024 * 1024)).toFixed(2) + ' GB';
+}
+
+// Export singleton instance
+export const storage = new StorageService();
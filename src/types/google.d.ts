@@ -64,6 +64,39 @@ declare namespace gapi {
           options?: { responseType?: string }
         ): Promise<{ body: string }>;
       }
+
+      namespace changes {
+        function getStartPageToken(params?: Record<string, never>): Promise<{
+          result: { startPageToken?: string };
+        }>;
+
+        function list(params: {
+          pageToken: string;
+          fields?: string;
+          spaces?: string;
+          pageSize?: number;
+          includeRemoved?: boolean;
+        }): Promise<{
+          result: {
+            changes?: Array<{
+              fileId?: string;
+              removed?: boolean;
+              file?: {
+                id?: string;
+                name?: string;
+                mimeType?: string;
+                modifiedTime?: string;
+                size?: string;
+                parents?: string[];
+                trashed?: boolean;
+                thumbnailLink?: string;
+              };
+            }>;
+            nextPageToken?: string;
+            newStartPageToken?: string;
+          };
+        }>;
+      }
     }
   }
 }
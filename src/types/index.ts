@@ -15,6 +15,30 @@ export interface Chat {
   messages: Message[];
   isGroup: boolean;
   avatar?: string; // Base64 or URL
+  membershipHistory?: MembershipHistory; // Groups only, rebuilt from system events
+  backupSources?: BackupSource[]; // Chats merged from several backups/exports only
+  unreferencedMedia?: UnreferencedMedia[]; // Media in the export that no message points to
+  isPartial?: boolean; // Preview of the newest messages while the full file is still parsing
+}
+
+export interface UnreferencedMedia {
+  fileName: string;
+  date?: Date; // From the WhatsApp file name (IMG-20240115-WA0001.jpg), if it has one
+}
+
+/**
+ * One _chat.txt that went into a merged multi-backup chat
+ */
+export interface BackupSource {
+  id: string; // "<backup folder or ZIP name>/<file name>"
+  fileName: string;
+  backupName: string;
+  messageCount: number;
+  uniqueCount: number; // Messages no other backup has
+  conflictCount: number; // Copies that differed from another backup (see chatMerger)
+  firstMessageAt?: Date;
+  lastMessageAt?: Date;
+  excluded?: boolean; // Hidden from the merged timeline by the user
 }
 
 export interface Participant {
@@ -45,6 +69,8 @@ export interface Message {
   mediaMimeType?: string;
   mediaSize?: number;
   driveFileId?: string; // For lazy-loading media from Google Drive
+  zipMediaKey?: string; // For lazy-loading media from an imported ZIP or unzipped export (see getZipMediaUrl)
+  mediaHash?: string; // Content hash of local-import media kept in mediaCache
   thumbnailUrl?: string; // Quick preview thumbnail from Drive
   isOutgoing: boolean; // true if sent by user
   reactions?: Reaction[];
@@ -54,6 +80,12 @@ export interface Message {
   callDuration?: string; // For call logs like "1 min", "4 min"
   callKind?: 'voice' | 'video';
   callMissed?: boolean;
+  // Populated for type 'system' (see SystemMessage)
+  systemType?: SystemMessageType;
+  systemActor?: string; // Who performed the event ("You", "Alice")
+  systemTargets?: string[]; // Who it was done to (added/removed participants)
+  systemSubject?: string; // New group subject for group_created / subject_changed
+  sourceBackups?: number[]; // Indexes into Chat.backupSources this message was found in
 }
 
 export interface Reaction {
@@ -68,18 +100,62 @@ export interface QuotedMessage {
   mediaType?: MessageType;
 }
 
+export type SystemMessageType =
+  | 'date_separator'
+  | 'encryption_notice'
+  | 'group_created'
+  | 'participant_added'
+  | 'participant_removed'
+  | 'participant_left'
+  | 'participant_joined' // Joined via invite link
+  | 'subject_changed'
+  | 'icon_changed'
+  | 'you_blocked'
+  | 'you_unblocked'
+  | 'other'; // System line we don't classify
+
 export interface SystemMessage extends Message {
-  systemType: 
-    | 'date_separator'
-    | 'encryption_notice'
-    | 'group_created'
-    | 'participant_added'
-    | 'participant_removed'
-    | 'participant_left'
-    | 'subject_changed'
-    | 'icon_changed'
-    | 'you_blocked'
-    | 'you_unblocked';
+  type: 'system';
+  systemType: SystemMessageType;
+}
+
+/**
+ * Group membership reconstructed from system events
+ * (created / added / joined / left / removed, subject and icon changes)
+ */
+export interface MembershipPeriod {
+  joinedAt?: Date; // Undefined if already a member when the export starts
+  joinedVia?: 'created' | 'added' | 'invite_link';
+  addedBy?: string;
+  leftAt?: Date; // Undefined while still a member
+  leftVia?: 'left' | 'removed';
+  removedBy?: string;
+}
+
+export interface GroupMember {
+  name: string;
+  isMe: boolean;
+  isCurrent: boolean; // Still in the group at the end of the export
+  periods: MembershipPeriod[];
+  messageCount: number;
+  firstMessageAt?: Date;
+  lastMessageAt?: Date;
+}
+
+export interface MembershipEvent {
+  messageId: string;
+  timestamp: Date;
+  systemType: SystemMessageType;
+  actor?: string;
+  targets?: string[];
+  subject?: string;
+}
+
+export interface MembershipHistory {
+  members: GroupMember[];
+  events: MembershipEvent[]; // Chronological membership/subject/icon events
+  subjects: Array<{ timestamp: Date; subject: string; changedBy?: string }>;
+  iconChanges: Array<{ timestamp: Date; changedBy?: string }>;
 }
 
 export interface MediaFile {
@@ -89,11 +165,12 @@ export interface MediaFile {
   mimeType: string;
   size?: number;
   driveFileId?: string; // For lazy loading from Google Drive
+  zipMediaKey?: string; // "<archive id>:<path in ZIP or folder>", not yet read (blob/url are empty)
   thumbnailLink?: string; // Quick preview thumbnail from Drive
 }
 
 export interface ParsedZipContent {
-  chatFiles: Array<{ name: string; content: string }>;
+  chatFiles: Array<{ name: string; file: Blob }>;
   mediaFiles: MediaFile[];
 }
 
@@ -102,6 +179,15 @@ export interface ChatParseResult {
   errors: string[];
 }
 
+export interface ParseProgress {
+  fileName: string;
+  bytesParsed: number;
+  totalBytes: number;
+  currentDate?: Date; // Timestamp of the latest message parsed so far
+  fileIndex?: number; // Which of several chat files (multi-backup Drive folders)
+  fileCount?: number;
+}
+
 // UI State types
 export interface AppState {
   backup: WhatsAppBackup | null;
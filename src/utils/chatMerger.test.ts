@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { Message } from '../types';
+import { mergeMessagesWithReport } from './chatMerger';
+
+let nextId = 1;
+
+function msg(time: string, sender: string, content: string, extra: Partial<Message> = {}): Message {
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  return {
+    id: `m${nextId++}`,
+    timestamp: new Date(2024, 2, 10, hours, minutes, seconds),
+    sender,
+    type: 'text',
+    content,
+    isOutgoing: false,
+    ...extra,
+  };
+}
+
+function contents(messages: Message[]): string[] {
+  return messages.map(message => message.content);
+}
+
+describe('mergeMessagesWithReport', () => {
+  it('matches overlapping backups a minute apart and keeps the copy with seconds', () => {
+    // iOS keeps seconds; the Android export of the same messages is minute precision
+    const ios = [msg('10:00:40', 'Priya', 'Morning'), msg('10:01:50', 'John', 'Hi'), msg('10:02:10', 'John', 'Coffee?')];
+    const android = [msg('10:01', 'Priya', 'Morning'), msg('10:02', 'John', 'Hi'), msg('10:02', 'John', 'Coffee?'), msg('10:05', 'Priya', 'Sure')];
+
+    const result = mergeMessagesWithReport([android, ios]);
+
+    expect(contents(result.messages)).toEqual(['Morning', 'Hi', 'Coffee?', 'Sure']);
+    expect(result.messages.slice(0, 3)).toEqual(ios);
+    expect(result.duplicatesRemoved).toBe(3);
+    expect(result.conflicts).toEqual([]);
+    expect(result.messageSources).toEqual([[0, 1], [0, 1], [0, 1], [0]]);
+    expect(result.sources.map(source => source.unique)).toEqual([1, 0]);
+  });
+
+  it('keeps both copies a full minute or more apart', () => {
+    const result = mergeMessagesWithReport([[msg('10:00', 'John', 'Hi')], [msg('10:01', 'John', 'Hi')]]);
+    expect(result.messages).toHaveLength(2);
+    expect(result.duplicatesRemoved).toBe(0);
+  });
+
+  it('keeps repeated identical messages as many times as the fuller backup has them', () => {
+    const first = [msg('10:00', 'John', 'ok'), msg('10:00', 'John', 'ok')];
+    const second = [msg('10:00', 'John', 'ok'), msg('10:00', 'John', 'ok'), msg('10:00', 'John', 'ok')];
+    expect(mergeMessagesWithReport([first, second]).messages).toHaveLength(3);
+  });
+
+  it('replaces a media placeholder with the copy that has the file', () => {
+    const placeholder = msg('10:00', 'Priya', '<Media omitted>');
+    const photo = msg('10:00:12', 'Priya', '', {
+      type: 'image',
+      mediaFileName: 'IMG-20240310-WA0001.jpg',
+      zipMediaKey: 'zip1:IMG-20240310-WA0001.jpg',
+    });
+
+    const result = mergeMessagesWithReport([[placeholder], [photo]]);
+
+    expect(result.messages).toEqual([photo]);
+    expect(result.conflicts).toEqual([
+      { kind: 'media_placeholder', kept: photo, other: placeholder, keptSource: 1, otherSource: 0 },
+    ]);
+  });
+
+  it('keeps the loadable copy of media saved under different names', () => {
+    const loadable = msg('10:00', 'Priya', '', { type: 'image', mediaFileName: 'IMG-1.jpg', driveFileId: 'drive1' });
+    const missing = msg('10:00', 'Priya', '', { type: 'image', mediaFileName: 'photo.jpg' });
+
+    const result = mergeMessagesWithReport([[loadable], [missing]]);
+
+    expect(result.messages).toEqual([loadable]);
+    expect(result.conflicts.map(conflict => conflict.kind)).toEqual(['media_renamed']);
+  });
+
+  it('keeps the edited copy of a message', () => {
+    const original = msg('10:00', 'John', 'See you at 5');
+    const edited = msg('10:00', 'John', 'See you at 6', { isEdited: true });
+
+    const result = mergeMessagesWithReport([[edited], [original]]);
+
+    expect(result.messages).toEqual([edited]);
+    expect(result.conflicts).toEqual([
+      { kind: 'edited', kept: edited, other: original, keptSource: 0, otherSource: 1 },
+    ]);
+  });
+
+  it('keeps both messages and reports them when the same sender and minute have different text', () => {
+    const first = msg('10:00', 'John', 'On my way');
+    const second = msg('10:00', 'John', 'Running late');
+
+    const result = mergeMessagesWithReport([[first], [second]]);
+
+    expect(contents(result.messages)).toEqual(['On my way', 'Running late']);
+    expect(result.duplicatesRemoved).toBe(0);
+    expect(result.conflicts).toEqual([
+      { kind: 'content_mismatch', kept: first, other: second, keptSource: 0, otherSource: 1 },
+    ]);
+  });
+
+  it('aligns greedily when a day is too long for the full alignment, without dropping or doubling messages', () => {
+    // 1,100 × 1,100 comparisons is above the alignment limit
+    const count = 1100;
+    const day = Array.from({ length: count }, (_, i) => {
+      const seconds = i * 60;
+      return { time: `${Math.floor(seconds / 3600)}:${Math.floor(seconds / 60) % 60}`, content: `Message ${i}` };
+    });
+    const first = day.map(({ time, content }) => msg(`${time}:20`, 'John', content));
+    const second = day.map(({ time, content }) => msg(time, 'John', content));
+    second.push(msg('23:59', 'Priya', 'Good night'));
+
+    const result = mergeMessagesWithReport([first, second]);
+
+    expect(result.messages).toHaveLength(count + 1);
+    expect(contents(result.messages)).toEqual([...day.map(({ content }) => content), 'Good night']);
+    expect(result.messages.slice(0, count)).toEqual(first);
+    expect(result.duplicatesRemoved).toBe(count);
+    expect(result.conflicts).toEqual([]);
+  });
+});
@@ -1,28 +1,357 @@
 /**
  * Chat Merger Utility
  * Merges multiple chat backups into a single deduplicated timeline
+ *
+ * Exports of the same chat from different devices/dates overlap, and the
+ * overlapping copies rarely match byte for byte:
+ * - iOS keeps seconds, Android exports are minute precision
+ * - a sender may be a phone number in one export and a saved name in another
+ * - a message may carry an edited marker in only the newer export
+ * - media can be "<Media omitted>" in one export and a filename in another
+ *
+ * Design decisions:
+ * - Backups are aligned day by day with a longest-common-subsequence match,
+ *   so repeated identical messages ("ok", "👍") keep their count and order
+ * - Matching tolerates a minute of clock difference and resolves senders
+ *   through the contact book / phone normaliser
+ * - When two copies differ, the richer one is kept and the difference is
+ *   reported as a conflict; aligned messages that can't be reconciled are
+ *   both kept and reported, never silently dropped
  */
 
-import type { Message, Participant } from '../types';
+import type { Chat, Message, Participant, BackupSource } from '../types';
+import { getSenderKey, applyUserIdentity } from '../config/userIdentity';
+import { resolveContactName, applyContactBook } from '../config/contactBook';
+import { isOmittedMediaPlaceholder } from './exportPhrases';
+import { buildMembershipHistory } from './membershipBuilder';
+
+// Copies of a message from different exports must be this close in time
+const TIMESTAMP_TOLERANCE_MS = 60 * 1000;
+
+// Above this many DP cells per day, fall back to greedy alignment
+const MAX_ALIGNMENT_CELLS = 1_000_000;
+
+const MEDIA_TYPES = new Set(['image', 'video', 'audio', 'document', 'sticker']);
+
+export type MergeConflictKind =
+  | 'edited' // Same message, one copy edited: kept the edited copy
+  | 'media_placeholder' // One copy is "<Media omitted>": kept the copy with the file
+  | 'media_renamed' // Same media under different filenames: kept the copy with the file
+  | 'content_mismatch'; // Same sender and minute but different text: kept both
+
+export interface MergeConflict {
+  kind: MergeConflictKind;
+  kept: Message;
+  other: Message; // Discarded copy, or the second kept message for content_mismatch
+  keptSource: number;
+  otherSource: number;
+}
+
+export interface MergeSourceStats {
+  index: number; // Position in the input array
+  total: number;
+  unique: number; // Messages only this backup has
+  firstMessageAt?: Date;
+  lastMessageAt?: Date;
+}
+
+export interface MergeResult {
+  messages: Message[];
+  messageSources: number[][]; // Parallel to messages: backups each message was found in
+  sources: MergeSourceStats[];
+  conflicts: MergeConflict[];
+  duplicatesRemoved: number;
+}
+
+type MatchKind = 'exact' | Exclude<MergeConflictKind, 'content_mismatch'>;
+
+/**
+ * Normalised text used for comparing copies of a message
+ */
+function normalizeContent(msg: Message): string {
+  return (msg.content || '')
+    .normalize('NFC')
+    .replace(/[\u200e\u200f\u202a-\u202e\u2066-\u2069\ufeff]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+// Alignment compares each message many times; resolve its sender once
+const senderKeyCache = new WeakMap<Message, string>();
+
+function senderKey(msg: Message): string {
+  let key = senderKeyCache.get(msg);
+  if (key === undefined) {
+    key = getSenderKey(resolveContactName(msg.sender));
+    senderKeyCache.set(msg, key);
+  }
+  return key;
+}
+
+// Text the parser leaves when an attachment is missing from the export
+const MISSING_MEDIA_PATTERN = /^\[Media not found: .+\]$/;
+
+function isMediaPlaceholder(msg: Message): boolean {
+  if (MEDIA_TYPES.has(msg.type)) return !msg.mediaFileName;
+  const content = (msg.content || '').trim();
+  return msg.type === 'text' && (isOmittedMediaPlaceholder(content) || MISSING_MEDIA_PATTERN.test(content));
+}
+
+function hasMediaFile(msg: Message): boolean {
+  return MEDIA_TYPES.has(msg.type) && !!msg.mediaFileName;
+}
+
+// The media can actually be shown (loaded, or loadable from Drive / the ZIP / the media cache)
+function hasMediaSource(msg: Message): boolean {
+  return !!(msg.mediaUrl || msg.driveFileId || msg.zipMediaKey || msg.mediaHash);
+}
+
+/**
+ * Decides whether two messages from different backups are the same message
+ */
+function matchMessages(a: Message, b: Message): MatchKind | null {
+  if (Math.abs(a.timestamp.getTime() - b.timestamp.getTime()) >= TIMESTAMP_TOLERANCE_MS) return null;
+  if ((a.type === 'system') !== (b.type === 'system')) return null;
+  if (senderKey(a) !== senderKey(b)) return null;
+
+  // Media on both sides
+  if (hasMediaFile(a) && hasMediaFile(b)) {
+    if (a.mediaFileName!.toLowerCase() === b.mediaFileName!.toLowerCase()) return 'exact';
+    return a.type === b.type ? 'media_renamed' : null;
+  }
+  if ((hasMediaFile(a) && isMediaPlaceholder(b)) || (hasMediaFile(b) && isMediaPlaceholder(a))) {
+    return 'media_placeholder';
+  }
+  if (isMediaPlaceholder(a) && isMediaPlaceholder(b)) return 'exact';
+
+  const contentA = normalizeContent(a);
+  const contentB = normalizeContent(b);
+  if (contentA === contentB) {
+    return !!a.isEdited === !!b.isEdited ? 'exact' : 'edited';
+  }
+  // Text changed between exports and exactly one copy carries the edited marker
+  if (a.type === 'text' && b.type === 'text' && !!a.isEdited !== !!b.isEdited) return 'edited';
+
+  return null;
+}
+
+/**
+ * Picks the copy to keep from a matched pair. Returns true to keep b over a.
+ */
+function preferSecond(a: Message, b: Message, kind: MatchKind): boolean {
+  switch (kind) {
+    case 'media_placeholder':
+    case 'media_renamed':
+      // The copy we can actually display
+      if (hasMediaSource(b) !== hasMediaSource(a)) return hasMediaSource(b);
+      return hasMediaFile(b) && !hasMediaFile(a);
+    case 'edited':
+      return !!b.isEdited && !a.isEdited;
+    default:
+      // Prefer second-precision timestamps, then the copy with loaded media
+      if (a.timestamp.getSeconds() === 0 && b.timestamp.getSeconds() !== 0) return true;
+      return !a.mediaUrl && !!b.mediaUrl;
+  }
+}
+
+interface SourcedMessage {
+  msg: Message;
+  sources: Set<number>;
+}
+
+/**
+ * Longest-common-subsequence alignment of two same-day message runs.
+ * Returns matched index pairs in order.
+ */
+function alignRuns(left: SourcedMessage[], right: Message[]): Array<[number, number, MatchKind]> {
+  const n = left.length;
+  const m = right.length;
+  const pairs: Array<[number, number, MatchKind]> = [];
+
+  if (n * m > MAX_ALIGNMENT_CELLS) {
+    // Greedy: walk both runs, matching each right message to the next compatible left one
+    let i = 0;
+    for (let j = 0; j < m; j++) {
+      for (let k = i; k < n; k++) {
+        if (left[k].msg.timestamp.getTime() - right[j].timestamp.getTime() >= TIMESTAMP_TOLERANCE_MS) break;
+        const kind = matchMessages(left[k].msg, right[j]);
+        if (kind) {
+          pairs.push([k, j, kind]);
+          i = k + 1;
+          break;
+        }
+      }
+    }
+    return pairs;
+  }
+
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  const idx = (i: number, j: number) => i * (m + 1) + j;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[idx(i, j)] = matchMessages(left[i].msg, right[j])
+        ? lengths[idx(i + 1, j + 1)] + 1
+        : Math.max(lengths[idx(i + 1, j)], lengths[idx(i, j + 1)]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    const kind = matchMessages(left[i].msg, right[j]);
+    if (kind && lengths[idx(i, j)] === lengths[idx(i + 1, j + 1)] + 1) {
+      pairs.push([i, j, kind]);
+      i++;
+      j++;
+    } else if (lengths[idx(i + 1, j)] >= lengths[idx(i, j + 1)]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+}
+
+function dayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+function byTimestamp(a: { timestamp: Date }, b: { timestamp: Date }): number {
+  return a.timestamp.getTime() - b.timestamp.getTime();
+}
+
+/**
+ * Merges one more backup into the accumulated timeline, day by day
+ */
+function mergeBackupInto(
+  merged: SourcedMessage[],
+  backup: Message[],
+  sourceIndex: number,
+  conflicts: MergeConflict[]
+): SourcedMessage[] {
+  const leftDays = new Map<string, SourcedMessage[]>();
+  for (const item of merged) {
+    const key = dayKey(item.msg.timestamp);
+    if (!leftDays.has(key)) leftDays.set(key, []);
+    leftDays.get(key)!.push(item);
+  }
+  const rightDays = new Map<string, Message[]>();
+  for (const msg of backup) {
+    const key = dayKey(msg.timestamp);
+    if (!rightDays.has(key)) rightDays.set(key, []);
+    rightDays.get(key)!.push(msg);
+  }
+
+  const result: SourcedMessage[] = [];
+  const allDays = new Set([...leftDays.keys(), ...rightDays.keys()]);
+
+  for (const day of allDays) {
+    const left = leftDays.get(day) ?? [];
+    const right = rightDays.get(day) ?? [];
+
+    if (right.length === 0) {
+      result.push(...left);
+      continue;
+    }
+    if (left.length === 0) {
+      result.push(...right.map(msg => ({ msg, sources: new Set([sourceIndex]) })));
+      continue;
+    }
+
+    const pairs = alignRuns(left, right);
+    const matchedLeft = new Set<number>();
+    const matchedRight = new Set<number>();
+
+    for (const [li, ri, kind] of pairs) {
+      matchedLeft.add(li);
+      matchedRight.add(ri);
+      const existing = left[li];
+      const incoming = right[ri];
+      const keepIncoming = preferSecond(existing.msg, incoming, kind);
+      const keptSource = keepIncoming ? sourceIndex : Math.min(...existing.sources);
+      const otherSource = keepIncoming ? Math.min(...existing.sources) : sourceIndex;
+
+      if (kind !== 'exact') {
+        conflicts.push({
+          kind,
+          kept: keepIncoming ? incoming : existing.msg,
+          other: keepIncoming ? existing.msg : incoming,
+          keptSource,
+          otherSource,
+        });
+      }
+      if (keepIncoming) existing.msg = incoming;
+      existing.sources.add(sourceIndex);
+    }
+
+    const unmatchedRight = right
+      .filter((_, ri) => !matchedRight.has(ri))
+      .map(msg => ({ msg, sources: new Set([sourceIndex]) }));
+
+    // Unreconciled copies: same sender and minute, but neither matched anything
+    for (const incoming of unmatchedRight) {
+      const twin = left.find((item, li) =>
+        !matchedLeft.has(li) &&
+        Math.abs(item.msg.timestamp.getTime() - incoming.msg.timestamp.getTime()) < TIMESTAMP_TOLERANCE_MS &&
+        item.msg.type !== 'system' &&
+        senderKey(item.msg) === senderKey(incoming.msg)
+      );
+      if (twin) {
+        conflicts.push({
+          kind: 'content_mismatch',
+          kept: twin.msg,
+          other: incoming.msg,
+          keptSource: Math.min(...twin.sources),
+          otherSource: sourceIndex,
+        });
+      }
+    }
+
+    // Stable sort keeps each backup's own order for same-timestamp messages
+    result.push(...[...left, ...unmatchedRight].sort((a, b) => byTimestamp(a.msg, b.msg)));
+  }
+
+  return result.sort((a, b) => byTimestamp(a.msg, b.msg));
+}
 
 /**
- * Create a unique key for a message for deduplication
- * Uses timestamp (rounded to second) + sender + FULL content
- * For media messages, uses mediaFileName for deduplication
+ * Merges backups and reports where they overlapped, disagreed, and what
+ * each one contributed
  */
-function getMessageKey(msg: Message): string {
-  // Round to nearest second (remove milliseconds) for consistent matching
-  const timestamp = Math.floor(msg.timestamp.getTime() / 1000) * 1000;
-  const sender = (msg.sender || '').toLowerCase().trim();
-  
-  // For media messages, use timestamp + sender + filename
-  if (msg.mediaFileName) {
-    return `${timestamp}|${sender}|media:${msg.mediaFileName.toLowerCase()}`;
+export function mergeMessagesWithReport(allMessages: Message[][]): MergeResult {
+  const backups = allMessages.map(messages => [...messages].sort(byTimestamp));
+  const conflicts: MergeConflict[] = [];
+
+  let merged: SourcedMessage[] = [];
+  backups.forEach((backup, index) => {
+    merged = index === 0
+      ? backup.map(msg => ({ msg, sources: new Set([0]) }))
+      : mergeBackupInto(merged, backup, index, conflicts);
+  });
+
+  const sources: MergeSourceStats[] = backups.map((backup, index) => ({
+    index,
+    total: backup.length,
+    unique: 0,
+    firstMessageAt: backup[0]?.timestamp,
+    lastMessageAt: backup[backup.length - 1]?.timestamp,
+  }));
+  for (const item of merged) {
+    if (item.sources.size === 1) {
+      sources[item.sources.values().next().value!].unique++;
+    }
   }
-  
-  // For text messages, use timestamp + sender + full content
-  const content = (msg.content || '').toLowerCase().trim();
-  return `${timestamp}|${sender}|${content}`;
+
+  const totalOriginal = backups.reduce((sum, b) => sum + b.length, 0);
+
+  return {
+    messages: merged.map(item => item.msg),
+    messageSources: merged.map(item => Array.from(item.sources).sort((a, b) => a - b)),
+    sources,
+    conflicts,
+    duplicatesRemoved: totalOriginal - merged.length,
+  };
 }
 
 /**
@@ -32,44 +361,29 @@ function getMessageKey(msg: Message): string {
 export function mergeMessages(allMessages: Message[][]): Message[] {
   // If only one backup (one _chat.txt), no need to dedupe - just sort and return
   if (allMessages.length === 1) {
-    const messages = allMessages[0].sort((a, b) => 
+    const messages = allMessages[0].sort((a, b) =>
       a.timestamp.getTime() - b.timestamp.getTime()
     );
     return messages;
   }
-  
-  // Multiple backups - need to dedupe
-  const seenKeys = new Set<string>();
-  const merged: Message[] = [];
-
-  // Sort all message arrays by timestamp to process in order
-  const flatMessages = allMessages.flat().sort((a, b) => 
-    a.timestamp.getTime() - b.timestamp.getTime()
-  );
 
-  for (const msg of flatMessages) {
-    const key = getMessageKey(msg);
-    
-    if (!seenKeys.has(key)) {
-      seenKeys.add(key);
-      merged.push(msg);
-    }
-  }
-  
-  return merged;
+  return mergeMessagesWithReport(allMessages).messages;
 }
 
 /**
  * Merge participants from multiple backups
+ * Phone-number participants match in any written form (see getSenderKey),
+ * and names/numbers in the contact book collapse to the canonical contact
  */
 export function mergeParticipants(allParticipants: Participant[][]): Participant[] {
   const seen = new Map<string, Participant>();
 
   for (const participants of allParticipants) {
     for (const p of participants) {
-      const key = p.name.toLowerCase().trim();
+      const name = resolveContactName(p.name);
+      const key = getSenderKey(name);
       if (!seen.has(key)) {
-        seen.set(key, p);
+        seen.set(key, name === p.name ? p : { ...p, name });
       }
     }
   }
@@ -77,6 +391,225 @@ export function mergeParticipants(allParticipants: Participant[][]): Participant
   return Array.from(seen.values());
 }
 
+/**
+ * One export of a chat and where it came from
+ */
+export interface ChatBackupPart {
+  messages: Message[];
+  participants: Participant[];
+  isGroup: boolean;
+  fileName: string;
+  backupName: string; // Drive backup folder or imported ZIP
+}
+
+export type MergedChatBackups = Pick<Chat, 'messages' | 'participants' | 'isGroup' | 'membershipHistory' | 'backupSources'>;
+
+/**
+ * Merges every export of one chat into a single timeline. With more than
+ * one part, each message records the backups it was found in and the
+ * result lists the backups as sources (see BackupSourcesPanel).
+ */
+export function mergeChatBackups(parts: ChatBackupPart[]): MergedChatBackups {
+  const mergeResult = mergeMessagesWithReport(parts.map(part => part.messages));
+  const messages = mergeResult.messages;
+
+  let backupSources: BackupSource[] | undefined;
+  if (parts.length > 1) {
+    console.log(
+      `[ChatMerger] Merged ${parts.length} backups: ${mergeResult.duplicatesRemoved} duplicates removed, ` +
+      `${mergeResult.conflicts.length} conflicts`
+    );
+
+    // Remember where each message came from so backups can be excluded later
+    messages.forEach((msg, i) => {
+      msg.sourceBackups = mergeResult.messageSources[i];
+    });
+    backupSources = parts.map((part, i) => {
+      const stats = mergeResult.sources[i];
+      return {
+        id: `${part.backupName}/${part.fileName}`,
+        fileName: part.fileName,
+        backupName: part.backupName,
+        messageCount: stats.total,
+        uniqueCount: stats.unique,
+        conflictCount: mergeResult.conflicts.filter(c => c.keptSource === i || c.otherSource === i).length,
+        firstMessageAt: stats.firstMessageAt,
+        lastMessageAt: stats.lastMessageAt,
+      };
+    });
+  }
+
+  const participants = mergeParticipants(parts.map(part => part.participants));
+
+  // Membership is rebuilt from the merged timeline so events from every backup count
+  const isGroup = participants.length > 2 || parts.some(part => part.isGroup);
+
+  return {
+    messages,
+    participants,
+    isGroup,
+    membershipHistory: isGroup ? buildMembershipHistory(messages) : undefined,
+    backupSources,
+  };
+}
+
+/**
+ * Merges one new or re-exported backup into an already merged chat, without
+ * re-reading the backups it was built from. knownParts are those backups in
+ * source order (backupSources, or the single export of a one-backup chat).
+ *
+ * A re-export of a known backup only contributes from the last day that
+ * backup already covered, so its new messages are appended; a new backup is
+ * aligned against the whole timeline.
+ */
+export function mergeIntoChat(
+  chat: MergedChatBackups,
+  knownParts: Array<Pick<ChatBackupPart, 'fileName' | 'backupName'>>,
+  part: ChatBackupPart
+): MergedChatBackups & { addedCount: number } {
+  const partId = (p: Pick<ChatBackupPart, 'fileName' | 'backupName'>) => `${p.backupName}/${p.fileName}`;
+  const knownIndex = knownParts.findIndex(p => partId(p) === partId(part));
+  const sourceIndex = knownIndex === -1 ? knownParts.length : knownIndex;
+  const parts = knownIndex === -1 ? [...knownParts, part] : knownParts;
+
+  let incoming = [...part.messages].sort(byTimestamp);
+  if (knownIndex !== -1) {
+    const coveredUntil = chat.backupSources?.[knownIndex]?.lastMessageAt
+      ?? chat.messages[chat.messages.length - 1]?.timestamp;
+    if (coveredUntil) {
+      const fromDay = new Date(coveredUntil.getFullYear(), coveredUntil.getMonth(), coveredUntil.getDate());
+      incoming = incoming.filter(msg => msg.timestamp >= fromDay);
+    }
+  }
+
+  const conflicts: MergeConflict[] = [];
+  const merged = mergeBackupInto(
+    chat.messages.map(msg => ({ msg, sources: new Set(msg.sourceBackups ?? [0]) })),
+    incoming,
+    sourceIndex,
+    conflicts
+  );
+  const messages = merged.map(item => item.msg);
+
+  let backupSources: BackupSource[] | undefined;
+  if (parts.length > 1) {
+    const counts = parts.map(() => ({ total: 0, unique: 0, first: undefined as Date | undefined, last: undefined as Date | undefined }));
+    for (const item of merged) {
+      item.msg.sourceBackups = Array.from(item.sources).sort((a, b) => a - b);
+      for (const source of item.sources) {
+        const count = counts[source];
+        count.total++;
+        if (item.sources.size === 1) count.unique++;
+        count.first ??= item.msg.timestamp;
+        count.last = item.msg.timestamp;
+      }
+    }
+
+    const partMessages = [...part.messages].sort(byTimestamp);
+    backupSources = parts.map((p, i) => {
+      const previous = chat.backupSources?.[i];
+      const isMerged = i === sourceIndex;
+      // A backup re-exported over itself isn't a conflict between backups
+      const newConflicts = conflicts.filter(c =>
+        c.keptSource !== c.otherSource && (c.keptSource === i || c.otherSource === i)
+      ).length;
+      return {
+        id: partId(p),
+        fileName: p.fileName,
+        backupName: p.backupName,
+        messageCount: isMerged ? partMessages.length : previous?.messageCount ?? counts[i].total,
+        uniqueCount: counts[i].unique,
+        conflictCount: (previous?.conflictCount ?? 0) + newConflicts,
+        firstMessageAt: isMerged ? partMessages[0]?.timestamp : previous?.firstMessageAt ?? counts[i].first,
+        lastMessageAt: isMerged ? partMessages[partMessages.length - 1]?.timestamp : previous?.lastMessageAt ?? counts[i].last,
+        excluded: previous?.excluded,
+      };
+    });
+  }
+
+  const participants = mergeParticipants([chat.participants, part.participants]);
+  const isGroup = participants.length > 2 || chat.isGroup || part.isGroup;
+
+  return {
+    messages,
+    participants,
+    isGroup,
+    membershipHistory: isGroup ? buildMembershipHistory(messages) : undefined,
+    backupSources,
+    addedCount: messages.length - chat.messages.length,
+  };
+}
+
+export interface BackupGap {
+  afterSource: number; // Index of the backup that ends before the gap
+  beforeSource: number; // Index of the backup that starts after it
+  from: Date;
+  to: Date;
+  days: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Periods not covered by any included backup (sources sorted by start date)
+ */
+export function findBackupGaps(sources: BackupSource[], minGapDays = 1): BackupGap[] {
+  const included = sources
+    .map((source, index) => ({ source, index }))
+    .filter(({ source }) => !source.excluded && source.firstMessageAt && source.lastMessageAt)
+    .sort((a, b) => a.source.firstMessageAt!.getTime() - b.source.firstMessageAt!.getTime());
+
+  const gaps: BackupGap[] = [];
+  let coveredUntil: { date: Date; index: number } | null = null;
+
+  for (const { source, index } of included) {
+    if (coveredUntil) {
+      const gapMs = source.firstMessageAt!.getTime() - coveredUntil.date.getTime();
+      if (gapMs >= minGapDays * DAY_MS) {
+        gaps.push({
+          afterSource: coveredUntil.index,
+          beforeSource: index,
+          from: coveredUntil.date,
+          to: source.firstMessageAt!,
+          days: Math.floor(gapMs / DAY_MS),
+        });
+      }
+    }
+    if (!coveredUntil || source.lastMessageAt! > coveredUntil.date) {
+      coveredUntil = { date: source.lastMessageAt!, index };
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Hides messages found only in backups the user excluded.
+ * Returns the same object if nothing is excluded.
+ */
+export function filterExcludedBackups(chat: Chat): Chat {
+  const excluded = new Set(
+    (chat.backupSources ?? []).flatMap((source, index) => (source.excluded ? [index] : []))
+  );
+  if (excluded.size === 0) return chat;
+
+  return {
+    ...chat,
+    messages: chat.messages.filter(msg =>
+      !msg.sourceBackups || msg.sourceBackups.some(index => !excluded.has(index))
+    ),
+  };
+}
+
+/**
+ * The chat as the chat view shows it: without excluded backups, with
+ * outgoing flags and sender labels from the current identity profile and
+ * contact book (chats parsed or cached before those changed keep stale ones)
+ */
+export function getDisplayedChat(chat: Chat): Chat {
+  return applyContactBook(applyUserIdentity(filterExcludedBackups(chat)));
+}
+
 /**
  * Get statistics about the merge
  */
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { inferExportDialect, parseChatBlob, parseChatFile } from './chatParser';
+import enDmy from './__fixtures__/exports/en-dmy.txt?raw';
+import enMdy from './__fixtures__/exports/en-mdy.txt?raw';
+import de from './__fixtures__/exports/de.txt?raw';
+import nl from './__fixtures__/exports/nl.txt?raw';
+import ja from './__fixtures__/exports/ja.txt?raw';
+import iso from './__fixtures__/exports/iso.txt?raw';
+import es from './__fixtures__/exports/es.txt?raw';
+import hi from './__fixtures__/exports/hi.txt?raw';
+import ar from './__fixtures__/exports/ar.txt?raw';
+import enAmbiguous from './__fixtures__/exports/en-ambiguous.txt?raw';
+
+interface ExpectedMessage {
+  timestamp: Date;
+  sender: string;
+  content: string;
+}
+
+interface DialectFixture {
+  dialect: string;
+  content: string;
+  messages: ExpectedMessage[];
+}
+
+// Every fixture is the same short chat: a greeting, a multi-line reply and a
+// message on 13 January, so day/month order is never ambiguous. Continuation
+// lines join the message they follow (line breaks fold to spaces).
+const FIXTURES: DialectFixture[] = [
+  {
+    dialect: 'en-dmy',
+    content: enDmy,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'John', content: 'Happy new year!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'Priya', content: 'Same to you see you tomorrow bring snacks' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'John', content: 'Done' },
+    ],
+  },
+  {
+    dialect: 'en-mdy',
+    content: enMdy,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45, 32), sender: 'John', content: 'Happy new year!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47, 5), sender: 'Priya', content: 'Same to you see you tomorrow bring snacks' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'John', content: 'Done' },
+    ],
+  },
+  {
+    dialect: 'de',
+    content: de,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'Johann', content: 'Frohes neues Jahr!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'Petra', content: 'Dir auch bis morgen' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'Johann', content: 'Erledigt' },
+    ],
+  },
+  {
+    dialect: 'nl',
+    content: nl,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'Jan', content: 'Gelukkig nieuwjaar!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'Femke', content: 'Jij ook tot morgen' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'Jan', content: 'Klaar' },
+    ],
+  },
+  {
+    dialect: 'ja',
+    content: ja,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: '健太', content: 'あけましておめでとう！' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'さくら', content: 'おめでとう また明日' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: '健太', content: '了解' },
+    ],
+  },
+  {
+    dialect: 'iso',
+    content: iso,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'John', content: 'Happy new year!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'Priya', content: 'Same to you see you tomorrow' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'John', content: 'Done' },
+    ],
+  },
+  {
+    dialect: 'es',
+    content: es,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'Juan', content: '¡Feliz año nuevo!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'Lucía', content: 'Igualmente hasta mañana' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'Juan', content: 'Listo' },
+    ],
+  },
+  {
+    dialect: 'hi',
+    content: hi,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'राहुल', content: 'नया साल मुबारक!' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'प्रिया', content: 'आपको भी कल मिलते हैं' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'राहुल', content: 'ठीक है' },
+    ],
+  },
+  {
+    dialect: 'ar',
+    content: ar,
+    messages: [
+      { timestamp: new Date(2023, 11, 31, 23, 45), sender: 'أحمد', content: 'كل عام وأنتم بخير' },
+      { timestamp: new Date(2023, 11, 31, 23, 47), sender: 'سارة', content: 'وأنت بخير أراك غدًا' },
+      { timestamp: new Date(2024, 0, 13, 9, 5), sender: 'أحمد', content: 'تم' },
+    ],
+  },
+];
+
+function parseUserMessages(content: string): ExpectedMessage[] {
+  const { chat, errors } = parseChatFile('WhatsApp Chat with Test.txt', content, []);
+  expect(errors).toEqual([]);
+  return chat.messages
+    .filter(message => message.type !== 'system')
+    .map(({ timestamp, sender, content }) => ({ timestamp, sender, content }));
+}
+
+describe.each(FIXTURES)('$dialect export', ({ dialect, content, messages }) => {
+  it('infers the dialect', () => {
+    expect(inferExportDialect(content.split('\n')).id).toBe(dialect);
+  });
+
+  it('parses timestamps, senders and multi-line messages', () => {
+    expect(parseUserMessages(content)).toEqual(messages);
+  });
+
+  it('parses the same when read in chunks that split lines and characters', async () => {
+    const progress: number[] = [];
+    const streamed = await parseChatBlob('WhatsApp Chat with Test.txt', new Blob([content]), [], {
+      chunkBytes: 7,
+      onProgress: ({ bytesParsed }) => progress.push(bytesParsed),
+    });
+    const whole = parseChatFile('WhatsApp Chat with Test.txt', content, []);
+    // Chat ids are time-based
+    expect(streamed).toEqual({ ...whole, chat: { ...whole.chat, id: streamed.chat.id } });
+    expect(progress).toHaveLength(Math.ceil(new Blob([content]).size / 7));
+    expect(progress[progress.length - 1]).toBe(new Blob([content]).size);
+  });
+});
+
+describe('ambiguous DD/MM vs MM/DD export', () => {
+  it('falls back to DD/MM when every date fits both orders', () => {
+    expect(inferExportDialect(enAmbiguous.split('\n')).id).toBe('en-dmy');
+  });
+
+  it('parses dates day first', () => {
+    expect(parseUserMessages(enAmbiguous)).toEqual([
+      { timestamp: new Date(2024, 1, 1, 10, 0), sender: 'John', content: 'Morning' },
+      { timestamp: new Date(2024, 1, 3, 10, 5), sender: 'Priya', content: 'Hi anyone up?' },
+    ]);
+  });
+});
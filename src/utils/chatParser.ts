@@ -6,6 +6,8 @@
  * - Android: "12/31/2023, 11:45 PM - John: Hello there"
  * - Android (24h): "12/31/2023, 23:45 - John: Hello there"
  * - iOS: "[12/31/23, 11:45:32 PM] John: Hello there"
+ * - Other locales (German, Dutch, Japanese, ISO, Arabic digits, ...) via
+ *   the dialect registry in exportDialects.ts
  * 
  * Design decisions:
  * - Handles multi-line messages (messages spanning multiple lines)
@@ -14,8 +16,28 @@
  * - Preserves message ordering and timestamps accurately
  */
 
-import type { Chat, Message, MessageType, Participant, ChatParseResult, MediaFile } from '../types';
-import { isMeSender } from '../config/userIdentity';
+import type { Chat, Message, MessageType, Participant, ChatParseResult, MediaFile, ParseProgress } from '../types';
+import { isMeSender, getSenderKey } from '../config/userIdentity';
+import {
+  EXPORT_DIALECTS,
+  DEFAULT_DIALECT,
+  getDialectPatterns,
+  parseDialectTimestamp,
+  type ExportDialect,
+} from './exportDialects';
+import {
+  isOmittedMediaPlaceholder,
+  isDeletedPlaceholder,
+  findEditedMarker,
+  CALL_PHRASES,
+  GROUP_SUBJECT_PATTERNS,
+  GROUP_INDICATOR_PATTERNS,
+  classifySystemLine,
+  isSelfReference,
+} from './exportPhrases';
+import { buildMembershipHistory } from './membershipBuilder';
+import { findUnreferencedMedia } from './timelineBuilder';
+import { applyContactBookToMessages } from '../config/contactBook';
 
 interface MessageMatch {
   timestamp: Date;
@@ -25,7 +47,19 @@ interface MessageMatch {
   isSystemLine?: boolean;
 }
 
-type DateOrder = 'DMY' | 'MDY';
+export interface ParseChatOptions {
+  onProgress?: (progress: ParseProgress) => void; // After each chunk
+  chunkBytes?: number;
+}
+
+// Bytes of the file read (and parsed) per chunk
+const CHUNK_BYTES = 1024 * 1024;
+
+// Bytes from the end of the file parsed for the newest-messages preview
+const PREVIEW_BYTES = 200_000;
+
+// Lines at the top of the file the dialect is inferred from
+const DIALECT_SAMPLE_LINES = 800;
 
 /**
  * Main parser function - converts chat file content into structured Chat object
@@ -38,75 +72,179 @@ export function parseChatFile(
   const errors: string[] = [];
   
   try {
-    // Extract chat name from file name
-    // "WhatsApp Chat with John Doe.txt" -> "John Doe"
-    // "WhatsApp Chat - Group Name.txt" -> "Group Name"
-    let chatName = extractChatName(fileName);
-    
-    // Parse all messages (initially all marked as incoming)
-    const messages = parseMessages(content, mediaFiles, errors);
-    
-    if (messages.length === 0) {
-      errors.push('No messages found in chat file');
-    }
-    
-    // Extract unique participants
-    let participants = extractParticipants(messages);
-    
-    // Determine if it's a group chat.
-    // If there are exactly 2 participants, treat it as a 1:1 chat even if the
-    // raw text contains words like "added" in normal messages.
-    const looksLikeGroup = participants.length > 2 || detectGroupIndicators(content);
-    const isOneToOne = participants.length === 2;
-    const isGroup = looksLikeGroup && !isOneToOne;
-    
-    // If filename doesn't have a meaningful name (common: "_chat.txt"),
-    // try to derive the chat name from the export content (group subject).
-    if (chatName === 'Unnamed Chat') {
-      const derived = deriveChatNameFromContent(content);
-      if (derived) chatName = derived;
+    const parser = createChatLineParser(mediaFiles, errors);
+    for (const line of content.split('\n')) {
+      parser.addLine(line);
     }
+    return { chat: finishParse(fileName, parser, mediaFiles, errors), errors };
+  } catch (error) {
+    return failedParse(fileName, errors, error);
+  }
+}
 
-    // Fix 1:1 chat title and participant ordering using USER_IDENTITY
-    // - Chat title should be the other participant, not you.
-    // - Participants array should have "other" first (used for avatar/color in UI).
-    if (isOneToOne) {
-      const me = participants.find((p) => isMeSender(p.name));
-      const other = participants.find((p) => !isMeSender(p.name));
+/**
+ * Parses a chat file as it is read, chunk by chunk, so the whole text never
+ * has to be held as one string. Lines split across chunks are carried over
+ * to the next one; progress is reported after each chunk.
+ */
+export async function parseChatBlob(
+  fileName: string,
+  file: Blob,
+  mediaFiles: MediaFile[],
+  options: ParseChatOptions = {}
+): Promise<ChatParseResult> {
+  const { onProgress, chunkBytes = CHUNK_BYTES } = options;
+  const errors: string[] = [];
 
-      if (other) {
-        chatName = other.name;
+  try {
+    const parser = createChatLineParser(mediaFiles, errors);
+    const decoder = new TextDecoder();
+    let partialLine = '';
+
+    for (let offset = 0; offset < file.size; offset += chunkBytes) {
+      const bytes = await file.slice(offset, offset + chunkBytes).arrayBuffer();
+      // stream: a character split across chunks is completed by the next one
+      const lines = (partialLine + decoder.decode(bytes, { stream: true })).split('\n');
+      partialLine = lines.pop()!;
+      for (const line of lines) {
+        parser.addLine(line);
       }
+      onProgress?.({
+        fileName,
+        bytesParsed: Math.min(offset + chunkBytes, file.size),
+        totalBytes: file.size,
+        currentDate: parser.getCurrentDate(),
+      });
+    }
+    parser.addLine(partialLine + decoder.decode());
 
-      if (me && other) {
-        participants = [other, me];
-      }
+    return { chat: finishParse(fileName, parser, mediaFiles, errors), errors };
+  } catch (error) {
+    return failedParse(fileName, errors, error);
+  }
+}
+
+/**
+ * Parses only the end of a large chat file so the newest messages can be
+ * shown while the whole file is still parsing. Returns null for files small
+ * enough to parse in one go.
+ */
+export async function parseChatPreview(
+  fileName: string,
+  file: Blob,
+  mediaFiles: MediaFile[],
+  maxBytes: number = PREVIEW_BYTES
+): Promise<Chat | null> {
+  if (file.size <= maxBytes) return null;
+
+  try {
+    const head = await file.slice(0, maxBytes).text();
+    const tail = await file.slice(file.size - maxBytes).text();
+
+    // Start at a line boundary; leading continuation lines are dropped as unparseable
+    const tailStart = tail.indexOf('\n');
+    if (tailStart === -1) return null;
+
+    // The dialect is inferred from the head of the file like a full parse,
+    // which also holds the group's creation and subject lines
+    const headLines = head.split('\n');
+    const parser = createChatLineParser(mediaFiles, [], inferExportDialect(headLines.slice(0, DIALECT_SAMPLE_LINES)));
+    for (const line of headLines) {
+      parser.scanLine(line);
     }
-    
-    const chat: Chat = {
-      id: generateChatId(chatName),
-      name: chatName,
-      participants,
-      messages,
-      isGroup
-    };
-    
-    return { chat, errors };
+    for (const line of tail.slice(tailStart + 1).split('\n')) {
+      parser.addLine(line);
+    }
+
+    const chat = parser.finish(fileName);
+    if (chat.messages.length === 0) return null;
+
+    return { ...chat, isPartial: true };
   } catch (error) {
-    errors.push(`Failed to parse chat: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    
-    // Return minimal valid chat object
-    return {
-      chat: {
-        id: generateChatId(fileName),
-        name: fileName,
-        participants: [],
-        messages: [],
-        isGroup: false
-      },
-      errors
-    };
+    console.warn('[ChatParser] Preview parse failed:', error);
+    return null;
+  }
+}
+
+function finishParse(fileName: string, parser: ChatLineParser, mediaFiles: MediaFile[], errors: string[]): Chat {
+  const chat = parser.finish(fileName);
+  if (chat.messages.length === 0) {
+    errors.push('No messages found in chat file');
   }
+  chat.unreferencedMedia = findUnreferencedMedia(chat.messages, mediaFiles.map(file => file.fileName));
+  return chat;
+}
+
+function failedParse(fileName: string, errors: string[], error: unknown): ChatParseResult {
+  errors.push(`Failed to parse chat: ${error instanceof Error ? error.message : 'Unknown error'}`);
+
+  // Return minimal valid chat object
+  return {
+    chat: {
+      id: generateChatId(fileName),
+      name: fileName,
+      participants: [],
+      messages: [],
+      isGroup: false
+    },
+    errors
+  };
+}
+
+/**
+ * Builds the chat object (name, participants, group detection) around parsed messages.
+ * `scan` holds what was found in the raw lines of the file (see scanChatLine).
+ */
+function buildChat(fileName: string, scan: ChatTextScan, parsedMessages: Message[]): Chat {
+  // Extract chat name from file name
+  // "WhatsApp Chat with John Doe.txt" -> "John Doe"
+  // "WhatsApp Chat - Group Name.txt" -> "Group Name"
+  let chatName = extractChatName(fileName);
+
+  // Relabel senders known to the contact book with their canonical name
+  const messages = applyContactBookToMessages(parsedMessages) ?? parsedMessages;
+  
+  // Extract unique participants
+  let participants = extractParticipants(messages);
+  
+  // Determine if it's a group chat.
+  // If there are exactly 2 participants, treat it as a 1:1 chat even if the
+  // raw text contains words like "added" in normal messages.
+  const looksLikeGroup = participants.length > 2 || scan.hasGroupIndicator;
+  const isOneToOne = participants.length === 2;
+  const isGroup = looksLikeGroup && !isOneToOne;
+  
+  // If filename doesn't have a meaningful name (common: "_chat.txt"),
+  // try to derive the chat name from the export content (group subject).
+  if (chatName === 'Unnamed Chat') {
+    const derived = getScannedSubject(scan);
+    if (derived) chatName = derived;
+  }
+
+  // Fix 1:1 chat title and participant ordering using the user identity profile
+  // - Chat title should be the other participant, not you.
+  // - Participants array should have "other" first (used for avatar/color in UI).
+  if (isOneToOne) {
+    const me = participants.find((p) => isMeSender(p.name));
+    const other = participants.find((p) => !isMeSender(p.name));
+
+    if (other) {
+      chatName = other.name;
+    }
+
+    if (me && other) {
+      participants = [other, me];
+    }
+  }
+  
+  return {
+    id: generateChatId(chatName),
+    name: chatName,
+    participants,
+    messages,
+    isGroup,
+    membershipHistory: isGroup ? buildMembershipHistory(messages) : undefined
+  };
 }
 
 /**
@@ -134,58 +272,88 @@ function extractChatName(fileName: string): string {
   return name;
 }
 
-function deriveChatNameFromContent(raw: string): string | null {
-  const text = raw || '';
+interface ChatTextScan {
+  hasGroupIndicator: boolean;
+  // Per GROUP_SUBJECT_PATTERNS entry, its first match in the file (undefined: none yet)
+  subjectMatches: Array<string | undefined>;
+}
 
-  // Common WhatsApp export system lines that contain the group subject/name.
-  // Examples:
+function createChatTextScan(): ChatTextScan {
+  return { hasGroupIndicator: false, subjectMatches: [] };
+}
+
+/**
+ * Looks for group hints and the group subject in one raw line of the file.
+ * None of the patterns span lines, so this finds what matching the whole
+ * file would.
+ */
+function scanChatLine(scan: ChatTextScan, line: string): void {
+  if (!scan.hasGroupIndicator) {
+    scan.hasGroupIndicator = GROUP_INDICATOR_PATTERNS.some(pattern => pattern.test(line));
+  }
+
+  // Common WhatsApp export system lines that contain the group subject/name,
+  // in every export language from exportPhrases.ts. Examples:
   // - "You created group \"My Group\""
-  // - "Alice created group \"My Group\""
-  // - "Alice changed the subject to \"My Group\""
   // - "Alice changed the subject from \"Old\" to \"New\""
-  const patterns: RegExp[] = [
-    /created group\s+["“](.+?)["”]/i,
-    /changed the subject to\s+["“](.+?)["”]/i,
-    /changed the subject from\s+["“].+?["”]\s+to\s+["“](.+?)["”]/i,
-    // Some exports omit quotes:
-    /changed the subject to\s+(.+?)$/im,
-  ];
+  // - "Alice creó el grupo \"Mi Grupo\""
+  // - "Alice hat die Gruppe „Meine Gruppe“ erstellt"
+  GROUP_SUBJECT_PATTERNS.forEach((re, i) => {
+    if (scan.subjectMatches[i] !== undefined) return;
+    const m = line.match(re);
+    if (m) scan.subjectMatches[i] = m[1] ?? '';
+  });
+}
 
-  for (const re of patterns) {
-    const m = text.match(re);
-    if (m?.[1]) {
-      const name = m[1].trim();
-      if (name && name.length <= 80) return name;
-    }
+/**
+ * Group subject from the scanned lines; earlier patterns win
+ */
+function getScannedSubject(scan: ChatTextScan): string | null {
+  for (const match of scan.subjectMatches) {
+    const name = match?.trim();
+    if (name && name.length <= 80) return name;
   }
-
   return null;
 }
 
+interface ChatLineParser {
+  addLine: (line: string) => void;
+  scanLine: (line: string) => void; // Group hints and subject only, not parsed as messages
+  getCurrentDate: () => Date | undefined; // Latest message timestamp so far
+  finish: (fileName: string) => Chat;
+}
+
 /**
- * Parses all messages from chat content
+ * Parses chat content one line at a time, so a file can be fed as it is read.
+ * Without a known dialect, the first lines are held back until the dialect
+ * has been inferred from them.
  */
-function parseMessages(
-  content: string,
+function createChatLineParser(
   mediaFiles: MediaFile[],
-  errors: string[]
-): Message[] {
-  const lines = content.split('\n');
+  errors: string[],
+  knownDialect?: ExportDialect
+): ChatLineParser {
   const messages: Message[] = [];
+  const scan = createChatTextScan();
   let currentMessage: MessageMatch | null = null;
+  let lineIndex = 0;
+
+  // Infer the export dialect (date order, separators, AM/PM words) once per file
+  // for consistent parsing. WhatsApp exports follow the device locale.
+  let dialect = knownDialect ?? null;
+  let timestampPrefix = dialect && getDialectPatterns(dialect).timestampPrefix;
+  const sampleLines: string[] = [];
+
+  const parseLine = (rawLine: string) => {
+    const i = lineIndex++;
 
-  // Infer date order (DD/MM vs MM/DD) once per file for consistent parsing.
-  // WhatsApp exports follow the device locale; for India this is commonly DD/MM.
-  const dateOrder = inferDateOrder(lines);
-  
-  for (let i = 0; i < lines.length; i++) {
     // Normalize line BEFORE parsing - remove invisible WhatsApp characters
-    const line = normalizeWaText(lines[i]);
+    const line = normalizeWaText(rawLine);
     
-    if (!line) continue;
+    if (!line) return;
     
     // Try to match message pattern (user lines first, then system lines)
-    const match = matchMessageLine(line, dateOrder) ?? matchSystemLine(line, dateOrder);
+    const match = matchMessageLine(line, dialect!) ?? matchSystemLine(line, dialect!);
     
     if (match) {
       // Save previous message if exists
@@ -198,7 +366,7 @@ function parseMessages(
       // This line is a continuation of the previous message (multi-line message)
       // Only skip if line STARTS with a WhatsApp timestamp pattern (not just contains date-like text)
       // WhatsApp format: [DD/MM/YY, HH:MM:SS am/pm] or similar at START of line
-      const startsWithTimestamp = /^\s*\[?\d{1,2}\/\d{1,2}\/\d{2,4},?\s+\d{1,2}:\d{2}(:\d{2})?\s*(am|pm|AM|PM)?\s*\]/.test(line);
+      const startsWithTimestamp = timestampPrefix!.test(line);
       if (startsWithTimestamp) {
         // This is a timestamp line that failed to parse - DO NOT add as content
         console.warn('⚠️ Skipped unparsed timestamp line:', line.substring(0, 100));
@@ -215,23 +383,53 @@ function parseMessages(
       // Line doesn't match pattern and no current message - might be header
       if (i < 5) {
         // Ignore first few lines (might be encryption notice, etc.)
-        continue;
+        return;
       }
       errors.push(`Could not parse line ${i + 1}: ${line.substring(0, 50)}...`);
     }
-  }
-  
-  // Don't forget the last message
-  if (currentMessage) {
-    messages.push(createMessage(currentMessage, mediaFiles, messages.length));
-  }
-  
-  // Filter out empty text-only messages and omitted media placeholders
-  return messages.filter(msg => {
-    if (msg.type !== 'text') return true; // Keep all media/system messages
-    if (msg.content === '__OMITTED_MEDIA__') return false; // Skip omitted media placeholders
-    return msg.content.trim().length > 0; // Only keep text with actual content
-  });
+  };
+
+  const inferDialect = () => {
+    dialect = inferExportDialect(sampleLines);
+    timestampPrefix = getDialectPatterns(dialect).timestampPrefix;
+    sampleLines.forEach(parseLine);
+    sampleLines.length = 0;
+  };
+
+  return {
+    addLine: (line) => {
+      scanChatLine(scan, line);
+      if (dialect) {
+        parseLine(line);
+      } else {
+        sampleLines.push(line);
+        if (sampleLines.length === DIALECT_SAMPLE_LINES) inferDialect();
+      }
+    },
+
+    scanLine: (line) => scanChatLine(scan, line),
+
+    getCurrentDate: () => currentMessage?.timestamp ?? messages[messages.length - 1]?.timestamp,
+
+    finish: (fileName) => {
+      if (!dialect) inferDialect();
+
+      // Don't forget the last message
+      if (currentMessage) {
+        messages.push(createMessage(currentMessage, mediaFiles, messages.length));
+        currentMessage = null;
+      }
+
+      // Filter out empty text-only messages and omitted media placeholders
+      const parsedMessages = messages.filter(msg => {
+        if (msg.type !== 'text') return true; // Keep all media/system messages
+        if (msg.content === '__OMITTED_MEDIA__') return false; // Skip omitted media placeholders
+        return msg.content.trim().length > 0; // Only keep text with actual content
+      });
+
+      return buildChat(fileName, scan, parsedMessages);
+    },
+  };
 }
 
 function normalizeWaText(s: string): string {
@@ -245,23 +443,15 @@ function normalizeWaText(s: string): string {
 }
 
 /**
- * Overload that uses a preferred date order hint.
+ * Matches a "Sender: content" line in the file's dialect
  */
-function matchMessageLine(line: string, dateOrder: DateOrder): MessageMatch | null {
-  // Android format: "12/31/2023, 11:45 PM - John: Hello"
-  const androidRegex = /^(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?\s*(?:AM|PM|am|pm)?)\s*[-–]\s*([^:]+?):\s*(.*)$/;
-
-  // iOS format: "[12/31/23, 11:45:32 PM] John: Hello"
-  const iosRegex = /^\[(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?\s*(?:AM|PM|am|pm)?)\]\s*([^:]+?):\s*(.*)$/;
-
-  // European format: "31/12/2023, 23:45 - John: Hello"
-  const europeanRegex = /^(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*[-–]\s*([^:]+?):\s*(.*)$/;
-
-  const match = line.match(androidRegex) || line.match(iosRegex) || line.match(europeanRegex);
+function matchMessageLine(line: string, dialect: ExportDialect): MessageMatch | null {
+  const { messageAndroid, messageIos } = getDialectPatterns(dialect);
+  const match = line.match(messageAndroid) || line.match(messageIos);
 
   if (match) {
     const [, datePart, timePart, sender, content] = match;
-    const timestamp = parseTimestamp(datePart, timePart, dateOrder);
+    const timestamp = parseDialectTimestamp(datePart, timePart, dialect);
     if (timestamp) {
       return {
         timestamp,
@@ -276,13 +466,11 @@ function matchMessageLine(line: string, dateOrder: DateOrder): MessageMatch | nu
   return null;
 }
 
-function matchSystemLine(line: string, dateOrder: DateOrder): MessageMatch | null {
+function matchSystemLine(line: string, dialect: ExportDialect): MessageMatch | null {
   // Android system: "14/08/25, 12:02 am - Messages are end-to-end encrypted"
-  const androidSystem = /^(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?\s*(?:AM|PM|am|pm)?)\s*[-–]\s*(.*)$/;
   // iOS system: "[14/08/25, 12:02:21 am] Messages are end-to-end encrypted"
-  const iosSystem = /^\[(\d{1,2}\/\d{1,2}\/\d{2,4}),?\s+(\d{1,2}:\d{2}(?::\d{2})?\s*(?:AM|PM|am|pm)?)\]\s*(.*)$/;
-
-  const m = line.match(androidSystem) || line.match(iosSystem);
+  const { systemAndroid, systemIos } = getDialectPatterns(dialect);
+  const m = line.match(systemAndroid) || line.match(systemIos);
   if (!m) return null;
 
   const [, datePart, timePart, rest] = m;
@@ -290,7 +478,7 @@ function matchSystemLine(line: string, dateOrder: DateOrder): MessageMatch | nul
   // If it looks like "Sender: ..." it's not a system line.
   if (/^[^:]+?:\s/.test(rest)) return null;
 
-  const timestamp = parseTimestamp(datePart, timePart, dateOrder);
+  const timestamp = parseDialectTimestamp(datePart, timePart, dialect);
   if (!timestamp) return null;
 
   const cleaned = normalizeWaText(rest);
@@ -306,108 +494,40 @@ function matchSystemLine(line: string, dateOrder: DateOrder): MessageMatch | nul
 }
 
 /**
- * Parses date and time strings into a Date object
+ * Infer the export dialect from the chat file lines.
+ * Each registered dialect is scored by how many header lines it parses with
+ * in-range fields (so DD/MM vs MM/DD is decided by lines like "13/01" or "01/13").
+ * Ties go to the earlier registry entry, which keeps DD/MM as the default.
  */
-function parseTimestamp(datePart: string, timePart: string, dateOrderHint?: DateOrder): Date | null {
-  try {
-    // Normalize date part (handle both MM/DD/YYYY and DD/MM/YYYY)
-    const dateParts = datePart.split('/');
-    let month: number, day: number, year: number;
-    
-    if (dateParts.length === 3) {
-      // Try to determine format by checking values (or use hint for ambiguous cases)
-      const part1 = parseInt(dateParts[0]);
-      const part2 = parseInt(dateParts[1]);
-      const part3 = parseInt(dateParts[2]);
-      
-      if (dateOrderHint === 'DMY') {
-        day = part1;
-        month = part2;
-        year = part3;
-      } else if (dateOrderHint === 'MDY') {
-        month = part1;
-        day = part2;
-        year = part3;
-      } else if (part1 > 12) {
-        // DD/MM
-        day = part1;
-        month = part2;
-        year = part3;
-      } else if (part2 > 12) {
-        // MM/DD
-        month = part1;
-        day = part2;
-        year = part3;
-      } else {
-        // Ambiguous (both <= 12): default to DD/MM (works for most non-US locales)
-        day = part1;
-        month = part2;
-        year = part3;
-      }
-      
-      // Handle 2-digit years
-      if (year < 100) {
-        year += 2000;
-      }
-    } else {
-      return null;
-    }
-    
-    // Parse time part
-    const timeRegex = /(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|am|pm)?/;
-    const timeMatch = timePart.match(timeRegex);
-    
-    if (!timeMatch) return null;
-    
-    let hours = parseInt(timeMatch[1]);
-    const minutes = parseInt(timeMatch[2]);
-    const seconds = timeMatch[3] ? parseInt(timeMatch[3]) : 0;
-    const meridiem = timeMatch[4]?.toUpperCase();
-    
-    // Convert to 24-hour format if needed
-    if (meridiem === 'PM' && hours < 12) {
-      hours += 12;
-    } else if (meridiem === 'AM' && hours === 12) {
-      hours = 0;
-    }
-    
-    return new Date(year, month - 1, day, hours, minutes, seconds);
-  } catch (error) {
-    console.error('Error parsing timestamp:', error);
-    return null;
+export function inferExportDialect(lines: string[]): ExportDialect {
+  // Only scan the first chunk; enough to infer locale without heavy work.
+  const maxScan = Math.min(lines.length, DIALECT_SAMPLE_LINES);
+  const sample: string[] = [];
+  for (let i = 0; i < maxScan; i++) {
+    const line = normalizeWaText(lines[i]);
+    if (line) sample.push(line);
   }
-}
 
-/**
- * Infer date order from the chat file lines.
- * If we ever see a first number > 12, we know it's DD/MM.
- * If we ever see a second number > 12, we know it's MM/DD.
- * If ambiguous throughout, default to DD/MM (better for non-US locales).
- */
-function inferDateOrder(lines: string[]): DateOrder {
-  let dmyEvidence = 0;
-  let mdyEvidence = 0;
+  let best = DEFAULT_DIALECT;
+  let bestScore = 0;
 
-  // Only scan the first chunk; enough to infer locale without heavy work.
-  const maxScan = Math.min(lines.length, 800);
+  for (const dialect of EXPORT_DIALECTS) {
+    const { systemAndroid, systemIos } = getDialectPatterns(dialect);
+    let score = 0;
 
-  for (let i = 0; i < maxScan; i++) {
-    const line = lines[i];
-    // Quick extract: starts with date or [date
-    const m = line.match(/^\[?(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
-    if (!m) continue;
-    const a = parseInt(m[1], 10);
-    const b = parseInt(m[2], 10);
-    if (a > 12) dmyEvidence++;
-    if (b > 12) mdyEvidence++;
-  }
+    for (const line of sample) {
+      // System patterns also cover "Sender: text" lines
+      const m = line.match(systemAndroid) || line.match(systemIos);
+      if (m && parseDialectTimestamp(m[1], m[2], dialect, true)) score++;
+    }
 
-  if (dmyEvidence > 0 && mdyEvidence === 0) return 'DMY';
-  if (mdyEvidence > 0 && dmyEvidence === 0) return 'MDY';
+    if (score > bestScore) {
+      best = dialect;
+      bestScore = score;
+    }
+  }
 
-  // If both appear, pick the stronger signal; ties default to DMY.
-  if (mdyEvidence > dmyEvidence) return 'MDY';
-  return 'DMY';
+  return best;
 }
 
 /**
@@ -421,7 +541,7 @@ function createMessage(
   const { timestamp, sender, content } = match;
   
   // Determine message type and extract media info
-  const { type, mediaUrl, mediaFileName, mediaMimeType, mediaSize, driveFileId, thumbnailUrl, finalContent } =
+  const { type, mediaUrl, mediaFileName, mediaMimeType, mediaSize, driveFileId, zipMediaKey, thumbnailUrl, finalContent } =
     detectMessageType(content, mediaFiles);
   
   // Edited marker (Android export often appends this)
@@ -433,10 +553,16 @@ function createMessage(
   // Detect if it's a call log (WhatsApp exports call logs as text lines)
   const { isCall, callDuration, callKind, callMissed } = detectCallLog(replyCleaned);
 
+  // "This message was deleted" placeholder (any export language)
+  const isDeleted = isDeletedPlaceholder(replyCleaned);
+
   // System messages must come from system lines (no "Sender:").
   // Never infer system messages from normal chat text, otherwise we get false positives
   // like: "They joined waited tried calling and left".
   const isSystem = match.isSystemLine === true;
+
+  // Group events: who added/removed/left, subject and icon changes, etc.
+  const systemEvent = isSystem ? classifySystemLine(content) : undefined;
   
   // Detect if message is outgoing (sent by user)
   const isOutgoing = !isSystem && isMeSender(sender);
@@ -452,13 +578,19 @@ function createMessage(
     mediaMimeType,
     mediaSize,
     driveFileId,
+    zipMediaKey,
     thumbnailUrl,
     isOutgoing,
+    isDeleted: isDeleted || undefined,
     isEdited: isEdited || undefined,
     quotedMessage,
     callDuration,
     callKind,
     callMissed,
+    systemType: systemEvent?.systemType,
+    systemActor: systemEvent?.actor,
+    systemTargets: systemEvent?.targets,
+    systemSubject: systemEvent?.subject,
   };
 }
 
@@ -475,13 +607,15 @@ function detectMessageType(
   mediaMimeType?: string;
   mediaSize?: number;
   driveFileId?: string;
+  zipMediaKey?: string;
   thumbnailUrl?: string;
   finalContent: string;
 } {
   const c = normalizeWaText(content);
 
   // Common placeholders when media isn't included in export - skip these entirely
-  if (/^image omitted$/i.test(c) || /^video omitted$/i.test(c) || /^audio omitted$/i.test(c) || /^sticker omitted$/i.test(c) || /^document omitted$/i.test(c) || /^GIF omitted$/i.test(c)) {
+  // (any export language, see exportPhrases.ts)
+  if (isOmittedMediaPlaceholder(c)) {
     return { type: 'text', finalContent: '__OMITTED_MEDIA__' };
   }
 
@@ -521,6 +655,7 @@ function detectMessageType(
           mediaMimeType: mediaFile.mimeType,
           mediaSize: mediaFile.size,
           driveFileId,
+          zipMediaKey: mediaFile.zipMediaKey,
           thumbnailUrl: (mediaFile as MediaFile & { thumbnailLink?: string }).thumbnailLink,
           finalContent: caption
         };
@@ -607,7 +742,7 @@ function findMediaFile(fileName: string, mediaFiles: MediaFile[]): MediaFile | u
 /**
  * Determines message type from MIME type
  */
-function getMessageTypeFromMime(mimeType: string): MessageType {
+export function getMessageTypeFromMime(mimeType: string): MessageType {
   if (mimeType.startsWith('image/')) return 'image';
   if (mimeType.startsWith('video/')) return 'video';
   if (mimeType.startsWith('audio/')) return 'audio';
@@ -616,10 +751,10 @@ function getMessageTypeFromMime(mimeType: string): MessageType {
 }
 
 function stripEditedMarker(text: string): { cleaned: string; isEdited: boolean } {
-  const marker = '<This message was edited>';
-  const idx = text.lastIndexOf(marker);
-  if (idx === -1) return { cleaned: text, isEdited: false };
-  const cleaned = (text.slice(0, idx) + text.slice(idx + marker.length)).trim();
+  const found = findEditedMarker(text);
+  if (!found) return { cleaned: text, isEdited: false };
+  const { index, marker } = found;
+  const cleaned = (text.slice(0, index) + text.slice(index + marker.length)).trim();
   return { cleaned, isEdited: true };
 }
 
@@ -649,24 +784,18 @@ function detectCallLog(text: string): { isCall: boolean; callDuration?: string;
   const t = (text || '').trim();
   // Examples:
   // "Voice call, 1 min"
-  // "Voice call, 4 min"
   // "Video call, 2 min"
   // "Missed voice call"
-  const missedVoice = /^missed voice call/i.test(t);
-  const missedVideo = /^missed video call/i.test(t);
-  if (missedVoice) return { isCall: true, callKind: 'voice', callMissed: true };
-  if (missedVideo) return { isCall: true, callKind: 'video', callMissed: true };
-
-  const voiceCall = t.match(/^voice call(?:,)?\s*(.*)$/i);
-  if (voiceCall) {
-    const dur = voiceCall[1]?.trim();
-    return { isCall: true, callKind: 'voice', callDuration: dur || undefined };
-  }
+  // "Llamada de voz perdida", "Sprachanruf, 3 Min."
+  const lower = t.toLowerCase();
+  for (const { phrases, kind, missed } of CALL_PHRASES) {
+    const phrase = phrases.find(p => lower.startsWith(p.toLowerCase()));
+    if (!phrase) continue;
+
+    if (missed) return { isCall: true, callKind: kind, callMissed: true };
 
-  const videoCall = t.match(/^video call(?:,)?\s*(.*)$/i);
-  if (videoCall) {
-    const dur = videoCall[1]?.trim();
-    return { isCall: true, callKind: 'video', callDuration: dur || undefined };
+    const dur = t.slice(phrase.length).replace(/^,/, '').trim();
+    return { isCall: true, callKind: kind, callDuration: dur || undefined };
   }
 
   return { isCall: false };
@@ -674,40 +803,46 @@ function detectCallLog(text: string): { isCall: boolean; callDuration?: string;
 
 /**
  * Extracts unique participants from messages
+ * Senders come first; members only named in system events (added, left, ...)
+ * are appended so silent group members are not lost. Phone-number senders are
+ * keyed by E.164, and their messages are relabelled with the first spelling seen
+ * so "+44 7700 900123" and "07700 900123" become one participant.
  */
 function extractParticipants(messages: Message[]): Participant[] {
   const participantMap = new Map<string, Participant>();
   const colors = generateParticipantColors();
   let colorIndex = 0;
-  
-  messages.forEach(msg => {
-    if (!participantMap.has(msg.sender) && msg.type !== 'system') {
-      participantMap.set(msg.sender, {
-        id: generateParticipantId(msg.sender),
-        name: msg.sender,
+
+  const addParticipant = (name: string): Participant => {
+    const key = getSenderKey(name);
+    let participant = participantMap.get(key);
+    if (!participant) {
+      participant = {
+        id: generateParticipantId(name),
+        name,
         color: colors[colorIndex % colors.length]
-      });
+      };
+      participantMap.set(key, participant);
       colorIndex++;
     }
-  });
+    return participant;
+  };
   
-  return Array.from(participantMap.values());
-}
+  messages.forEach(msg => {
+    if (msg.type === 'system') return;
+    const participant = addParticipant(msg.sender);
+    if (participant.name !== msg.sender) msg.sender = participant.name;
+  });
 
-/**
- * Detects if chat is a group based on content patterns
- */
-function detectGroupIndicators(content: string): boolean {
-  const groupPatterns = [
-    /created group/i,
-    /added/i,
-    /removed/i,
-    /joined using this group's invite link/i,
-    /changed the subject from/i,
-    /You're now an admin/i
-  ];
+  messages.forEach(msg => {
+    if (msg.type !== 'system') return;
+    const names = [msg.systemActor, ...(msg.systemTargets ?? [])];
+    for (const name of names) {
+      if (name && !isSelfReference(name) && !isMeSender(name)) addParticipant(name);
+    }
+  });
   
-  return groupPatterns.some(pattern => pattern.test(content));
+  return Array.from(participantMap.values());
 }
 
 /**
@@ -0,0 +1,218 @@
+/**
+ * WhatsApp Export Dialects
+ * Registry of the date/time grammars WhatsApp uses for message headers.
+ * The export follows the phone's locale, so the same chat can look like any of:
+ *
+ * - English (DMY):   "31/12/2023, 11:45 pm - John: Hello"
+ * - English (MDY):   "[12/31/23, 11:45:32 PM] John: Hello"
+ * - German:          "31.12.23, 23:45 - John: Hallo"
+ * - Dutch:           "31-12-2023 23:45 - John: Hallo"
+ * - Japanese:        "2023/12/31 23:45 - John: こんにちは"
+ * - ISO-style:       "2023-12-31, 23:45 - John: Hello"
+ * - Spanish:         "31/12/23, 11:45 p. m. - John: Hola"
+ * - Arabic digits:   "٣١/١٢/٢٠٢٣، ١١:٤٥ م - John: مرحبا"
+ *
+ * Design decisions:
+ * - A dialect only describes the timestamp; the "[...]" (iOS) vs " - " (Android)
+ *   framing is shared by every dialect
+ * - Registry order is the tie-breaker during detection, so the historical
+ *   default (DD/MM with slashes) comes first
+ */
+
+export type DateFieldOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface ExportDialect {
+  id: string;
+  label: string;
+  dateSeparator: '/' | '.' | '-';
+  dateOrder: DateFieldOrder;
+  // 12-hour clock marker words. Omitted for dialects that only export 24h time.
+  meridiem?: {
+    am: string[];
+    pm: string[];
+    position: 'before' | 'after'; // "11:45 PM" vs "午後11:45"
+  };
+}
+
+export interface DialectPatterns {
+  messageAndroid: RegExp;
+  messageIos: RegExp;
+  systemAndroid: RegExp;
+  systemIos: RegExp;
+  timestampPrefix: RegExp;
+}
+
+const ENGLISH_MERIDIEM: ExportDialect['meridiem'] = {
+  am: ['am', 'a.m.'],
+  pm: ['pm', 'p.m.'],
+  position: 'after',
+};
+
+export const EXPORT_DIALECTS: ExportDialect[] = [
+  { id: 'en-dmy', label: 'English (DD/MM/YY)', dateSeparator: '/', dateOrder: 'DMY', meridiem: ENGLISH_MERIDIEM },
+  { id: 'en-mdy', label: 'English (MM/DD/YY)', dateSeparator: '/', dateOrder: 'MDY', meridiem: ENGLISH_MERIDIEM },
+  {
+    id: 'de',
+    label: 'German (DD.MM.YY)',
+    dateSeparator: '.',
+    dateOrder: 'DMY',
+    meridiem: { am: ['vorm.'], pm: ['nachm.'], position: 'after' },
+  },
+  { id: 'nl', label: 'Dutch (DD-MM-YYYY)', dateSeparator: '-', dateOrder: 'DMY' },
+  {
+    id: 'ja',
+    label: 'Japanese (YYYY/MM/DD)',
+    dateSeparator: '/',
+    dateOrder: 'YMD',
+    meridiem: { am: ['午前'], pm: ['午後'], position: 'before' },
+  },
+  { id: 'iso', label: 'ISO (YYYY-MM-DD)', dateSeparator: '-', dateOrder: 'YMD', meridiem: ENGLISH_MERIDIEM },
+  {
+    id: 'es',
+    label: 'Spanish (DD/MM/YY, a. m./p. m.)',
+    dateSeparator: '/',
+    dateOrder: 'DMY',
+    meridiem: { am: ['a. m.', 'a.m.'], pm: ['p. m.', 'p.m.'], position: 'after' },
+  },
+  {
+    id: 'hi',
+    label: 'Hindi (DD/MM/YY)',
+    dateSeparator: '/',
+    dateOrder: 'DMY',
+    meridiem: { am: ['am', 'पूर्वाह्न'], pm: ['pm', 'अपराह्न'], position: 'after' },
+  },
+  {
+    id: 'ar',
+    label: 'Arabic (DD/MM/YYYY, ص/م)',
+    dateSeparator: '/',
+    dateOrder: 'DMY',
+    meridiem: { am: ['ص'], pm: ['م'], position: 'after' },
+  },
+];
+
+export const DEFAULT_DIALECT = EXPORT_DIALECTS[0];
+
+// ASCII plus Arabic-Indic and Extended Arabic-Indic (Persian/Urdu) digits
+const DIGIT = '[0-9\\u0660-\\u0669\\u06F0-\\u06F9]';
+
+const patternCache = new Map<string, DialectPatterns>();
+
+/**
+ * Builds (and memoizes) the header regexes for a dialect
+ */
+export function getDialectPatterns(dialect: ExportDialect): DialectPatterns {
+  const cached = patternCache.get(dialect.id);
+  if (cached) return cached;
+
+  const sep = escapeRegex(dialect.dateSeparator);
+  const date = dialect.dateOrder === 'YMD'
+    ? `${DIGIT}{4}${sep}${DIGIT}{1,2}${sep}${DIGIT}{1,2}`
+    : `${DIGIT}{1,2}${sep}${DIGIT}{1,2}${sep}${DIGIT}{2,4}`;
+
+  const clock = `${DIGIT}{1,2}:${DIGIT}{2}(?::${DIGIT}{2})?`;
+  let time = clock;
+  if (dialect.meridiem) {
+    const words = [...dialect.meridiem.am, ...dialect.meridiem.pm]
+      .sort((a, b) => b.length - a.length) // Longest first so "a. m." beats "a"
+      .map(escapeRegex)
+      .join('|');
+    time = dialect.meridiem.position === 'before'
+      ? `(?:(?:${words})\\s*)?${clock}`
+      : `${clock}(?:\\s*(?:${words}))?`;
+  }
+
+  // Date and time are joined by "," / Arabic comma and/or whitespace
+  const stamp = `(${date})[,،]?\\s+(${time})`;
+
+  const patterns: DialectPatterns = {
+    messageAndroid: new RegExp(`^${stamp}\\s*[-–]\\s*([^:]+?):\\s*(.*)$`, 'i'),
+    messageIos: new RegExp(`^\\[${stamp}\\]\\s*([^:]+?):\\s*(.*)$`, 'i'),
+    systemAndroid: new RegExp(`^${stamp}\\s*[-–]\\s*(.*)$`, 'i'),
+    systemIos: new RegExp(`^\\[${stamp}\\]\\s*(.*)$`, 'i'),
+    timestampPrefix: new RegExp(`^\\s*\\[?${stamp}\\s*(?:\\]|[-–])`, 'i'),
+  };
+
+  patternCache.set(dialect.id, patterns);
+  return patterns;
+}
+
+/**
+ * Parses a header's date and time parts according to a dialect.
+ * With `strict`, out-of-range fields return null instead of being reinterpreted;
+ * detection uses this to score how well a dialect fits a file.
+ */
+export function parseDialectTimestamp(
+  datePart: string,
+  timePart: string,
+  dialect: ExportDialect,
+  strict = false
+): Date | null {
+  const fields = toAsciiDigits(datePart).split(dialect.dateSeparator).map(n => parseInt(n, 10));
+  if (fields.length !== 3 || fields.some(n => isNaN(n))) return null;
+
+  let year: number, month: number, day: number;
+  if (dialect.dateOrder === 'YMD') {
+    [year, month, day] = fields;
+  } else if (dialect.dateOrder === 'MDY') {
+    [month, day, year] = fields;
+  } else {
+    [day, month, year] = fields;
+  }
+
+  // A stray line from the other slash order (e.g. one US-formatted line in an
+  // otherwise DD/MM file): swap rather than produce a rolled-over date.
+  if (month > 12 && day <= 12 && dialect.dateOrder !== 'YMD') {
+    if (strict) return null;
+    [day, month] = [month, day];
+  }
+
+  if (year < 100) {
+    year += 2000;
+  }
+
+  const time = toAsciiDigits(timePart);
+  const timeMatch = time.match(/(\d{1,2}):(\d{2})(?::(\d{2}))?/);
+  if (!timeMatch) return null;
+
+  let hours = parseInt(timeMatch[1], 10);
+  const minutes = parseInt(timeMatch[2], 10);
+  const seconds = timeMatch[3] ? parseInt(timeMatch[3], 10) : 0;
+
+  const meridiem = detectMeridiem(time, dialect);
+  if (meridiem === 'PM' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'AM' && hours === 12) {
+    hours = 0;
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) {
+    return null;
+  }
+
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+function detectMeridiem(time: string, dialect: ExportDialect): 'AM' | 'PM' | null {
+  if (!dialect.meridiem) return null;
+  const marker = time.replace(/[\d:\s]/g, '').toLowerCase();
+  if (!marker) return null;
+
+  const strip = (w: string) => w.replace(/\s/g, '').toLowerCase();
+  if (dialect.meridiem.pm.some(w => strip(w) === marker)) return 'PM';
+  if (dialect.meridiem.am.some(w => strip(w) === marker)) return 'AM';
+  return null;
+}
+
+/**
+ * Converts Arabic-Indic / Extended Arabic-Indic digits to ASCII
+ */
+export function toAsciiDigits(s: string): string {
+  return s.replace(/[\u0660-\u0669\u06F0-\u06F9]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    return String(code >= 0x06F0 ? code - 0x06F0 : code - 0x0660);
+  });
+}
+
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { classifySystemLine, isSelfReference, GROUP_SUBJECT_PATTERNS } from './exportPhrases';
+
+describe('classifySystemLine', () => {
+  it.each([
+    // Spanish words the exporting user's own actions as separate phrases
+    ['Añadiste a Ana y Luis', { systemType: 'participant_added', actor: 'Tú', targets: ['Ana', 'Luis'] }],
+    ['Eliminaste a Ana', { systemType: 'participant_removed', actor: 'Tú', targets: ['Ana'] }],
+    ['Saliste del grupo', { systemType: 'participant_left', actor: 'Tú' }],
+    ['Cambiaste el asunto de “Viejo” a “Nuevo”', { systemType: 'subject_changed', actor: 'Tú', subject: 'Nuevo' }],
+    ['Creaste el grupo “Familia”', { systemType: 'group_created', actor: 'Tú', subject: 'Familia' }],
+    ['Juan te añadió', { systemType: 'participant_added', actor: 'Juan', targets: ['Tú'] }],
+    // Portuguese uses "Você" with the third-person verb
+    ['Você adicionou Ana', { systemType: 'participant_added', actor: 'Você', targets: ['Ana'] }],
+    ['Ana adicionou você', { systemType: 'participant_added', actor: 'Ana', targets: ['você'] }],
+    ['Você saiu', { systemType: 'participant_left', actor: 'Você' }],
+    ['Você mudou o nome do grupo para “Novo”', { systemType: 'subject_changed', actor: 'Você', subject: 'Novo' }],
+    // German conjugates "hat" as "hast"
+    ['Du hast Anna hinzugefügt', { systemType: 'participant_added', actor: 'Du', targets: ['Anna'] }],
+    ['Du hast Anna entfernt', { systemType: 'participant_removed', actor: 'Du', targets: ['Anna'] }],
+    ['Du hast die Gruppe verlassen', { systemType: 'participant_left', actor: 'Du' }],
+    ['Du hast den Betreff zu „Neu“ geändert', { systemType: 'subject_changed', actor: 'Du', subject: 'Neu' }],
+    ['Anna hat dich hinzugefügt', { systemType: 'participant_added', actor: 'Anna', targets: ['Du'] }],
+    // Hindi fuses the pronoun and particle ("आपने", "आपको")
+    ['आपने प्रिया को जोड़ा', { systemType: 'participant_added', actor: 'आप', targets: ['प्रिया'] }],
+    ['आपने प्रिया को हटाया', { systemType: 'participant_removed', actor: 'आप', targets: ['प्रिया'] }],
+    ['आपने ग्रुप छोड़ दिया', { systemType: 'participant_left', actor: 'आप' }],
+    ['आपने विषय बदलकर “परिवार” कर दिया', { systemType: 'subject_changed', actor: 'आप', subject: 'परिवार' }],
+    ['राहुल ने आपको जोड़ा', { systemType: 'participant_added', actor: 'राहुल', targets: ['आप'] }],
+  ])('%s', (line, expected) => {
+    expect(classifySystemLine(line)).toEqual(expected);
+  });
+
+  it('reports second-person actors and targets as the exporting user', () => {
+    for (const line of ['Saliste del grupo', 'Du hast die Gruppe verlassen', 'आपने ग्रुप छोड़ दिया']) {
+      expect(isSelfReference(classifySystemLine(line).actor!)).toBe(true);
+    }
+    expect(isSelfReference(classifySystemLine('Juan te añadió').targets![0])).toBe(true);
+  });
+});
+
+describe('GROUP_SUBJECT_PATTERNS', () => {
+  it.each([
+    ['Cambiaste el asunto a “Nuevo”', 'Nuevo'],
+    ['Du hast den Betreff zu „Neu“ geändert', 'Neu'],
+  ])('finds the subject in %s', (line, subject) => {
+    const match = GROUP_SUBJECT_PATTERNS.map(pattern => line.match(pattern)).find(Boolean);
+    expect(match?.[1]).toBe(subject);
+  });
+});
@@ -0,0 +1,391 @@
+/**
+ * WhatsApp Export Phrases
+ * Translation table of the system and placeholder phrases WhatsApp writes into
+ * chat exports, per export language.
+ *
+ * The parser uses these to recognise omitted media, edit/deletion markers,
+ * call logs and group subject lines regardless of the phone's language.
+ *
+ * Design decisions:
+ * - Whole-message placeholders are matched case-insensitively on trimmed text
+ * - Subject patterns capture the group name in group 1
+ * - System event patterns use named groups: actor, targets, subject; where a
+ *   locale words "You added ..." or "... added you" as its own phrase, the
+ *   pattern marks the actor or target as the exporting user instead
+ * - Strings follow WhatsApp's own wording; where a locale has shipped several
+ *   variants over the years, all known variants are listed
+ */
+
+import type { SystemMessageType } from '../types';
+
+export interface SystemEventPattern {
+  type: SystemMessageType;
+  pattern: RegExp;
+  self?: 'actor' | 'targets'; // Filled with the table's first self reference
+}
+
+export interface PhraseTable {
+  language: string;
+  omittedMedia: string[];
+  editedMarkers: string[];
+  deletedMessages: string[];
+  calls: {
+    missedVoice: string[];
+    missedVideo: string[];
+    voice: string[];
+    video: string[];
+  };
+  groupSubject: RegExp[];
+  groupIndicators: RegExp[];
+  // Checked in order; put specific phrasings before generic ones
+  systemEvents: SystemEventPattern[];
+  listConjunction: string; // "Alice, Bob and Carol"
+  selfReferences: string[]; // How the exporting user appears as actor ("You")
+}
+
+// Opening/closing quotes used around group names across locales
+const QO = '["“„«]';
+const QC = '["”“»]';
+
+function ev(type: SystemMessageType, source: string, flags = 'i', self?: SystemEventPattern['self']): SystemEventPattern {
+  return { type, pattern: new RegExp(`^${source}$`, flags), ...(self && { self }) };
+}
+
+export const PHRASE_TABLES: PhraseTable[] = [
+  {
+    language: 'en',
+    omittedMedia: [
+      'image omitted', 'video omitted', 'audio omitted', 'sticker omitted',
+      'document omitted', 'GIF omitted', 'Contact card omitted', '<Media omitted>',
+    ],
+    editedMarkers: ['<This message was edited>'],
+    deletedMessages: ['This message was deleted', 'You deleted this message'],
+    calls: {
+      missedVoice: ['Missed voice call'],
+      missedVideo: ['Missed video call'],
+      voice: ['Voice call'],
+      video: ['Video call'],
+    },
+    groupSubject: [
+      new RegExp(`created group\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`changed the subject to\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`changed the subject from\\s+${QO}.+?${QC}\\s+to\\s+${QO}(.+?)${QC}`, 'i'),
+      // Some exports omit quotes:
+      /changed the subject to\s+(.+?)$/im,
+    ],
+    groupIndicators: [
+      /created group/i,
+      /added/i,
+      /removed/i,
+      /joined using this group's invite link/i,
+      /changed the subject from/i,
+      /You're now an admin/i,
+    ],
+    systemEvents: [
+      ev('encryption_notice', '.*end-to-end encrypted.*'),
+      ev('group_created', `(?<actor>.+?) created group\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('subject_changed', `(?<actor>.+?) changed the subject (?:from\\s+${QO}.+?${QC}\\s+)?to\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('icon_changed', `(?<actor>.+?) (?:changed|deleted) this group's icon`),
+      ev('participant_joined', `(?<actor>.+?) joined using this group's invite link`),
+      ev('participant_left', '(?<actor>.+?) left'),
+      ev('participant_added', '(?<actor>.+?) added (?<targets>.+)'),
+      ev('participant_removed', '(?<actor>.+?) removed (?<targets>.+)'),
+      ev('you_blocked', 'You blocked this contact\\.?.*'),
+      ev('you_unblocked', 'You unblocked this contact\\.?.*'),
+    ],
+    listConjunction: 'and',
+    selfReferences: ['You'],
+  },
+  {
+    language: 'es',
+    omittedMedia: [
+      'imagen omitida', 'video omitido', 'audio omitido', 'sticker omitido',
+      'documento omitido', 'GIF omitido', 'tarjeta de contacto omitida', '<Multimedia omitido>',
+    ],
+    editedMarkers: ['<Se editó este mensaje.>', '<Se editó este mensaje>'],
+    deletedMessages: ['Se eliminó este mensaje.', 'Se eliminó este mensaje', 'Eliminaste este mensaje.', 'Eliminaste este mensaje'],
+    calls: {
+      missedVoice: ['Llamada perdida de voz', 'Llamada de voz perdida'],
+      missedVideo: ['Videollamada perdida'],
+      voice: ['Llamada de voz'],
+      video: ['Videollamada'],
+    },
+    groupSubject: [
+      new RegExp(`(?:creó|creaste) el grupo\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`(?:cambió|cambiaste) el asunto de\\s+${QO}.+?${QC}\\s+a\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`(?:cambió|cambiaste) el asunto a\\s+${QO}(.+?)${QC}`, 'i'),
+    ],
+    groupIndicators: [
+      /(?:creó|creaste) el grupo/i,
+      /(?:añadió|añadiste) a/i,
+      /te añadió/i,
+      /(?:eliminó|eliminaste) a/i,
+      /(?:se unió|te uniste) usando el enlace de invitación/i,
+      /(?:cambió|cambiaste) el asunto/i,
+    ],
+    systemEvents: [
+      ev('encryption_notice', '.*cifrados de extremo a extremo.*'),
+      ev('group_created', `(?<actor>.+?) creó el grupo\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('subject_changed', `(?<actor>.+?) cambió el asunto (?:de\\s+${QO}.+?${QC}\\s+)?a\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('icon_changed', '(?<actor>.+?) (?:cambió|eliminó) (?:la imagen|el ícono) de este grupo'),
+      ev('participant_joined', '(?<actor>.+?) se unió usando el enlace de invitación de este grupo'),
+      ev('participant_left', '(?<actor>.+?) salió del grupo'),
+      ev('participant_added', '(?<actor>.+?) añadió a (?<targets>.+)'),
+      ev('participant_removed', '(?<actor>.+?) eliminó a (?<targets>.+)'),
+      // Second person: "Añadiste a Ana", "Juan te añadió"
+      ev('group_created', `Creaste el grupo\\s+${QO}(?<subject>.+?)${QC}`, 'i', 'actor'),
+      ev('subject_changed', `Cambiaste el asunto (?:de\\s+${QO}.+?${QC}\\s+)?a\\s+${QO}(?<subject>.+?)${QC}`, 'i', 'actor'),
+      ev('icon_changed', '(?:Cambiaste|Eliminaste) (?:la imagen|el ícono) de este grupo', 'i', 'actor'),
+      ev('participant_joined', 'Te uniste usando el enlace de invitación de este grupo', 'i', 'actor'),
+      ev('participant_left', 'Saliste del grupo\\.?', 'i', 'actor'),
+      ev('participant_added', 'Añadiste a (?<targets>.+)', 'i', 'actor'),
+      ev('participant_added', '(?<actor>.+?) te añadió\\.?', 'i', 'targets'),
+      ev('participant_removed', 'Eliminaste a (?<targets>.+)', 'i', 'actor'),
+      ev('participant_removed', '(?<actor>.+?) te eliminó\\.?', 'i', 'targets'),
+      ev('you_blocked', 'Bloqueaste a este contacto\\.?.*'),
+      ev('you_unblocked', 'Desbloqueaste a este contacto\\.?.*'),
+    ],
+    listConjunction: 'y',
+    selfReferences: ['Tú'],
+  },
+  {
+    language: 'pt',
+    omittedMedia: [
+      'imagem ocultada', 'vídeo omitido', 'áudio ocultado', 'figurinha omitida',
+      'documento omitido', 'GIF omitido', 'cartão de contato omitido', '<Mídia oculta>',
+    ],
+    editedMarkers: ['<Mensagem editada>'],
+    deletedMessages: ['Mensagem apagada', 'Você apagou esta mensagem', 'Essa mensagem foi apagada'],
+    calls: {
+      missedVoice: ['Chamada de voz perdida'],
+      missedVideo: ['Chamada de vídeo perdida'],
+      voice: ['Chamada de voz'],
+      video: ['Chamada de vídeo'],
+    },
+    groupSubject: [
+      new RegExp(`criou o grupo\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`mudou o nome de\\s+${QO}.+?${QC}\\s+para\\s+${QO}(.+?)${QC}`, 'i'),
+      new RegExp(`mudou o nome do grupo para\\s+${QO}(.+?)${QC}`, 'i'),
+    ],
+    groupIndicators: [
+      /criou o grupo/i,
+      /adicionou/i,
+      /removeu/i,
+      /entrou usando o link de convite/i,
+      /mudou o nome/i,
+    ],
+    systemEvents: [
+      ev('encryption_notice', '.*criptografia de ponta a ponta.*'),
+      ev('group_created', `(?<actor>.+?) criou o grupo\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('subject_changed', `(?<actor>.+?) mudou o nome (?:de\\s+${QO}.+?${QC}\\s+para|do grupo para)\\s+${QO}(?<subject>.+?)${QC}`),
+      ev('icon_changed', '(?<actor>.+?) (?:mudou|apagou) a imagem (?:deste|do) grupo'),
+      ev('participant_joined', '(?<actor>.+?) entrou usando o link de convite deste grupo'),
+      ev('participant_left', '(?<actor>.+?) saiu'),
+      // "Você adicionou Ana" and "Ana adicionou você" match as actor/target "Você"
+      ev('participant_added', '(?<actor>.+?) adicionou (?<targets>.+)'),
+      ev('participant_removed', '(?<actor>.+?) removeu (?<targets>.+)'),
+      ev('you_blocked', 'Você bloqueou este contato\\.?.*'),
+      ev('you_unblocked', 'Você desbloqueou este contato\\.?.*'),
+    ],
+    listConjunction: 'e',
+    selfReferences: ['Você'],
+  },
+  {
+    language: 'de',
+    omittedMedia: [
+      'Bild weggelassen', 'Video weggelassen', 'Audio weggelassen', 'Sticker weggelassen',
+      'Dokument weggelassen', 'GIF weggelassen', 'Kontaktkarte ausgelassen', '<Medien ausgeschlossen>',
+    ],
+    editedMarkers: ['<Diese Nachricht wurde bearbeitet.>', '<Diese Nachricht wurde bearbeitet>'],
+    deletedMessages: [
+      'Diese Nachricht wurde gelöscht.', 'Diese Nachricht wurde gelöscht',
+      'Du hast diese Nachricht gelöscht.', 'Du hast diese Nachricht gelöscht',
+    ],
+    calls: {
+      missedVoice: ['Verpasster Sprachanruf'],
+      missedVideo: ['Verpasster Videoanruf'],
+      voice: ['Sprachanruf'],
+      video: ['Videoanruf'],
+    },
+    groupSubject: [
+      new RegExp(`(?:hat|hast) die Gruppe\\s+${QO}(.+?)${QC}\\s+erstellt`, 'i'),
+      new RegExp(`(?:hat|hast) den Betreff von\\s+${QO}.+?${QC}\\s+zu\\s+${QO}(.+?)${QC}\\s+geändert`, 'i'),
+      new RegExp(`(?:hat|hast) den Betreff zu\\s+${QO}(.+?)${QC}\\s+geändert`, 'i'),
+    ],
+    groupIndicators: [
+      /(?:hat|hast) die Gruppe .+ erstellt/i,
+      /hinzugefügt/i,
+      /entfernt/i,
+      /(?:ist|bist) über den Einladungslink dieser Gruppe beigetreten/i,
+      /(?:hat|hast) den Betreff/i,
+    ],
+    systemEvents: [
+      ev('encryption_notice', '.*Ende-zu-Ende-verschlüsselt.*'),
+      // "Du hast ..." conjugates hat as hast; "... hat dich ..." names you as target
+      ev('participant_added', '(?<actor>.+?) hat dich hinzugefügt', 'i', 'targets'),
+      ev('participant_removed', '(?<actor>.+?) hat dich entfernt', 'i', 'targets'),
+      ev('group_created', `(?<actor>.+?) (?:hat|hast) die Gruppe\\s+${QO}(?<subject>.+?)${QC}\\s+erstellt`),
+      ev('subject_changed', `(?<actor>.+?) (?:hat|hast) den Betreff (?:von\\s+${QO}.+?${QC}\\s+)?zu\\s+${QO}(?<subject>.+?)${QC}\\s+geändert`),
+      ev('icon_changed', '(?<actor>.+?) (?:hat|hast) das Gruppenbild (?:geändert|gelöscht)'),
+      ev('participant_joined', '(?<actor>.+?) (?:ist|bist) über den Einladungslink dieser Gruppe beigetreten'),
+      ev('participant_left', '(?<actor>.+?) (?:hat|hast) die Gruppe verlassen'),
+      ev('participant_added', '(?<actor>.+?) (?:hat|hast) (?<targets>.+?) hinzugefügt'),
+      ev('participant_removed', '(?<actor>.+?) (?:hat|hast) (?<targets>.+?) entfernt'),
+      ev('you_blocked', 'Du hast diesen Kontakt blockiert\\.?.*'),
+      ev('you_unblocked', 'Du hast diesen Kontakt freigegeben\\.?.*'),
+    ],
+    listConjunction: 'und',
+    selfReferences: ['Du'],
+  },
+  {
+    language: 'hi',
+    omittedMedia: [
+      'इमेज छोड़ी गई', 'वीडियो छोड़ा गया', 'ऑडियो छोड़ा गया', 'स्टिकर छोड़ा गया',
+      'दस्तावेज़ छोड़ा गया', 'GIF छोड़ा गया', '<मीडिया छोड़ा गया>',
+    ],
+    editedMarkers: ['<यह संदेश संपादित किया गया था>'],
+    deletedMessages: ['यह संदेश हटा दिया गया था', 'आपने यह संदेश हटाया'],
+    calls: {
+      missedVoice: ['मिस्ड वॉइस कॉल'],
+      missedVideo: ['मिस्ड वीडियो कॉल'],
+      voice: ['वॉइस कॉल'],
+      video: ['वीडियो कॉल'],
+    },
+    groupSubject: [
+      new RegExp(`ने ग्रुप\\s+${QO}(.+?)${QC}\\s+बनाया`),
+      new RegExp(`ने विषय\\s+${QO}.+?${QC}\\s+से बदलकर\\s+${QO}(.+?)${QC}`),
+      new RegExp(`ने विषय बदलकर\\s+${QO}(.+?)${QC}`),
+    ],
+    groupIndicators: [
+      /ने ग्रुप .+ बनाया/,
+      /को जोड़ा/,
+      /को हटाया/,
+      /ने विषय/,
+    ],
+    systemEvents: [
+      ev('encryption_notice', '.*एंड-टू-एंड एन्क्रिप्टेड.*', ''),
+      // "आपने" (you) fuses ने into the pronoun; "आपको" (you) does the same with को
+      ev('group_created', `आपने ग्रुप\\s+${QO}(?<subject>.+?)${QC}\\s+बनाया`, '', 'actor'),
+      ev('subject_changed', `आपने विषय (?:${QO}.+?${QC}\\s+से\\s+)?बदलकर\\s+${QO}(?<subject>.+?)${QC}.*`, '', 'actor'),
+      ev('icon_changed', 'आपने इस ग्रुप का आइकन (?:बदला|हटाया)', '', 'actor'),
+      ev('participant_left', 'आपने ग्रुप छोड़ दिया', '', 'actor'),
+      ev('participant_added', 'आपने (?<targets>.+?) को जोड़ा', '', 'actor'),
+      ev('participant_removed', 'आपने (?<targets>.+?) को हटाया', '', 'actor'),
+      ev('participant_added', '(?<actor>.+?) ने आपको जोड़ा', '', 'targets'),
+      ev('participant_removed', '(?<actor>.+?) ने आपको हटाया', '', 'targets'),
+      ev('group_created', `(?<actor>.+?) ने ग्रुप\\s+${QO}(?<subject>.+?)${QC}\\s+बनाया`, ''),
+      ev('subject_changed', `(?<actor>.+?) ने विषय (?:${QO}.+?${QC}\\s+से\\s+)?बदलकर\\s+${QO}(?<subject>.+?)${QC}.*`, ''),
+      ev('icon_changed', '(?<actor>.+?) ने इस ग्रुप का आइकन (?:बदला|हटाया)', ''),
+      ev('participant_joined', '(?<actor>.+?) इस ग्रुप के आमंत्रण लिंक से जुड़े', ''),
+      ev('participant_left', '(?<actor>.+?) ने ग्रुप छोड़ दिया', ''),
+      ev('participant_added', '(?<actor>.+?) ने (?<targets>.+?) को जोड़ा', ''),
+      ev('participant_removed', '(?<actor>.+?) ने (?<targets>.+?) को हटाया', ''),
+    ],
+    listConjunction: 'और',
+    selfReferences: ['आप'],
+  },
+];
+
+const OMITTED_MEDIA = new Set(
+  PHRASE_TABLES.flatMap(t => t.omittedMedia).map(p => p.toLowerCase())
+);
+const DELETED_MESSAGES = new Set(
+  PHRASE_TABLES.flatMap(t => t.deletedMessages).map(p => p.toLowerCase())
+);
+const EDITED_MARKERS = PHRASE_TABLES.flatMap(t => t.editedMarkers);
+const SELF_REFERENCES = new Set(
+  PHRASE_TABLES.flatMap(t => t.selfReferences).map(p => p.toLowerCase())
+);
+
+/**
+ * True if the whole message is a "media omitted" placeholder
+ */
+export function isOmittedMediaPlaceholder(text: string): boolean {
+  return OMITTED_MEDIA.has(text.trim().toLowerCase());
+}
+
+/**
+ * True if the whole message is a "this message was deleted" placeholder
+ */
+export function isDeletedPlaceholder(text: string): boolean {
+  return DELETED_MESSAGES.has(text.trim().toLowerCase());
+}
+
+/**
+ * True if a system event actor/target refers to the exporting user ("You", "Du", ...)
+ */
+export function isSelfReference(name: string): boolean {
+  return SELF_REFERENCES.has(name.trim().toLowerCase());
+}
+
+/**
+ * Finds the last edited marker in the text, in any language
+ */
+export function findEditedMarker(text: string): { index: number; marker: string } | null {
+  let found: { index: number; marker: string } | null = null;
+  for (const marker of EDITED_MARKERS) {
+    const index = text.lastIndexOf(marker);
+    if (index !== -1 && (!found || index > found.index)) {
+      found = { index, marker };
+    }
+  }
+  return found;
+}
+
+/**
+ * Call log phrases across languages. Missed calls come first because several
+ * locales phrase them as "<voice call> <missed>" (e.g. "Llamada de voz perdida").
+ */
+export const CALL_PHRASES: Array<{ phrases: string[]; kind: 'voice' | 'video'; missed: boolean }> = [
+  { phrases: PHRASE_TABLES.flatMap(t => t.calls.missedVoice), kind: 'voice', missed: true },
+  { phrases: PHRASE_TABLES.flatMap(t => t.calls.missedVideo), kind: 'video', missed: true },
+  { phrases: PHRASE_TABLES.flatMap(t => t.calls.voice), kind: 'voice', missed: false },
+  { phrases: PHRASE_TABLES.flatMap(t => t.calls.video), kind: 'video', missed: false },
+];
+
+export const GROUP_SUBJECT_PATTERNS: RegExp[] = PHRASE_TABLES.flatMap(t => t.groupSubject);
+
+export const GROUP_INDICATOR_PATTERNS: RegExp[] = PHRASE_TABLES.flatMap(t => t.groupIndicators);
+
+export interface ClassifiedSystemEvent {
+  systemType: SystemMessageType;
+  actor?: string;
+  targets?: string[];
+  subject?: string;
+}
+
+/**
+ * Classifies a system line ("Alice added Bob and Carol") into a SystemMessageType
+ * with the acting and affected participants, in any export language.
+ */
+export function classifySystemLine(text: string): ClassifiedSystemEvent {
+  const t = text.trim();
+
+  for (const table of PHRASE_TABLES) {
+    for (const { type, pattern, self } of table.systemEvents) {
+      const m = t.match(pattern);
+      if (!m) continue;
+
+      const groups = m.groups || {};
+      const you = table.selfReferences[0];
+      return {
+        systemType: type,
+        actor: self === 'actor' ? you : groups.actor?.trim() || undefined,
+        targets: self === 'targets'
+          ? [you]
+          : groups.targets ? splitParticipantList(groups.targets, table.listConjunction) : undefined,
+        subject: groups.subject?.trim() || undefined,
+      };
+    }
+  }
+
+  return { systemType: 'other' };
+}
+
+function splitParticipantList(list: string, conjunction: string): string[] {
+  return list
+    .replace(/\.$/, '')
+    .split(new RegExp(`,\\s*|\\s+${conjunction}\\s+`))
+    .map(name => name.trim())
+    .filter(Boolean);
+}
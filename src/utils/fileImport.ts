@@ -0,0 +1,128 @@
+/**
+ * File Import Utility
+ * Collects the files behind a drag-and-drop or file/folder picker so many
+ * exports can be imported at once. Dropped folders are walked recursively
+ * (File and Directory Entries API); picked folders come in flat through
+ * <input webkitdirectory> with webkitRelativePath set.
+ *
+ * Besides ZIPs, exports that were already unzipped (a chat .txt plus its
+ * media, loose or in a folder) are grouped back into one export each.
+ */
+
+import { isChatTextFile } from './zipExtractor';
+
+/**
+ * One unzipped export: its chat text file(s) and the media next to or below them
+ */
+export interface UnzippedExport {
+  name: string; // Folder the chat file is in, or the chat file itself if picked loose
+  chatFiles: File[];
+  mediaFiles: File[];
+}
+
+// Dropped files have no webkitRelativePath; remember their path in the drop
+const droppedPaths = new WeakMap<File, string>();
+
+/**
+ * Files from a drop, including everything inside dropped folders
+ */
+export async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<File[]> {
+  // Entries must be taken synchronously, before the drop event returns
+  const entries = Array.from(dataTransfer.items)
+    .map(item => (item.kind === 'file' ? item.webkitGetAsEntry() : null))
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files);
+  }
+
+  const files: File[] = [];
+  for (const entry of entries) {
+    await collectEntryFiles(entry, files);
+  }
+  return files;
+}
+
+async function collectEntryFiles(entry: FileSystemEntry, files: File[]): Promise<void> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    droppedPaths.set(file, entry.fullPath.replace(/^\//, ''));
+    files.push(file);
+    return;
+  }
+
+  if (entry.isDirectory) {
+    for (const child of await readAllDirectoryEntries(entry as FileSystemDirectoryEntry)) {
+      await collectEntryFiles(child, files);
+    }
+  }
+}
+
+/**
+ * readEntries returns directory contents in batches; keep reading until empty
+ */
+async function readAllDirectoryEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+/**
+ * WhatsApp export archives among the collected files
+ */
+export function getZipFiles(files: File[]): File[] {
+  return files.filter(file => file.name.toLowerCase().endsWith('.zip'));
+}
+
+/**
+ * Name to show for an imported file: its path inside a picked or dropped folder, if any
+ */
+export function getImportDisplayName(file: File): string {
+  return file.webkitRelativePath || droppedPaths.get(file) || file.name;
+}
+
+function getParentPath(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/**
+ * Groups files that aren't ZIPs into unzipped exports. Each chat .txt makes
+ * its folder an export; other files belong to the closest such folder above
+ * them (so a "Media" subfolder is picked up too). Files picked loose, without
+ * a folder, all belong together.
+ */
+export function groupUnzippedExports(files: File[]): UnzippedExport[] {
+  const looseFiles = files.filter(file => !file.name.toLowerCase().endsWith('.zip'));
+  const exportsByFolder = new Map<string, UnzippedExport>();
+
+  for (const file of looseFiles) {
+    if (!isChatTextFile(file.name)) continue;
+    const path = getImportDisplayName(file);
+    const folder = getParentPath(path);
+    const group = exportsByFolder.get(folder);
+    if (group) {
+      group.chatFiles.push(file);
+    } else {
+      exportsByFolder.set(folder, { name: folder || path, chatFiles: [file], mediaFiles: [] });
+    }
+  }
+
+  // Deepest folders first, so media goes to the closest export
+  const folders = Array.from(exportsByFolder.keys()).sort((a, b) => b.length - a.length);
+  for (const file of looseFiles) {
+    if (isChatTextFile(file.name)) continue;
+    const path = getImportDisplayName(file);
+    const folder = folders.find(f => f === '' || path.startsWith(`${f}/`));
+    if (folder !== undefined) exportsByFolder.get(folder)!.mediaFiles.push(file);
+  }
+
+  return Array.from(exportsByFolder.values());
+}
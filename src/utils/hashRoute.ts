@@ -0,0 +1,89 @@
+/**
+ * Hash Routes
+ * What's on screen, as a URL fragment that survives a reload and can be
+ * shared:
+ *
+ *   #/                                  chat list
+ *   #/chat/<chatId>                     a chat
+ *   #/chat/<chatId>/msg/<messageId>     a chat, scrolled to (and marking) a message
+ *   #/chat/<chatId>/media               a chat's media, links and docs
+ *   #/chat/<chatId>/media/<messageId>   the media viewer on one item
+ *
+ * Ids are Drive folder ids or local library chat ids; both are looked up
+ * wherever the chat is listed.
+ */
+
+export type AppRoute =
+  | { name: 'list' }
+  | { name: 'chat'; chatId: string }
+  | { name: 'message'; chatId: string; messageId: string }
+  | { name: 'media'; chatId: string; messageId?: string };
+
+// Scroll position of the open chat, per browser tab
+const SCROLL_POSITION_KEY = 'chat_scroll_position';
+
+export interface ScrollPosition {
+  chatId: string;
+  messageId: string; // First message in view
+}
+
+function decodeSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Route of a location hash; anything unrecognised is the chat list
+ */
+export function parseHashRoute(hash: string): AppRoute {
+  const segments = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeSegment);
+  if (segments.some(segment => segment === null)) return { name: 'list' };
+  const [root, chatId, view, messageId] = segments as string[];
+
+  if (root !== 'chat' || !chatId) return { name: 'list' };
+  if (view === 'msg' && messageId) return { name: 'message', chatId, messageId };
+  if (view === 'media') return messageId ? { name: 'media', chatId, messageId } : { name: 'media', chatId };
+  return { name: 'chat', chatId };
+}
+
+export function formatHashRoute(route: AppRoute): string {
+  if (route.name === 'list') return '#/';
+
+  const chatPath = `#/chat/${encodeURIComponent(route.chatId)}`;
+  switch (route.name) {
+    case 'chat':
+      return chatPath;
+    case 'message':
+      return `${chatPath}/msg/${encodeURIComponent(route.messageId)}`;
+    case 'media':
+      return route.messageId ? `${chatPath}/media/${encodeURIComponent(route.messageId)}` : `${chatPath}/media`;
+  }
+}
+
+/**
+ * Chat a route shows, if any
+ */
+export function getRouteChatId(route: AppRoute): string | null {
+  return route.name === 'list' ? null : route.chatId;
+}
+
+export function saveScrollPosition(position: ScrollPosition): void {
+  try {
+    sessionStorage.setItem(SCROLL_POSITION_KEY, JSON.stringify(position));
+  } catch (e) {
+    console.warn('[HashRoute] Failed to save scroll position:', e);
+  }
+}
+
+export function loadScrollPosition(): ScrollPosition | null {
+  try {
+    const saved = sessionStorage.getItem(SCROLL_POSITION_KEY);
+    return saved ? JSON.parse(saved) as ScrollPosition : null;
+  } catch (e) {
+    console.warn('[HashRoute] Failed to load scroll position:', e);
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Membership Builder
+ * Reconstructs a group's membership timeline from its system events
+ *
+ * Key behaviors:
+ * - Replays created / added / joined / left / removed events in order
+ * - Anyone who sends a message without a preceding join event is treated as
+ *   a member from before the export started
+ * - Silent members (never sent a message) still appear via system events
+ * - "You" in events and the user's own sender name resolve to one member
+ */
+
+import type { Message, GroupMember, MembershipHistory, MembershipEvent, MembershipPeriod } from '../types';
+import { isMeSender, getSenderKey } from '../config/userIdentity';
+import { isSelfReference } from './exportPhrases';
+
+const ME_KEY = '__me__';
+
+const MEMBERSHIP_EVENT_TYPES = new Set([
+  'group_created',
+  'participant_added',
+  'participant_joined',
+  'participant_left',
+  'participant_removed',
+  'subject_changed',
+  'icon_changed',
+]);
+
+/**
+ * Builds the membership history for a group chat
+ */
+export function buildMembershipHistory(messages: Message[]): MembershipHistory {
+  const members = new Map<string, GroupMember>();
+  const events: MembershipEvent[] = [];
+  const subjects: MembershipHistory['subjects'] = [];
+  const iconChanges: MembershipHistory['iconChanges'] = [];
+
+  const sorted = [...messages].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const getMember = (name: string): GroupMember => {
+    const isMe = isSelfReference(name) || isMeSender(name);
+    const key = isMe ? ME_KEY : getSenderKey(name);
+    let member = members.get(key);
+    if (!member) {
+      member = { name, isMe, isCurrent: false, periods: [], messageCount: 0 };
+      members.set(key, member);
+    } else if (isMe && isSelfReference(member.name) && !isSelfReference(name)) {
+      // Prefer the user's real sender name over "You"
+      member.name = name;
+    }
+    return member;
+  };
+
+  const openPeriod = (member: GroupMember, period: MembershipPeriod) => {
+    const last = member.periods[member.periods.length - 1];
+    if (last && !last.leftAt) {
+      // Already a member; an "added" after an implicit membership just fills in details
+      if (!last.joinedAt) Object.assign(last, period);
+      return;
+    }
+    member.periods.push(period);
+  };
+
+  const closePeriod = (member: GroupMember, leftAt: Date, leftVia: 'left' | 'removed', removedBy?: string) => {
+    let last = member.periods[member.periods.length - 1];
+    if (!last || last.leftAt) {
+      // Left without a recorded join: they were a member before the export started
+      last = {};
+      member.periods.push(last);
+    }
+    last.leftAt = leftAt;
+    last.leftVia = leftVia;
+    if (removedBy) last.removedBy = removedBy;
+  };
+
+  for (const msg of sorted) {
+    if (msg.type !== 'system') {
+      const member = getMember(msg.sender);
+      const last = member.periods[member.periods.length - 1];
+      if (!last || last.leftAt) {
+        member.periods.push({});
+      }
+      member.messageCount++;
+      member.firstMessageAt ??= msg.timestamp;
+      member.lastMessageAt = msg.timestamp;
+      continue;
+    }
+
+    if (!msg.systemType || !MEMBERSHIP_EVENT_TYPES.has(msg.systemType)) continue;
+
+    const { systemActor: actor, systemTargets: targets = [], systemSubject: subject } = msg;
+    events.push({
+      messageId: msg.id,
+      timestamp: msg.timestamp,
+      systemType: msg.systemType,
+      actor,
+      targets: targets.length > 0 ? targets : undefined,
+      subject,
+    });
+
+    switch (msg.systemType) {
+      case 'group_created':
+        if (actor) openPeriod(getMember(actor), { joinedAt: msg.timestamp, joinedVia: 'created' });
+        if (subject) subjects.push({ timestamp: msg.timestamp, subject, changedBy: actor });
+        break;
+      case 'participant_added':
+        for (const target of targets) {
+          openPeriod(getMember(target), { joinedAt: msg.timestamp, joinedVia: 'added', addedBy: actor });
+        }
+        break;
+      case 'participant_joined':
+        if (actor) openPeriod(getMember(actor), { joinedAt: msg.timestamp, joinedVia: 'invite_link' });
+        break;
+      case 'participant_left':
+        if (actor) closePeriod(getMember(actor), msg.timestamp, 'left');
+        break;
+      case 'participant_removed':
+        for (const target of targets) {
+          closePeriod(getMember(target), msg.timestamp, 'removed', actor);
+        }
+        break;
+      case 'subject_changed':
+        if (subject) subjects.push({ timestamp: msg.timestamp, subject, changedBy: actor });
+        break;
+      case 'icon_changed':
+        iconChanges.push({ timestamp: msg.timestamp, changedBy: actor });
+        break;
+    }
+  }
+
+  const memberList = Array.from(members.values());
+  for (const member of memberList) {
+    const last = member.periods[member.periods.length - 1];
+    member.isCurrent = !!last && !last.leftAt;
+  }
+
+  // Current members first, then by activity
+  memberList.sort((a, b) => {
+    if (a.isCurrent !== b.isCurrent) return a.isCurrent ? -1 : 1;
+    return b.messageCount - a.messageCount;
+  });
+
+  return { members: memberList, events, subjects, iconChanges };
+}
+
+/**
+ * Names of members who appear only in system events (never sent a message)
+ */
+export function getSilentMemberNames(history: MembershipHistory): string[] {
+  return history.members
+    .filter(m => m.messageCount === 0 && !m.isMe)
+    .map(m => m.name);
+}
@@ -0,0 +1,144 @@
+/**
+ * Phone Number Normaliser
+ * Converts phone numbers as they appear in WhatsApp exports to E.164
+ * ("+447700900123") so the same person matches however the number is written
+ *
+ * Handles:
+ * - International form: "+44 7700 900123", "0044 7700 900123"
+ * - National form with trunk prefix: "07700 900123" (needs a default country)
+ * - Bidi marks and no-break spaces WhatsApp wraps around numbers
+ *
+ * Design decisions:
+ * - Small built-in country table (calling code, trunk prefix, national number
+ *   lengths) instead of a full metadata library
+ * - Anything that isn't plausibly a phone number returns null, so callers can
+ *   fall back to name comparison
+ */
+
+interface CountryPhoneRule {
+  callingCode: string;
+  trunkPrefix?: string; // Dropped from national numbers ("0" in the UK, "8" in Russia)
+  nationalLengths: number[]; // Valid national significant number lengths
+}
+
+export const COUNTRY_PHONE_RULES: Record<string, CountryPhoneRule> = {
+  US: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10] },
+  CA: { callingCode: '1', trunkPrefix: '1', nationalLengths: [10] },
+  GB: { callingCode: '44', trunkPrefix: '0', nationalLengths: [9, 10] },
+  IE: { callingCode: '353', trunkPrefix: '0', nationalLengths: [7, 8, 9] },
+  IN: { callingCode: '91', trunkPrefix: '0', nationalLengths: [10] },
+  PK: { callingCode: '92', trunkPrefix: '0', nationalLengths: [9, 10] },
+  BD: { callingCode: '880', trunkPrefix: '0', nationalLengths: [10] },
+  LK: { callingCode: '94', trunkPrefix: '0', nationalLengths: [9] },
+  NP: { callingCode: '977', trunkPrefix: '0', nationalLengths: [8, 10] },
+  DE: { callingCode: '49', trunkPrefix: '0', nationalLengths: [7, 8, 9, 10, 11, 12, 13] },
+  AT: { callingCode: '43', trunkPrefix: '0', nationalLengths: [7, 8, 9, 10, 11, 12, 13] },
+  CH: { callingCode: '41', trunkPrefix: '0', nationalLengths: [9] },
+  FR: { callingCode: '33', trunkPrefix: '0', nationalLengths: [9] },
+  BE: { callingCode: '32', trunkPrefix: '0', nationalLengths: [8, 9] },
+  NL: { callingCode: '31', trunkPrefix: '0', nationalLengths: [9] },
+  ES: { callingCode: '34', nationalLengths: [9] },
+  PT: { callingCode: '351', nationalLengths: [9] },
+  IT: { callingCode: '39', nationalLengths: [6, 7, 8, 9, 10, 11] }, // Leading 0 is part of the number
+  SE: { callingCode: '46', trunkPrefix: '0', nationalLengths: [7, 8, 9] },
+  NO: { callingCode: '47', nationalLengths: [8] },
+  DK: { callingCode: '45', nationalLengths: [8] },
+  PL: { callingCode: '48', nationalLengths: [9] },
+  TR: { callingCode: '90', trunkPrefix: '0', nationalLengths: [10] },
+  RU: { callingCode: '7', trunkPrefix: '8', nationalLengths: [10] },
+  BR: { callingCode: '55', trunkPrefix: '0', nationalLengths: [10, 11] },
+  MX: { callingCode: '52', nationalLengths: [10] },
+  AR: { callingCode: '54', trunkPrefix: '0', nationalLengths: [10, 11] },
+  CO: { callingCode: '57', nationalLengths: [10] },
+  AU: { callingCode: '61', trunkPrefix: '0', nationalLengths: [9] },
+  NZ: { callingCode: '64', trunkPrefix: '0', nationalLengths: [8, 9, 10] },
+  SG: { callingCode: '65', nationalLengths: [8] },
+  MY: { callingCode: '60', trunkPrefix: '0', nationalLengths: [9, 10] },
+  ID: { callingCode: '62', trunkPrefix: '0', nationalLengths: [9, 10, 11, 12] },
+  PH: { callingCode: '63', trunkPrefix: '0', nationalLengths: [10] },
+  HK: { callingCode: '852', nationalLengths: [8] },
+  CN: { callingCode: '86', trunkPrefix: '0', nationalLengths: [11] },
+  JP: { callingCode: '81', trunkPrefix: '0', nationalLengths: [9, 10] },
+  AE: { callingCode: '971', trunkPrefix: '0', nationalLengths: [8, 9] },
+  SA: { callingCode: '966', trunkPrefix: '0', nationalLengths: [9] },
+  IL: { callingCode: '972', trunkPrefix: '0', nationalLengths: [8, 9] },
+  EG: { callingCode: '20', trunkPrefix: '0', nationalLengths: [10] },
+  NG: { callingCode: '234', trunkPrefix: '0', nationalLengths: [10] },
+  KE: { callingCode: '254', trunkPrefix: '0', nationalLengths: [9] },
+  ZA: { callingCode: '27', trunkPrefix: '0', nationalLengths: [9] },
+};
+
+export const FALLBACK_COUNTRY = 'US';
+
+// Separators and invisible marks allowed inside a written phone number
+const PHONE_DECORATION = /[\s\-().\u00a0\u200e\u200f\u202a-\u202e\u2066-\u2069]/g;
+
+/**
+ * Region from the browser locale ("en-GB" -> "GB") if we have rules for it
+ */
+export function getLocaleCountry(): string | null {
+  if (typeof navigator === 'undefined') return null;
+  const match = (navigator.language || '').match(/[-_]([A-Za-z]{2})\b/);
+  const region = match?.[1].toUpperCase();
+  return region && COUNTRY_PHONE_RULES[region] ? region : null;
+}
+
+/**
+ * Converts a phone number to E.164 ("+447700900123").
+ * Returns null if the input doesn't look like a phone number (e.g. a contact name).
+ */
+export function toE164(input: string, defaultCountry: string = FALLBACK_COUNTRY): string | null {
+  const compact = (input || '').replace(PHONE_DECORATION, '');
+  if (!/^\+?\d{6,17}$/.test(compact)) return null;
+
+  let digits = compact.replace(/^\+/, '');
+
+  // Explicit international form
+  if (compact.startsWith('+')) {
+    return isValidE164Digits(digits) ? `+${digits}` : null;
+  }
+  if (digits.startsWith('00')) {
+    digits = digits.slice(2);
+    return isValidE164Digits(digits) ? `+${digits}` : null;
+  }
+
+  const rule = COUNTRY_PHONE_RULES[defaultCountry] ?? COUNTRY_PHONE_RULES[FALLBACK_COUNTRY];
+
+  // North American international prefix
+  if (rule.callingCode === '1' && digits.startsWith('011')) {
+    digits = digits.slice(3);
+    return isValidE164Digits(digits) ? `+${digits}` : null;
+  }
+
+  // National number with trunk prefix ("07700 900123")
+  if (rule.trunkPrefix && digits.startsWith(rule.trunkPrefix)) {
+    const national = digits.slice(rule.trunkPrefix.length);
+    if (rule.nationalLengths.includes(national.length)) {
+      return `+${rule.callingCode}${national}`;
+    }
+  }
+
+  // National number without trunk prefix ("7700 900123")
+  if (rule.nationalLengths.includes(digits.length)) {
+    return `+${rule.callingCode}${digits}`;
+  }
+
+  // International number written without "+" ("44 7700 900123")
+  if (isValidE164Digits(digits) && digits.length > Math.max(...rule.nationalLengths)) {
+    return `+${digits}`;
+  }
+
+  return null;
+}
+
+/**
+ * True if two strings are the same phone number once normalised
+ */
+export function isSamePhoneNumber(a: string, b: string, defaultCountry?: string): boolean {
+  const left = toE164(a, defaultCountry);
+  return left !== null && left === toE164(b, defaultCountry);
+}
+
+function isValidE164Digits(digits: string): boolean {
+  return /^[1-9]\d{7,14}$/.test(digits);
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import type { Chat, Message } from '../types';
+import { buildChatIndex, searchChatIndex } from './searchIndexer';
+import { matchesSearchQuery, parseSearchQuery, toSearchableMessage } from './searchQuery';
+
+function message(id: string, sender: string, content: string): Message {
+  return { id, timestamp: new Date(2024, 0, Number(id)), sender, content, type: 'text', isOutgoing: false };
+}
+
+const chat = {
+  id: 'chat',
+  name: 'Friends',
+  messages: [
+    message('1', 'Priya', 'Hello there'),
+    message('2', 'John', 'hello-world, café at noon?'),
+    message('3', 'John', 'Yellow submarine'),
+    message('4', 'Priya', 'See you at the café'),
+  ],
+} as Chat;
+
+const index = buildChatIndex(chat, 'local');
+
+function globalSearch(input: string): string[] {
+  const result = searchChatIndex(index, parseSearchQuery(input));
+  return (result?.hits.map(hit => hit.messageId) ?? []).sort();
+}
+
+function chatSearch(input: string): string[] {
+  const query = parseSearchQuery(input);
+  return chat.messages.filter(msg => matchesSearchQuery(toSearchableMessage(msg), query)).map(msg => msg.id);
+}
+
+describe('searchChatIndex', () => {
+  it.each([
+    'priya',
+    'ello',
+    'hello',
+    'cafe',
+    'o-w',
+    'priya cafe',
+    'john -yellow',
+    '"see you"',
+    'from:john ello',
+  ])('finds the same messages as the chat search bar for %s', input => {
+    expect(globalSearch(input)).toEqual(chatSearch(input));
+  });
+
+  it('ranks whole words above prefixes and prefixes above other substrings', () => {
+    // Best match oldest, so the newer-first tie-break can't explain the order
+    const ranked = buildChatIndex({
+      ...chat,
+      messages: [message('1', 'John', 'ell'), message('2', 'John', 'Ellen'), message('3', 'John', 'Yellow')],
+    } as Chat, 'local');
+    expect(searchChatIndex(ranked, parseSearchQuery('ell'))!.hits.map(hit => hit.messageId)).toEqual(['1', '2', '3']);
+  });
+});
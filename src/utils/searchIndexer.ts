@@ -0,0 +1,305 @@
+/**
+ * Search Indexer
+ * Builds a per-chat inverted index (token -> messages) and ranks messages
+ * against a parsed query (see searchQuery) with it. Plain words are looked up
+ * in the index, among the words of the content and sender, to find candidate
+ * messages; the whole query is then checked on those with matchesSearchQuery,
+ * so results are the same as the chat search bar's. Pure functions: the index
+ * is built in the search worker and queried on the main thread (see
+ * services/searchIndex).
+ */
+
+import type { Chat } from '../types';
+import {
+  foldText,
+  getQueryTextTerms,
+  isEmptyQuery,
+  matchesSearchQuery,
+  toSearchableMessage,
+  type QueryClause,
+  type SearchableMessage,
+  type SearchQuery,
+} from './searchQuery';
+
+// Bump when the index format or tokenizer changes, so old indexes are rebuilt
+export const SEARCH_INDEX_VERSION = 4;
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 30; // Characters kept before the first match
+
+const FNV_OFFSET = 0x811c9dc5;
+
+export type SearchSource = 'drive' | 'local';
+
+/**
+ * What a hit needs to be shown (and query operators checked) without loading the chat
+ */
+export interface IndexedMessage extends SearchableMessage {
+  id: string;
+}
+
+export interface ChatSearchIndex {
+  chatId: string;
+  chatName: string;
+  source: SearchSource;
+  version: number;
+  signature: string; // See getChatSignature
+  viewVersion?: string; // Contact book and identity profile the chat was shown with (see services/searchIndex)
+  messages: IndexedMessage[];
+  tokens: string[]; // Sorted, of content and sender
+  postings: number[][]; // Per token: ascending positions in messages
+}
+
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>; // [start, end) ranges in text
+}
+
+export interface SearchHit {
+  messageId: string;
+  timestamp: Date;
+  sender: string;
+  snippet: SearchSnippet;
+  score: number;
+}
+
+export interface ChatSearchResult {
+  chatId: string;
+  chatName: string;
+  source: SearchSource;
+  hits: SearchHit[]; // Best first, at most maxHitsPerChat
+  totalHits: number;
+  bestScore: number;
+}
+
+export interface SearchOptions {
+  maxHitsPerChat?: number;
+}
+
+/**
+ * Changes whenever the chat's messages do: added or removed anywhere (merges,
+ * excluded backups) or relabelled (contact book)
+ */
+export function getChatSignature(chat: Pick<Chat, 'messages'>): string {
+  const { messages } = chat;
+  if (messages.length === 0) return '0';
+
+  let hash = FNV_OFFSET;
+  for (const message of messages) {
+    hash = hashString(message.sender, hashString(message.id, hash));
+  }
+  return `${messages.length}:${messages[0].id}:${messages[messages.length - 1].id}:${hash.toString(36)}`;
+}
+
+/**
+ * 32-bit FNV-1a hash of a string, continuing from `hash`
+ */
+export function hashString(text: string, hash: number = FNV_OFFSET): number {
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Lowercase, accent-free word tokens ("Café, déjà-vu!" -> cafe, deja, vu)
+ */
+export function tokenize(text: string): string[] {
+  return foldText(text)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Folded text (as tokenize sees it) plus, per folded character, the index
+ * of the original character it came from
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = foldText(text[i]);
+    folded += char;
+    for (let j = 0; j < char.length; j++) offsets.push(i);
+  }
+  offsets.push(text.length);
+  return { folded, offsets };
+}
+
+/**
+ * Index every non-system message of a chat
+ */
+export function buildChatIndex(chat: Chat, source: SearchSource): ChatSearchIndex {
+  const messages: IndexedMessage[] = [];
+  const postingsByToken = new Map<string, number[]>();
+
+  for (const message of chat.messages) {
+    if (message.type === 'system') continue;
+
+    const position = messages.length;
+    const indexed: IndexedMessage = { id: message.id, ...toSearchableMessage(message) };
+    messages.push(indexed);
+
+    // Plain words also match the sender (see matchesSearchQuery)
+    for (const token of new Set([...tokenize(indexed.text), ...tokenize(indexed.sender)])) {
+      const postings = postingsByToken.get(token);
+      if (postings) {
+        postings.push(position);
+      } else {
+        postingsByToken.set(token, [position]);
+      }
+    }
+  }
+
+  const tokens = Array.from(postingsByToken.keys()).sort();
+  return {
+    chatId: chat.id,
+    chatName: chat.name,
+    source,
+    version: SEARCH_INDEX_VERSION,
+    signature: getChatSignature(chat),
+    messages,
+    tokens,
+    postings: tokens.map(token => postingsByToken.get(token)!),
+  };
+}
+
+/**
+ * Score per message for one query token, found anywhere in a word (plain
+ * words match substrings): exact matches count double, prefixes above the
+ * rest, rarer tokens weigh more
+ */
+function scoreToken(index: ChatSearchIndex, queryToken: string): Map<number, number> {
+  const scores = new Map<number, number>();
+  const messageCount = index.messages.length;
+
+  for (let i = 0; i < index.tokens.length; i++) {
+    const token = index.tokens[i];
+    const at = token.indexOf(queryToken);
+    if (at === -1) continue;
+
+    const postings = index.postings[i];
+    const weight = (token === queryToken ? 2 : at === 0 ? 1 : 0.5) * Math.log(1 + messageCount / postings.length);
+    for (const position of postings) {
+      scores.set(position, (scores.get(position) ?? 0) + weight);
+    }
+  }
+  return scores;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * A window of the text around the first match, with matched words marked
+ */
+export function buildSnippet(text: string, queryTokens: string[]): SearchSnippet {
+  const { folded, offsets } = foldWithOffsets(text);
+  const pattern = queryTokens.length > 0
+    ? new RegExp(queryTokens.map(escapeRegExp).join('|'), 'gu')
+    : null;
+  const matches = pattern
+    ? Array.from(folded.matchAll(pattern), match => ({
+      start: offsets[match.index],
+      end: offsets[match.index + match[0].length],
+    }))
+    : [];
+
+  const firstMatch = matches[0]?.start ?? 0;
+  const start = Math.max(0, Math.min(firstMatch - SNIPPET_LEAD, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+
+  const highlights: Array<[number, number]> = [];
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    highlights.push([match.start - start + prefix.length, match.end - start + prefix.length]);
+  }
+
+  return { text: prefix + text.slice(start, end) + suffix, highlights };
+}
+
+/**
+ * Positive plain words with something to look up in the index (the rest,
+ * like emoji-only words, are checked as substrings instead)
+ */
+function isIndexLookup(clause: QueryClause): boolean {
+  return clause.term?.type === 'word' && !clause.negated && tokenize(clause.term.value).length > 0;
+}
+
+/**
+ * Score per message for the lookup words: candidates with all of them in
+ * their words (a superset of the messages containing every word as typed)
+ */
+function scoreLookupTokens(index: ChatSearchIndex, lookupTokens: string[]): Map<number, number> {
+  let combined: Map<number, number> | null = null;
+  for (const queryToken of lookupTokens) {
+    const scores = scoreToken(index, queryToken);
+    if (combined === null) {
+      combined = scores;
+    } else {
+      const next = new Map<number, number>();
+      for (const [position, score] of combined) {
+        const tokenScore = scores.get(position);
+        if (tokenScore !== undefined) next.set(position, score + tokenScore);
+      }
+      combined = next;
+    }
+    if (combined.size === 0) break;
+  }
+  return combined ?? new Map();
+}
+
+/**
+ * Messages of one chat matching a query, best first. Ties (and queries
+ * with only operators) go to the newer message.
+ */
+export function searchChatIndex(
+  index: ChatSearchIndex,
+  query: SearchQuery,
+  options: SearchOptions = {}
+): ChatSearchResult | null {
+  if (isEmptyQuery(query)) return null;
+
+  const lookupTokens = Array.from(new Set(
+    query.clauses.filter(isIndexLookup).flatMap(clause => tokenize((clause.term as { value: string }).value))
+  ));
+
+  const candidates = lookupTokens.length > 0
+    ? scoreLookupTokens(index, lookupTokens)
+    : new Map(index.messages.map((_, position) => [position, 0]));
+
+  // The words as typed, appearing together, rank above scattered words
+  const textTerms = getQueryTextTerms(query);
+  const phrase = textTerms.length > 1 ? foldText(textTerms.join(' ')) : null;
+
+  const ranked: Array<{ message: IndexedMessage; score: number }> = [];
+  for (const [position, score] of candidates) {
+    const message = index.messages[position];
+    if (!matchesSearchQuery(message, query)) continue;
+    const phraseBonus = phrase && foldText(message.text).includes(phrase) ? score : 0;
+    ranked.push({ message, score: score + phraseBonus });
+  }
+  if (ranked.length === 0) return null;
+  ranked.sort((a, b) => b.score - a.score || b.message.timestamp - a.message.timestamp);
+
+  const highlightTokens = Array.from(new Set(textTerms.flatMap(tokenize)));
+  const hits = ranked.slice(0, options.maxHitsPerChat ?? ranked.length).map(({ message, score }) => ({
+    messageId: message.id,
+    timestamp: new Date(message.timestamp),
+    sender: message.sender,
+    snippet: buildSnippet(message.text, highlightTokens),
+    score,
+  }));
+
+  return {
+    chatId: index.chatId,
+    chatName: index.chatName,
+    source: index.source,
+    hits,
+    totalHits: ranked.length,
+    bestScore: ranked[0].score,
+  };
+}
@@ -0,0 +1,283 @@
+/**
+ * Search Query Language
+ * Parses a search string into a query AST and matches messages against it.
+ * Shared by the in-chat search bar and the global search.
+ *
+ * Text comparisons ignore case and accents (see foldText).
+ *
+ * Syntax (all terms must match):
+ *   word               content, media file name or sender contains it
+ *   "exact phrase"     content contains the phrase
+ *   /regex/i           content matches the regular expression
+ *   from:Priya         sender contains "Priya" (from:"Priya S" for spaces)
+ *   before:2023-05-01  sent before that day (also 2023-05 or 2023)
+ *   after:2023-05-01   sent after that day, month or year
+ *   has:image          image, video, audio, doc, sticker, media, link or
+ *                      call; has:image|video matches either
+ *   is:edited          also is:deleted
+ *   -term              any of the above, negated
+ */
+
+import type { Message, MessageType } from '../types';
+
+export type HasFilter = 'image' | 'video' | 'audio' | 'doc' | 'sticker' | 'media' | 'link' | 'call';
+export type IsFilter = 'edited' | 'deleted';
+
+export type QueryTerm =
+  | { type: 'word'; value: string } // Folded
+  | { type: 'phrase'; value: string } // Folded
+  | { type: 'regex'; regex: RegExp }
+  | { type: 'from'; value: string } // Folded
+  | { type: 'before'; time: number } // Epoch ms, exclusive
+  | { type: 'after'; time: number } // Epoch ms, inclusive (end of the given period)
+  | { type: 'has'; values: HasFilter[] }
+  | { type: 'is'; value: IsFilter };
+
+export interface QueryClause {
+  term: QueryTerm | null; // Null if the clause couldn't be parsed (see error)
+  negated: boolean;
+  raw: string; // As typed, e.g. "-from:Priya"
+  start: number; // Position in the query string, for removing the clause
+  end: number;
+  error?: string;
+}
+
+export interface SearchQuery {
+  clauses: QueryClause[];
+}
+
+/**
+ * What the matcher needs from a message (a Message or a search index entry)
+ */
+export interface SearchableMessage {
+  text: string; // Content plus media file name
+  sender: string;
+  timestamp: number;
+  type: MessageType;
+  isEdited?: boolean;
+  isDeleted?: boolean;
+}
+
+// Shown as a tooltip on search inputs
+export const SEARCH_SYNTAX_HINT =
+  'Search words, "exact phrases" or /regex/. Filters: from:name, before:2023-05-01, after:2023-05, ' +
+  'has:image|video|audio|doc|sticker|link|call, is:edited|deleted. Put - in front to exclude.';
+
+const OPERATORS = new Set(['from', 'before', 'after', 'has', 'is']);
+
+const HAS_ALIASES: Record<string, HasFilter> = {
+  image: 'image',
+  photo: 'image',
+  video: 'video',
+  audio: 'audio',
+  voice: 'audio',
+  doc: 'doc',
+  document: 'doc',
+  sticker: 'sticker',
+  media: 'media',
+  link: 'link',
+  url: 'link',
+  call: 'call',
+};
+
+const IS_VALUES: ReadonlySet<string> = new Set<IsFilter>(['edited', 'deleted']);
+
+const LINK_PATTERN = /https?:\/\/\S|www\.\S/i;
+
+// A clause: optional "-", then /regex/flags, op:"quoted", op:value, "quoted" or a bare word
+const CLAUSE_PATTERN = /(-?)(?:\/((?:\\.|[^/\\])+)\/([a-z]*)|(from|before|after|has|is):"([^"]*)"?|"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Lowercase without accents ("Café" -> "cafe")
+ */
+export function foldText(text: string): string {
+  return text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Start (or, with end, the end) of YYYY, YYYY-MM or YYYY-MM-DD in local time
+ */
+function parseDatePeriod(value: string, end: boolean): number | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+  if (day !== null && (day < 1 || day > 31)) return null;
+
+  if (!end) return new Date(year, month ?? 0, day ?? 1).getTime();
+  if (day !== null) return new Date(year, month!, day + 1).getTime();
+  if (month !== null) return new Date(year, month + 1, 1).getTime();
+  return new Date(year + 1, 0, 1).getTime();
+}
+
+function parseOperator(operator: string, value: string): { term: QueryTerm | null; error?: string } {
+  if (!value) return { term: null, error: `${operator}: needs a value` };
+
+  switch (operator) {
+    case 'from':
+      return { term: { type: 'from', value: foldText(value) } };
+    case 'before':
+    case 'after': {
+      const time = parseDatePeriod(value, operator === 'after');
+      return time === null
+        ? { term: null, error: `${operator}: expects a date like 2023-05-01` }
+        : { term: { type: operator, time } };
+    }
+    case 'has': {
+      const values = value.toLowerCase().split('|').map(name => HAS_ALIASES[name]);
+      return values.every(Boolean)
+        ? { term: { type: 'has', values: Array.from(new Set(values)) } }
+        : { term: null, error: `has: expects ${Object.keys(HAS_ALIASES).join(', ')}` };
+    }
+    case 'is': {
+      const lower = value.toLowerCase();
+      return IS_VALUES.has(lower)
+        ? { term: { type: 'is', value: lower as IsFilter } }
+        : { term: null, error: 'is: expects edited or deleted' };
+    }
+    default:
+      return { term: null, error: `Unknown operator ${operator}:` };
+  }
+}
+
+/**
+ * Parse a search string. Never throws: clauses that don't parse carry an
+ * error and are ignored by the matcher.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const clauses: QueryClause[] = [];
+
+  for (const match of input.matchAll(CLAUSE_PATTERN)) {
+    const [raw, minus, regexSource, regexFlags, quotedOperator, quotedValue, phrase, bare] = match;
+    const start = match.index;
+    const clause: QueryClause = { term: null, negated: minus === '-', raw, start, end: start + raw.length };
+
+    if (regexSource !== undefined) {
+      try {
+        // g and y would make test() stateful; no flags means case-insensitive
+        const flags = Array.from(new Set(`${regexFlags}`.replace(/[gy]/g, ''))).join('');
+        clause.term = { type: 'regex', regex: new RegExp(regexSource, flags || 'i') };
+      } catch (err) {
+        clause.error = err instanceof Error ? err.message : 'Invalid regular expression';
+      }
+    } else if (quotedOperator !== undefined) {
+      Object.assign(clause, parseOperator(quotedOperator.toLowerCase(), quotedValue.trim()));
+    } else if (phrase !== undefined) {
+      if (!phrase.trim()) continue;
+      clause.term = { type: 'phrase', value: foldText(phrase.trim()) };
+    } else {
+      // A lone "-" (e.g. while typing a negation) means nothing yet
+      if (bare === '-') continue;
+      const operatorMatch = /^([a-z]+):(.*)$/i.exec(bare);
+      if (operatorMatch && OPERATORS.has(operatorMatch[1].toLowerCase())) {
+        Object.assign(clause, parseOperator(operatorMatch[1].toLowerCase(), operatorMatch[2]));
+      } else {
+        clause.term = { type: 'word', value: foldText(bare) };
+      }
+    }
+
+    clauses.push(clause);
+  }
+
+  return { clauses };
+}
+
+/**
+ * Whether the query has anything to match on
+ */
+export function isEmptyQuery(query: SearchQuery): boolean {
+  return !query.clauses.some(clause => clause.term);
+}
+
+/**
+ * Words and phrases to look up and highlight (non-negated only)
+ */
+export function getQueryTextTerms(query: SearchQuery): string[] {
+  return query.clauses.flatMap(clause =>
+    !clause.negated && (clause.term?.type === 'word' || clause.term?.type === 'phrase')
+      ? [clause.term.value]
+      : []
+  );
+}
+
+/**
+ * Operator and regex clauses, shown as chips (plain words stay in the text)
+ */
+export function isChipClause(clause: QueryClause): boolean {
+  return !clause.term || (clause.term.type !== 'word' && clause.term.type !== 'phrase') || clause.negated;
+}
+
+/**
+ * The query string without one clause
+ */
+export function removeClause(input: string, clause: QueryClause): string {
+  return (input.slice(0, clause.start) + input.slice(clause.end)).replace(/\s{2,}/g, ' ').trim();
+}
+
+function matchesHas(message: SearchableMessage, value: HasFilter): boolean {
+  switch (value) {
+    case 'doc':
+      return message.type === 'document';
+    case 'media':
+      return ['image', 'video', 'audio', 'document', 'sticker'].includes(message.type);
+    case 'link':
+      return LINK_PATTERN.test(message.text);
+    default:
+      return message.type === value;
+  }
+}
+
+function matchesTerm(message: SearchableMessage, term: QueryTerm, folded: () => FoldedMessage): boolean {
+  switch (term.type) {
+    case 'word':
+      return folded().text.includes(term.value) || folded().sender.includes(term.value);
+    case 'phrase':
+      return folded().text.includes(term.value);
+    case 'regex':
+      return term.regex.test(message.text);
+    case 'from':
+      return folded().sender.includes(term.value);
+    case 'before':
+      return message.timestamp < term.time;
+    case 'after':
+      return message.timestamp >= term.time;
+    case 'has':
+      return term.values.some(value => matchesHas(message, value));
+    case 'is':
+      return term.value === 'edited' ? !!message.isEdited : !!message.isDeleted;
+  }
+}
+
+interface FoldedMessage {
+  text: string;
+  sender: string;
+}
+
+export function matchesSearchQuery(message: SearchableMessage, query: SearchQuery): boolean {
+  // Folded once per message, and only if a text term needs it
+  let foldedMessage: FoldedMessage | null = null;
+  const folded = () => (foldedMessage ??= { text: foldText(message.text), sender: foldText(message.sender) });
+
+  return query.clauses.every(clause =>
+    !clause.term || matchesTerm(message, clause.term, folded) !== clause.negated
+  );
+}
+
+/**
+ * Searchable view of a chat message
+ */
+export function toSearchableMessage(message: Message): SearchableMessage {
+  return {
+    text: message.mediaFileName && !message.content.includes(message.mediaFileName)
+      ? `${message.content} ${message.mediaFileName}`.trim()
+      : message.content,
+    sender: message.sender,
+    timestamp: new Date(message.timestamp).getTime(),
+    type: message.type,
+    isEdited: message.isEdited,
+    isDeleted: message.isDeleted,
+  };
+}
@@ -7,9 +7,21 @@
  * - Groups consecutive messages from the same sender (within 10 minutes)
  * - Inserts date separators (Today, Yesterday, specific dates)
  * - Preserves exact message order and timestamps
+ * - Flags gaps where history is probably missing (between backups, or where
+ *   the export has media from days without any messages)
  */
 
-import type { Message, TimelineGroup, MessageBubbleGroup } from '../types';
+import type {
+  Message,
+  TimelineGroup,
+  MessageBubbleGroup,
+  SystemMessageType,
+  BackupSource,
+  UnreferencedMedia,
+  ParseProgress
+} from '../types';
+import { findBackupGaps } from './chatMerger';
+import { parseSearchQuery, isEmptyQuery, matchesSearchQuery, toSearchableMessage } from './searchQuery';
 import { 
   format, 
   isToday, 
@@ -53,6 +65,128 @@ export function groupMessagesByDate(messages: Message[]): TimelineGroup[] {
   return groups;
 }
 
+/**
+ * A stretch of the timeline where messages are probably missing
+ */
+export interface TimelineGap {
+  groupIndex: number; // Date group the gap comes before (groups.length = after the last one)
+  from: Date;
+  to: Date;
+  days: number;
+  reasons: TimelineGapReason[];
+  mediaFileNames: string[]; // Unreferenced media dated inside the gap
+}
+
+export type TimelineGapReason = 'backup_gap' | 'unreferenced_media';
+
+export interface TimelineGapOptions {
+  backupSources?: BackupSource[];
+  unreferencedMedia?: UnreferencedMedia[];
+  minBackupGapDays?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Android: IMG-20240115-WA0001.jpg, iOS: 00000012-PHOTO-2024-01-15-10-22-33.jpg
+const ANDROID_MEDIA_DATE = /-(\d{4})(\d{2})(\d{2})-WA\d+/i;
+const IOS_MEDIA_DATE = /(\d{4})-(\d{2})-(\d{2})-(\d{2})-(\d{2})-(\d{2})/;
+
+/**
+ * Date a media file was sent, read from WhatsApp's file naming
+ */
+export function getMediaFileDate(fileName: string): Date | undefined {
+  const ios = fileName.match(IOS_MEDIA_DATE);
+  const android = ios ? null : fileName.match(ANDROID_MEDIA_DATE);
+  const parts = (ios || android)?.slice(1).map(Number);
+  if (!parts) return undefined;
+
+  const [year, month, day, hours = 0, minutes = 0, seconds = 0] = parts;
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  // Reject impossible dates (month 13 etc. roll over instead of failing)
+  if (date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return date;
+}
+
+/**
+ * Media files in an export that no message points to.
+ * WhatsApp only exports media for messages it exports, so these usually
+ * belong to history that is missing from the chat text.
+ */
+export function findUnreferencedMedia(messages: Message[], mediaFileNames: string[]): UnreferencedMedia[] {
+  const referenced = new Set<string>();
+  for (const msg of messages) {
+    if (msg.mediaFileName) referenced.add(msg.mediaFileName.toLowerCase());
+  }
+
+  return mediaFileNames
+    .filter(fileName => !referenced.has(fileName.toLowerCase()))
+    .map(fileName => ({ fileName, date: getMediaFileDate(fileName) }));
+}
+
+/**
+ * Index of the first date group after the given day
+ */
+function findGroupIndexAfter(groups: TimelineGroup[], day: Date): number {
+  let low = 0;
+  let high = groups.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (groups[mid].date.getTime() <= day.getTime()) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/**
+ * Finds places in a date-grouped timeline where history is probably missing:
+ * - periods no included backup covers (see findBackupGaps)
+ * - days with no messages for which the export still has media files
+ * Gaps that fall between the same two date groups are combined.
+ */
+export function detectTimelineGaps(groups: TimelineGroup[], options: TimelineGapOptions = {}): TimelineGap[] {
+  const { backupSources, unreferencedMedia, minBackupGapDays = 1 } = options;
+  if (groups.length === 0) return [];
+
+  const gapsByIndex = new Map<number, TimelineGap>();
+  const addGap = (groupIndex: number, from: Date, to: Date, reason: TimelineGapReason, fileName?: string) => {
+    let gap = gapsByIndex.get(groupIndex);
+    if (!gap) {
+      gap = { groupIndex, from, to, days: 0, reasons: [], mediaFileNames: [] };
+      gapsByIndex.set(groupIndex, gap);
+    }
+    if (from < gap.from) gap.from = from;
+    if (to > gap.to) gap.to = to;
+    gap.days = Math.floor((gap.to.getTime() - gap.from.getTime()) / DAY_MS);
+    if (!gap.reasons.includes(reason)) gap.reasons.push(reason);
+    if (fileName) gap.mediaFileNames.push(fileName);
+  };
+
+  if (backupSources && backupSources.length > 1) {
+    for (const backupGap of findBackupGaps(backupSources, minBackupGapDays)) {
+      const groupIndex = findGroupIndexAfter(groups, startOfDay(backupGap.from));
+      // Both ends on the same day: nowhere to put a marker between date groups
+      if (groupIndex >= groups.length) continue;
+      addGap(groupIndex, backupGap.from, backupGap.to, 'backup_gap');
+    }
+  }
+
+  for (const media of unreferencedMedia ?? []) {
+    if (!media.date) continue;
+    const mediaDay = startOfDay(media.date);
+    const groupIndex = findGroupIndexAfter(groups, mediaDay);
+    const previous = groups[groupIndex - 1];
+    // Messages exist on that day, so the media is more likely from a deleted message
+    if (previous && isSameDay(previous.date, mediaDay)) continue;
+
+    const next = groups[groupIndex];
+    const from = previous ? previous.messages[previous.messages.length - 1].timestamp : media.date;
+    const to = next ? next.messages[0].timestamp : media.date;
+    addGap(groupIndex, from, to, 'unreferenced_media', media.fileName);
+  }
+
+  return Array.from(gapsByIndex.values()).sort((a, b) => a.groupIndex - b.groupIndex);
+}
+
 /**
  * Groups consecutive messages from the same sender into bubble groups
  * Messages are grouped if:
@@ -157,32 +291,63 @@ export function formatMessageTimestamp(date: Date): string {
 }
 
 /**
- * Searches messages for a query string
+ * Describes chat parsing progress
+ * Example: "Parsing 45% · reached March 2021 · file 2 of 3"
+ */
+export function formatParseProgress(progress: ParseProgress): string {
+  const percent = progress.totalBytes > 0
+    ? Math.floor((progress.bytesParsed / progress.totalBytes) * 100)
+    : 0;
+  const parts = [`Parsing ${percent}%`];
+  if (progress.currentDate) {
+    parts.push(`reached ${format(progress.currentDate, 'MMMM yyyy')}`);
+  }
+  if (progress.fileCount && progress.fileCount > 1) {
+    parts.push(`file ${(progress.fileIndex ?? 0) + 1} of ${progress.fileCount}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Searches messages for a query string (see searchQuery for the syntax)
  * Returns filtered messages that match the query
  */
 export function searchMessages(messages: Message[], query: string): Message[] {
-  if (!query.trim()) return messages;
-  
-  const lowerQuery = query.toLowerCase();
-  
-  return messages.filter(message => {
-    // Search in message content
-    if (message.content.toLowerCase().includes(lowerQuery)) {
-      return true;
-    }
-    
-    // Search in sender name
-    if (message.sender.toLowerCase().includes(lowerQuery)) {
-      return true;
-    }
-    
-    // Search in media file name
-    if (message.mediaFileName?.toLowerCase().includes(lowerQuery)) {
-      return true;
+  const parsed = parseSearchQuery(query);
+  if (isEmptyQuery(parsed)) return messages;
+
+  return messages.filter(message => matchesSearchQuery(toSearchableMessage(message), parsed));
+}
+
+/**
+ * Human-readable labels for system event types (used for filters)
+ */
+export const SYSTEM_TYPE_LABELS: Record<SystemMessageType, string> = {
+  date_separator: 'Date',
+  encryption_notice: 'Encryption notices',
+  group_created: 'Group created',
+  participant_added: 'Added',
+  participant_removed: 'Removed',
+  participant_left: 'Left',
+  participant_joined: 'Joined via link',
+  subject_changed: 'Subject changes',
+  icon_changed: 'Icon changes',
+  you_blocked: 'Blocked',
+  you_unblocked: 'Unblocked',
+  other: 'Other events',
+};
+
+/**
+ * Lists the system event types present in a chat, in first-seen order
+ */
+export function getSystemTypesInChat(messages: Message[]): SystemMessageType[] {
+  const seen = new Set<SystemMessageType>();
+  for (const message of messages) {
+    if (message.type === 'system') {
+      seen.add(message.systemType || 'other');
     }
-    
-    return false;
-  });
+  }
+  return Array.from(seen);
 }
 
 /**
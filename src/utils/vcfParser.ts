@@ -0,0 +1,56 @@
+/**
+ * VCF Parser
+ * Extracts contact info from vCard files (shared contacts in chats and
+ * address book exports imported into the contact book)
+ */
+
+export interface VcfContact {
+  name: string;
+  phones: string[];
+  emails: string[];
+  org?: string;
+}
+
+/**
+ * Parses a single vCard. Returns null if it has no display name.
+ */
+export function parseVcf(content: string): VcfContact | null {
+  try {
+    // Unfold continuation lines (RFC 6350: CRLF followed by a space or tab)
+    const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const contact: VcfContact = { name: '', phones: [], emails: [] };
+
+    for (const rawLine of lines) {
+      // Apple exports group properties as "item1.TEL;type=CELL:..."
+      const line = rawLine.replace(/^item\d+\./i, '');
+      if (line.startsWith('FN:')) {
+        contact.name = line.substring(3).trim();
+      } else if (line.startsWith('TEL') && line.includes(':')) {
+        const phone = line.split(':').pop()?.trim();
+        if (phone) contact.phones.push(phone);
+      } else if (line.startsWith('EMAIL') && line.includes(':')) {
+        const email = line.split(':').pop()?.trim();
+        if (email) contact.emails.push(email);
+      } else if (line.startsWith('ORG:')) {
+        contact.org = line.substring(4).trim();
+      }
+    }
+
+    return contact.name ? contact : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parses a file that may hold many vCards (phone address book export)
+ */
+export function parseVcfContacts(content: string): VcfContact[] {
+  const cards = content.split(/^BEGIN:VCARD\s*$/im).slice(1);
+  const contacts: VcfContact[] = [];
+  for (const card of cards) {
+    const contact = parseVcf(card);
+    if (contact) contacts.push(contact);
+  }
+  return contacts;
+}
@@ -1,22 +1,356 @@
 /**
  * ZIP Extraction Utility
  * Handles extraction of WhatsApp backup ZIP files containing chat exports and media
- * Uses JSZip for client-side ZIP processing
+ * Reads the ZIP index directly so media can be inflated lazily; falls back to
+ * JSZip (everything in memory) where DecompressionStream is missing
  */
 
 import JSZip from 'jszip';
 import type { ParsedZipContent, MediaFile } from '../types';
 
+/**
+ * ZIP entry located through the archive's central directory
+ */
+interface ZipEntry {
+  path: string;
+  method: number; // 0 = stored, 8 = deflate
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+  encrypted: boolean;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_EOCD_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const MAX_EOCD_SEARCH = 22 + 0xffff; // Record + longest possible comment
+
+// Decoded media kept around; older blobs are revoked and re-inflated on demand
+// (unless something still shows them, see retainZipMediaUrl)
+const MAX_DECODED_ENTRIES = 40;
+const MAX_DECODED_BYTES = 100 * 1024 * 1024; // 100 MB
+
+/**
+ * Backups opened this session, by archive id. Media entries stay compressed
+ * inside the File until something asks for them.
+ */
+const archives = new Map<string, { file: Blob; entries: Map<string, ZipEntry> }>();
+const unzippedExports = new Map<string, Map<string, File>>(); // Media files by path, per export
+let nextArchiveId = 1;
+const decodedMedia = new Map<string, { blob: Blob; url: string }>(); // By media key, LRU, oldest first
+const pendingMedia = new Map<string, Promise<string>>();
+const mediaHolders = new Map<string, number>(); // By media key: components showing its URL
+let decodedBytes = 0;
+
 /**
  * Extracts a WhatsApp backup ZIP file
+ * Only the ZIP index and the chat text files are read up front; media files
+ * are listed with a zipMediaKey and inflated later via getZipMediaUrl.
+ * Several backups can be open at once (multi-file import).
  * @param file - The ZIP file uploaded by user
  * @returns Parsed content with chat files and media files
  */
 export async function extractWhatsAppBackup(file: File): Promise<ParsedZipContent> {
+  // Browsers without raw inflate support get the old read-everything path
+  if (typeof DecompressionStream === 'undefined') {
+    return extractWhatsAppBackupEagerly(file);
+  }
+
+  try {
+    const entries = await readCentralDirectory(file);
+
+    const archiveId = `zip${nextArchiveId++}`;
+    const archive = { file, entries: new Map<string, ZipEntry>() };
+    archives.set(archiveId, archive);
+
+    const chatFiles: Array<{ name: string; file: Blob }> = [];
+    const mediaFiles: MediaFile[] = [];
+
+    for (const entry of entries) {
+      // Skip directories
+      if (entry.path.endsWith('/')) continue;
+
+      const fileName = entry.path.split('/').pop() || entry.path;
+
+      // Identify chat text files
+      if (isChatTextFile(fileName)) {
+        chatFiles.push({ name: fileName, file: await readZipEntry(file, entry) });
+      }
+      // Media is only indexed here
+      else if (isMediaFile(fileName)) {
+        archive.entries.set(entry.path, entry);
+        mediaFiles.push({
+          fileName: entry.path, // Store full path from ZIP
+          blob: new Blob(), // Placeholder - inflated on demand
+          url: '',
+          mimeType: getMimeType(fileName),
+          size: entry.uncompressedSize,
+          zipMediaKey: `${archiveId}:${entry.path}`,
+        });
+      }
+    }
+
+    console.log(`[ZipExtractor] Indexed ${entries.length} entries: ${chatFiles.length} chats, ${mediaFiles.length} media`);
+    return { chatFiles, mediaFiles };
+  } catch (error) {
+    console.error('Error extracting ZIP:', error);
+    throw new Error(`Failed to extract ZIP file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Object URL for a media entry of an opened backup (by zipMediaKey),
+ * inflating it if it isn't among the recently decoded ones
+ */
+export async function getZipMediaUrl(mediaKey: string): Promise<string> {
+  const decoded = decodedMedia.get(mediaKey);
+  if (decoded) {
+    // Mark as most recently used
+    decodedMedia.delete(mediaKey);
+    decodedMedia.set(mediaKey, decoded);
+    return decoded.url;
+  }
+
+  const pending = pendingMedia.get(mediaKey);
+  if (pending) return pending;
+
+  const promise = getZipMediaBlob(mediaKey)
+    .then(blob => {
+      const url = URL.createObjectURL(blob);
+      decodedMedia.set(mediaKey, { blob, url });
+      decodedBytes += blob.size;
+      evictDecodedMedia();
+      return url;
+    })
+    .finally(() => pendingMedia.delete(mediaKey));
+
+  pendingMedia.set(mediaKey, promise);
+  return promise;
+}
+
+/**
+ * getZipMediaUrl for a component that keeps showing the media: its URL isn't
+ * revoked by the LRU until the component calls releaseZipMediaUrl
+ */
+export async function retainZipMediaUrl(mediaKey: string): Promise<string> {
+  // Held before inflating, so other media decoded meanwhile can't evict it
+  mediaHolders.set(mediaKey, (mediaHolders.get(mediaKey) ?? 0) + 1);
+  try {
+    return await getZipMediaUrl(mediaKey);
+  } catch (err) {
+    releaseZipMediaUrl(mediaKey);
+    throw err;
+  }
+}
+
+export function releaseZipMediaUrl(mediaKey: string): void {
+  const holders = (mediaHolders.get(mediaKey) ?? 0) - 1;
+  if (holders > 0) {
+    mediaHolders.set(mediaKey, holders);
+  } else {
+    mediaHolders.delete(mediaKey);
+  }
+  evictDecodedMedia();
+}
+
+/**
+ * Reads an export that was already unzipped: chat text files plus the media
+ * files that came with them (see groupUnzippedExports). Chat texts go to the
+ * parser as they are; media is listed with a zipMediaKey like ZIP media, so
+ * its object URLs come from (and are revoked by) the decoded-media LRU.
+ */
+export async function readUnzippedExport(chatFiles: File[], mediaFiles: File[]): Promise<ParsedZipContent> {
+  const chats = chatFiles.map(file => ({ name: file.name, file }));
+
+  const exportId = `dir${nextArchiveId++}`;
+  const files = new Map<string, File>();
+  unzippedExports.set(exportId, files);
+
+  const media: MediaFile[] = mediaFiles
+    .filter(file => isMediaFile(file.name))
+    .map(file => {
+      const fileName = file.webkitRelativePath || file.name;
+      files.set(fileName, file);
+      return {
+        fileName,
+        blob: new Blob(), // Placeholder - read on demand
+        url: '',
+        mimeType: file.type || getMimeType(file.name),
+        size: file.size,
+        zipMediaKey: `${exportId}:${fileName}`,
+      };
+    });
+
+  console.log(`[ZipExtractor] Read unzipped export: ${chats.length} chats, ${media.length} media`);
+  return { chatFiles: chats, mediaFiles: media };
+}
+
+/**
+ * WhatsApp exports name the chat text like:
+ * "WhatsApp Chat with John Doe.txt"
+ * "WhatsApp Chat - Group Name.txt"
+ * "_chat.txt" (some formats)
+ */
+export function isChatTextFile(fileName: string): boolean {
+  const lowerFileName = fileName.toLowerCase();
+  return lowerFileName.endsWith('.txt') && lowerFileName.includes('chat');
+}
+
+/**
+ * Inflated content of a media entry of an opened backup (by zipMediaKey),
+ * bypassing the decoded-media LRU
+ */
+export async function getZipMediaBlob(mediaKey: string): Promise<Blob> {
+  // Keys are "<archive id>:<path in ZIP>"; paths may contain ':' themselves
+  const separator = mediaKey.indexOf(':');
+  const entryPath = mediaKey.slice(separator + 1);
+
+  // Unzipped exports need no inflating
+  const unzippedFile = unzippedExports.get(mediaKey.slice(0, separator))?.get(entryPath);
+  if (unzippedFile) return unzippedFile;
+
+  const archive = archives.get(mediaKey.slice(0, separator));
+  const entry = archive?.entries.get(entryPath);
+  if (!archive || !entry) {
+    // e.g. a library chat restored after a reload: its ZIP isn't open anymore
+    throw new Error(`Media not found in backup: ${entryPath}`);
+  }
+
+  return readZipEntry(archive.file, entry, getMimeType(entryPath));
+}
+
+/**
+ * Revokes the least recently used decoded media until within budget. Held
+ * media and the newest entry are always kept, however large.
+ */
+function evictDecodedMedia(): void {
+  const newestKey = Array.from(decodedMedia.keys()).pop();
+  for (const [mediaKey, decoded] of decodedMedia) {
+    if (decodedMedia.size <= MAX_DECODED_ENTRIES && decodedBytes <= MAX_DECODED_BYTES) return;
+    if (mediaKey === newestKey || mediaHolders.has(mediaKey)) continue;
+    URL.revokeObjectURL(decoded.url);
+    decodedBytes -= decoded.blob.size;
+    decodedMedia.delete(mediaKey);
+  }
+}
+
+/**
+ * Reads the list of entries from the ZIP's central directory (ZIP64 aware)
+ * without loading the rest of the file
+ */
+async function readCentralDirectory(file: Blob): Promise<ZipEntry[]> {
+  const tailStart = Math.max(0, file.size - MAX_EOCD_SEARCH);
+  const tail = new DataView(await file.slice(tailStart).arrayBuffer());
+
+  let eocd = -1;
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error('Not a ZIP file');
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB or 65535 entries keep the real values in a ZIP64 record
+  const locator = eocd - 20;
+  if (locator >= 0 && tail.getUint32(locator, true) === ZIP64_EOCD_LOCATOR_SIGNATURE) {
+    const recordOffset = readUint64(tail, locator + 8);
+    const record = new DataView(await file.slice(recordOffset, recordOffset + 56).arrayBuffer());
+    if (record.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+      entryCount = readUint64(record, 32);
+      directorySize = readUint64(record, 40);
+      directoryOffset = readUint64(record, 48);
+    }
+  }
+
+  const directory = new DataView(await file.slice(directoryOffset, directoryOffset + directorySize).arrayBuffer());
+  const decoder = new TextDecoder('utf-8');
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount && offset + 46 <= directory.byteLength; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+
+    const flags = directory.getUint16(offset + 8, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const entry: ZipEntry = {
+      path: decoder.decode(new Uint8Array(directory.buffer, offset + 46, nameLength)),
+      method: directory.getUint16(offset + 10, true),
+      compressedSize: directory.getUint32(offset + 20, true),
+      uncompressedSize: directory.getUint32(offset + 24, true),
+      localHeaderOffset: directory.getUint32(offset + 42, true),
+      encrypted: (flags & 0x1) !== 0,
+    };
+
+    // ZIP64 extra field holds whichever values overflowed, in this order
+    let extra = offset + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const fieldId = directory.getUint16(extra, true);
+      const fieldSize = directory.getUint16(extra + 2, true);
+      if (fieldId === ZIP64_EXTRA_FIELD) {
+        let field = extra + 4;
+        if (entry.uncompressedSize === 0xffffffff) { entry.uncompressedSize = readUint64(directory, field); field += 8; }
+        if (entry.compressedSize === 0xffffffff) { entry.compressedSize = readUint64(directory, field); field += 8; }
+        if (entry.localHeaderOffset === 0xffffffff) { entry.localHeaderOffset = readUint64(directory, field); }
+      }
+      extra += 4 + fieldSize;
+    }
+
+    entries.push(entry);
+    offset = extraEnd + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Inflates one entry. Stored entries are a zero-copy slice of the file.
+ */
+async function readZipEntry(file: Blob, entry: ZipEntry, mimeType = ''): Promise<Blob> {
+  if (entry.encrypted) throw new Error(`Encrypted ZIP entries are not supported: ${entry.path}`);
+
+  const header = new DataView(await file.slice(entry.localHeaderOffset, entry.localHeaderOffset + 30).arrayBuffer());
+  if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+    throw new Error(`Corrupt ZIP entry: ${entry.path}`);
+  }
+
+  // The local header's name/extra lengths can differ from the central directory's
+  const dataStart = entry.localHeaderOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + entry.compressedSize, mimeType);
+
+  if (entry.method === 0) return data;
+  if (entry.method === 8) {
+    const inflated = await new Response(data.stream().pipeThrough(new DecompressionStream('deflate-raw'))).blob();
+    return mimeType ? new Blob([inflated], { type: mimeType }) : inflated;
+  }
+  throw new Error(`Unsupported ZIP compression method ${entry.method}: ${entry.path}`);
+}
+
+function readUint64(view: DataView, offset: number): number {
+  // Exact up to 2^53, far beyond any export size
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 0x100000000;
+}
+
+/**
+ * Reads the whole ZIP with JSZip and inflates every media file up front
+ */
+async function extractWhatsAppBackupEagerly(file: File): Promise<ParsedZipContent> {
   try {
     const zip = await JSZip.loadAsync(file);
     
-    const chatFiles: Array<{ name: string; content: string }> = [];
+    const chatFiles: Array<{ name: string; file: Blob }> = [];
     const mediaFiles: MediaFile[] = [];
     
     // Process all files in the ZIP
@@ -27,18 +361,12 @@ export async function extractWhatsAppBackup(file: File): Promise<ParsedZipConten
       if (zipEntry.dir) return;
       
       const fileName = relativePath.split('/').pop() || relativePath;
-      const lowerFileName = fileName.toLowerCase();
       
       // Identify chat text files
-      // WhatsApp exports are typically named like:
-      // "WhatsApp Chat with John Doe.txt"
-      // "WhatsApp Chat - Group Name.txt"
-      // "_chat.txt" (some formats)
-      if (lowerFileName.endsWith('.txt') && 
-          (lowerFileName.includes('chat') || lowerFileName.includes('_chat'))) {
+      if (isChatTextFile(fileName)) {
         filePromises.push(
-          zipEntry.async('string').then(content => {
-            chatFiles.push({ name: fileName, content });
+          zipEntry.async('blob').then(blob => {
+            chatFiles.push({ name: fileName, file: blob });
           })
         );
       }
@@ -158,13 +486,18 @@ function getMimeType(fileName: string): string {
 }
 
 /**
- * Cleans up object URLs to prevent memory leaks
+ * Cleans up object URLs to prevent memory leaks: the given eagerly
+ * extracted files plus all media decoded on demand (call when switching chats)
  */
-export function cleanupMediaUrls(mediaFiles: MediaFile[]): void {
+export function cleanupMediaUrls(mediaFiles: MediaFile[] = []): void {
   mediaFiles.forEach(file => {
     if (file.url.startsWith('blob:')) {
       URL.revokeObjectURL(file.url);
     }
   });
+
+  decodedMedia.forEach(({ url }) => URL.revokeObjectURL(url));
+  decodedMedia.clear();
+  decodedBytes = 0;
 }
 
@@ -0,0 +1,62 @@
+/**
+ * Chat Parser Worker
+ * Runs the chat parser off the main thread so multi-year group chats don't
+ * freeze the UI. For each request it posts a preview of the newest messages
+ * first, then progress as it reads and parses the file chunk by chunk, then
+ * the full result.
+ */
+
+import { parseChatBlob, parseChatPreview } from '../utils/chatParser';
+import { setUserIdentity, type UserIdentityProfile } from '../config/userIdentity';
+import { setContactBook, type Contact } from '../config/contactBook';
+import type { Chat, ChatParseResult, MediaFile, ParseProgress } from '../types';
+
+export interface ParseRequest {
+  requestId: number;
+  fileName: string;
+  file: Blob; // Posting a Blob (or File) doesn't copy its data
+  mediaFiles: MediaFile[];
+  identity: UserIdentityProfile;
+  contacts: Contact[];
+  preview: boolean;
+}
+
+export type ParseResponse =
+  | { type: 'preview'; requestId: number; chat: Chat }
+  | { type: 'progress'; requestId: number; progress: ParseProgress }
+  | { type: 'done'; requestId: number; result: ChatParseResult }
+  | { type: 'error'; requestId: number; error: string };
+
+function post(response: ParseResponse): void {
+  self.postMessage(response);
+}
+
+async function handleRequest(request: ParseRequest): Promise<void> {
+  const { requestId, fileName, file, mediaFiles, identity, contacts, preview } = request;
+
+  try {
+    // The worker has its own copy of the config modules - use the main thread's state
+    setUserIdentity(identity);
+    setContactBook(contacts);
+
+    if (preview) {
+      const chat = await parseChatPreview(fileName, file, mediaFiles);
+      if (chat) post({ type: 'preview', requestId, chat });
+    }
+
+    const result = await parseChatBlob(fileName, file, mediaFiles, {
+      onProgress: progress => post({ type: 'progress', requestId, progress }),
+    });
+    post({ type: 'done', requestId, result });
+  } catch (error) {
+    post({ type: 'error', requestId, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+// One request at a time: reading a file yields between chunks, and a second
+// request must not swap the identity and contacts mid-parse
+let queue = Promise.resolve();
+
+self.addEventListener('message', (event: MessageEvent<ParseRequest>) => {
+  queue = queue.then(() => handleRequest(event.data));
+});
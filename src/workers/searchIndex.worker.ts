@@ -0,0 +1,32 @@
+/**
+ * Search Index Worker
+ * Tokenizes chats into inverted indexes off the main thread, so indexing a
+ * large chat right after it was parsed doesn't stall scrolling
+ */
+
+import { buildChatIndex, type ChatSearchIndex, type SearchSource } from '../utils/searchIndexer';
+import type { Chat } from '../types';
+
+export interface IndexRequest {
+  requestId: number;
+  chat: Chat;
+  source: SearchSource;
+}
+
+export type IndexResponse =
+  | { type: 'done'; requestId: number; index: ChatSearchIndex }
+  | { type: 'error'; requestId: number; error: string };
+
+function post(response: IndexResponse): void {
+  self.postMessage(response);
+}
+
+self.addEventListener('message', (event: MessageEvent<IndexRequest>) => {
+  const { requestId, chat, source } = event.data;
+
+  try {
+    post({ type: 'done', requestId, index: buildChatIndex(chat, source) });
+  } catch (error) {
+    post({ type: 'error', requestId, error: error instanceof Error ? error.message : 'Unknown error' });
+  }
+});
@@ -40,10 +40,16 @@ export default {
         'slide-down': {
           '0%': { transform: 'translateY(-100%)', opacity: '0' },
           '100%': { transform: 'translateY(0)', opacity: '1' },
+        },
+        'flash': {
+          '0%, 100%': { boxShadow: '0 0 0 0 rgba(253, 224, 71, 0)' },
+          '15%, 55%': { boxShadow: '0 0 0 6px rgba(253, 224, 71, 0.9)' },
+          '35%': { boxShadow: '0 0 0 2px rgba(253, 224, 71, 0.4)' },
         }
       },
       animation: {
         'slide-down': 'slide-down 0.3s ease-out',
+        'flash': 'flash 1.5s ease-out',
       }
     },
   },